@@ -4,6 +4,8 @@
  * Uses Supabase Admin API (service role) to delete the user. Supabase's public
  * auth API does not support DELETE /auth/v1/user (405 Method Not Allowed).
  * Requires SUPABASE_SERVICE_ROLE_KEY in env.
+ * The database keeps the profile as an anonymous "Deleted user" (tombstone_deleted_user),
+ * so expenses and settlements shared with others stay intact.
  */
 
 import { NextResponse } from 'next/server'
@@ -0,0 +1,32 @@
+/**
+ * GET /api/cron
+ * Header: Authorization: Bearer <CRON_SECRET>
+ * Posts every due recurring expense instance (catching up missed ones) via RPC.
+ * Idempotent: an instance is unique per (template, date), so re-runs post nothing new.
+ * Requires SUPABASE_SERVICE_ROLE_KEY and CRON_SECRET in env.
+ */
+
+import { NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/admin'
+
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const admin = getSupabaseAdmin()
+    const { data: posted, error } = await admin.rpc('post_due_recurring_expenses')
+
+    if (error) {
+      console.error('[cron] post_due_recurring_expenses error:', error)
+      return NextResponse.json({ error: 'Failed to post recurring expenses' }, { status: 500 })
+    }
+
+    return NextResponse.json({ posted: (posted as number | null) ?? 0 })
+  } catch (e) {
+    console.error('[cron]', e)
+    return NextResponse.json({ error: 'Something went wrong' }, { status: 500 })
+  }
+}
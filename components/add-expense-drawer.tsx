@@ -4,11 +4,13 @@
  * add-expense-drawer.tsx - Drawer for adding new expenses
  *
  * Purpose: Collect expense details (amount, title, split type) and submit
- * Responsibilities: Equal/custom split UI, validation, calls addExpense
- * Dependencies: app-context, balance-calculator, sonner
+ * Responsibilities: Equal/custom/percentage/shares/itemized split UI, payer picker / multi-payer entry,
+ *   repeat schedule, validation, calls addExpense / addRecurringExpense
+ * Dependencies: app-context, balance-calculator, recurring-schedule, share-split-card,
+ *   itemized-split-card, sonner
  */
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 import {
   Drawer,
   DrawerContent,
@@ -20,105 +22,435 @@ import {
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card } from '@/components/ui/card'
-import { Calendar, IndianRupee, Users } from 'lucide-react'
+import DateCalendar from '@/components/date-calendar'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { CalendarDays, IndianRupee, Users, Wallet } from 'lucide-react'
 import { useAppContext } from '@/context/app-context'
-import { buildEqualSplits } from '@/lib/utils/balance-calculator'
+import {
+  buildEqualSplits,
+  getRemainderTally,
+  buildItemizedSplits,
+  buildPercentageSplits,
+  buildShareSplits,
+} from '@/lib/utils/balance-calculator'
+import { describeRecurrence } from '@/lib/utils/recurring-schedule'
+import { memberName } from '@/lib/utils/member-names'
+import {
+  ZERO_MONEY,
+  formatRupees,
+  fromRupees,
+  paise,
+  subtractMoney,
+  sumMoney,
+  toRupees,
+} from '@/lib/utils/money'
+import { EXPENSE_CATEGORIES } from '@/lib/constants/expense-categories'
+import type {
+  Expense,
+  ExpenseCategory,
+  Group,
+  ItemizedCharges,
+  LineItem,
+  Money,
+  Payment,
+  RecurringFrequency,
+  SplitType,
+  User,
+} from '@/lib/types/expense.types'
+import ShareSplitCard from '@/components/share-split-card'
+import ItemizedSplitCard, { type ChargesDraft, type ItemDraft } from '@/components/itemized-split-card'
 import { toast } from 'sonner'
 
 interface AddExpenseDrawerProps {
   open: boolean
   onOpenChange: (open: boolean) => void
+  /** Edit mode: the expense to change; the form is prefilled from it each time the drawer opens */
+  expense?: Expense | null
 }
 
-/** Other room members (excluding the user adding the expense) */
-function otherMembers(room: { members: { id: string; name: string }[] } | null, currentUserId: string | undefined) {
-  if (!room || !currentUserId) return []
-  return room.members.filter((m) => m.id !== currentUserId)
+/** Split mode buttons, in display order */
+const SPLIT_MODES: Array<{ value: SplitType; label: string }> = [
+  { value: 'equal', label: 'Split Equally' },
+  { value: 'custom', label: 'Specific Users' },
+  { value: 'percentage', label: 'By %' },
+  { value: 'shares', label: 'By Shares' },
+  { value: 'itemized', label: 'Itemized' },
+]
+
+/** Repeat buttons, in display order (null = one-off) */
+const REPEAT_OPTIONS: Array<{ value: RecurringFrequency | null; label: string }> = [
+  { value: null, label: 'Never' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+]
+
+const EMPTY_CHARGES: ChargesDraft = { tax: '', serviceCharge: '', tip: '' }
+
+/**
+ * People the form offers: the room's members, plus (when editing) the payer, payers and
+ * participants of the expense who have left the room since, so an edit keeps them
+ */
+function formMembersFor(room: Group | null, expense: Expense | null | undefined): User[] {
+  if (!room) return []
+  if (!expense) return room.members
+  const onExpense = [
+    expense.paidBy.id,
+    ...(expense.payers ?? []).map((p) => p.userId),
+    ...expense.splits.map((sp) => sp.userId),
+    ...(expense.items ?? []).flatMap((item) => item.participantIds),
+  ]
+  const departed = [...new Set(onExpense)]
+    .filter((id) => !room.members.some((m) => m.id === id))
+    .map((id) => {
+      const name = memberName(room, id)
+      if (id !== expense.paidBy.id) return { id, name }
+      return { ...expense.paidBy, name: name === 'Unknown' ? expense.paidBy.name : name }
+    })
+  return [...room.members, ...departed]
+}
+
+/** Other people in the form (excluding whoever takes the rest) */
+function otherMembers(members: User[], currentUserId: string | undefined) {
+  if (!currentUserId) return []
+  return members.filter((m) => m.id !== currentUserId)
 }
 
-export default function AddExpenseDrawer({ open, onOpenChange }: AddExpenseDrawerProps) {
+/** Number as an input string (no trailing zeros beyond two decimals) */
+function amountInput(n: number): string {
+  return String(Math.round(n * 100) / 100)
+}
+
+/** Money as a rupee input string */
+function moneyInput(m: Money): string {
+  return String(toRupees(m))
+}
+
+/** Non-negative Money from a rupee input string */
+function parseMoneyInput(value: string | undefined): Money {
+  const m = fromRupees(value)
+  return m > 0 ? m : ZERO_MONEY
+}
+
+export default function AddExpenseDrawer({ open, onOpenChange, expense }: AddExpenseDrawerProps) {
   const [amount, setAmount] = useState('')
   const [title, setTitle] = useState('')
   const [date, setDate] = useState(new Date())
-  const [splitMode, setSplitMode] = useState<'equal' | 'custom'>('equal')
+  const [datePickerOpen, setDatePickerOpen] = useState(false)
+  const [category, setCategory] = useState<ExpenseCategory>('other')
+  /** Repeat schedule for new expenses (not offered when editing or itemized) */
+  const [repeat, setRepeat] = useState<RecurringFrequency | null>(null)
+  const [repeatEndDate, setRepeatEndDate] = useState<Date | undefined>(undefined)
+  const [endPickerOpen, setEndPickerOpen] = useState(false)
+  const [splitMode, setSplitMode] = useState<SplitType>('equal')
+  /** Equal split: members left out of the split (default: nobody, i.e. everyone shares) */
+  const [equalExcludedIds, setEqualExcludedIds] = useState<string[]>([])
   /** Custom split: userId -> amount input string */
   const [customAmounts, setCustomAmounts] = useState<Record<string, string>>({})
-  const { addExpense, user, room } = useAppContext()
+  /** Custom split: who takes the rest (null = current user; an edit keeps the original holder) */
+  const [restOwnerId, setRestOwnerId] = useState<string | null>(null)
+  /** Percentage split: userId -> percentage input string */
+  const [percentInputs, setPercentInputs] = useState<Record<string, string>>({})
+  /** Shares split: userId -> weight input string */
+  const [shareInputs, setShareInputs] = useState<Record<string, string>>({})
+  /** Itemized split: receipt lines and bill-level charges */
+  const [itemDrafts, setItemDrafts] = useState<ItemDraft[]>([])
+  const [chargesDraft, setChargesDraft] = useState<ChargesDraft>(EMPTY_CHARGES)
+  /** Single payer: chosen member id (null = current user) */
+  const [payerId, setPayerId] = useState<string | null>(null)
+  /** Multi-payer: when on, payerAmounts (userId -> amount input string) say who paid what */
+  const [multiPayer, setMultiPayer] = useState(false)
+  const [payerAmounts, setPayerAmounts] = useState<Record<string, string>>({})
+  const { addExpense, addRecurringExpense, editExpense, expenses, user, room } = useAppContext()
+  const isEdit = Boolean(expense)
+  const formMembers = useMemo(() => formMembersFor(room, expense), [room, expense])
 
-  const numAmount = parseFloat(amount) || 0
-  const others = useMemo(() => otherMembers(room, user?.id), [room, user?.id])
+  // Edit mode: load the expense into the form whenever the drawer opens
+  useEffect(() => {
+    if (!open || !expense || !room) return
+    // Custom splits gave the rest to whoever logged the expense (the payer, before enteredBy)
+    const restHolder =
+      [expense.enteredBy, expense.paidBy.id].find(
+        (id) => id && expense.splits.some((sp) => sp.userId === id)
+      ) ?? null
+    const splitInputs = (value: (split: Expense['splits'][number]) => number | undefined) =>
+      Object.fromEntries(
+        expense.splits.map((sp) => [sp.userId, amountInput(value(sp) ?? 0)])
+      )
+    setAmount(expense.splitType === 'itemized' ? '' : moneyInput(expense.amount))
+    setTitle(expense.title)
+    setDate(new Date(expense.expenseDate))
+    setCategory(expense.category)
+    setSplitMode(expense.splitType)
+    setEqualExcludedIds(
+      expense.splitType === 'equal'
+        ? formMembers.map((m) => m.id).filter((id) => !expense.splits.some((sp) => sp.userId === id))
+        : []
+    )
+    setCustomAmounts(
+      expense.splitType === 'custom'
+        ? splitInputs((sp) => (sp.userId === restHolder ? undefined : toRupees(sp.amount)))
+        : {}
+    )
+    setRestOwnerId(expense.splitType === 'custom' ? restHolder : null)
+    setPercentInputs(
+      expense.splitType === 'percentage'
+        ? splitInputs((sp) => sp.percentage ?? (sp.amount / expense.amount) * 100)
+        : {}
+    )
+    setShareInputs(expense.splitType === 'shares' ? splitInputs((sp) => sp.shares) : {})
+    setItemDrafts(
+      (expense.items ?? []).map((item, idx) => ({
+        key: idx + 1,
+        name: item.name,
+        amount: moneyInput(item.amount),
+        participantIds: item.participantIds,
+      }))
+    )
+    setChargesDraft(
+      expense.charges
+        ? {
+            tax: expense.charges.tax ? moneyInput(expense.charges.tax) : '',
+            serviceCharge: expense.charges.serviceCharge
+              ? moneyInput(expense.charges.serviceCharge)
+              : '',
+            tip: expense.charges.tip ? moneyInput(expense.charges.tip) : '',
+          }
+        : EMPTY_CHARGES
+    )
+    const hasPayers = (expense.payers?.length ?? 0) > 1
+    setMultiPayer(hasPayers)
+    setPayerAmounts(
+      hasPayers
+        ? Object.fromEntries(expense.payers!.map((p) => [p.userId, moneyInput(p.amount)]))
+        : {}
+    )
+    setPayerId(expense.paidBy.id)
+  }, [open, expense, room, formMembers])
+
+  const amountMoney = parseMoneyInput(amount)
+  const restOwner = restOwnerId ?? user?.id
+  const restIsYou = restOwner === user?.id
+  const restOwnerName = restIsYou ? 'You' : memberName(room, restOwner ?? '')
+  const others = useMemo(() => otherMembers(formMembers, restOwner), [formMembers, restOwner])
+
+  /** Participants for equal split: selected members in room order; stored as the split userIds */
+  const equalParticipantIds = useMemo(
+    () => formMembers.map((m) => m.id).filter((id) => !equalExcludedIds.includes(id)),
+    [formMembers, equalExcludedIds]
+  )
 
-  /** Participants for equal split: all members in room (including payer) so share = amount / room size */
-  const equalParticipantIds = useMemo(() => {
-    if (!room) return []
-    return room.members.map((m) => m.id)
-  }, [room])
+  const toggleEqualParticipant = (userId: string) => {
+    setEqualExcludedIds((prev) =>
+      prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]
+    )
+  }
 
-  /** Custom: others' amounts + rest for payer. Valid when rest >= 0 and at least one partner has amount > 0. */
+  /** Custom: others' amounts + rest for the rest owner. Valid when rest >= 0 and at least one partner has amount > 0. */
   const customSplitsParsed = useMemo(() => {
-    const othersSplits: { userId: string; amount: number }[] = []
-    let sumOthers = 0
-    others.forEach((member) => {
-      const val = Math.max(0, parseFloat(customAmounts[member.id] || '0') || 0)
-      othersSplits.push({ userId: member.id, amount: val })
-      sumOthers += val
-    })
-    const rest = numAmount - sumOthers
-    const restRounded = Math.round(rest * 100) / 100
-    const totalsOk = numAmount > 0 && restRounded >= -0.01
+    const othersSplits: { userId: string; amount: Money }[] = others.map((member) => ({
+      userId: member.id,
+      amount: parseMoneyInput(customAmounts[member.id]),
+    }))
+    const sumOthers = sumMoney(othersSplits.map((s) => s.amount))
+    const rest = subtractMoney(amountMoney, sumOthers)
+    const totalsOk = amountMoney > 0 && rest >= 0
     const atLeastOnePartnerFilled = sumOthers > 0
     const valid = totalsOk && atLeastOnePartnerFilled
-    const splits: { userId: string; amount: number }[] = [
+    const yourShare = rest > 0 ? rest : ZERO_MONEY
+    const splits: { userId: string; amount: Money }[] = [
       ...othersSplits,
-      ...(user?.id ? [{ userId: user.id, amount: Math.max(0, restRounded) }] : []),
+      ...(restOwner ? [{ userId: restOwner, amount: yourShare }] : []),
     ]
-    return { splits, sumOthers, rest: Math.max(0, restRounded), valid }
-  }, [others, customAmounts, numAmount, user?.id])
+    return { splits, sumOthers, rest: yourShare, valid }
+  }, [others, customAmounts, amountMoney, restOwner])
+
+  /** Percentage: members with a share > 0; valid when shares total 100% */
+  const percentageSplitsParsed = useMemo(() => {
+    const shares = formMembers
+      .map((m) => ({
+        userId: m.id,
+        percentage: Math.max(0, parseFloat(percentInputs[m.id] || '0') || 0),
+      }))
+      .filter((s) => s.percentage > 0)
+    const totalPercent = Math.round(shares.reduce((acc, s) => acc + s.percentage, 0) * 1000) / 1000
+    const splits = buildPercentageSplits(amountMoney, shares)
+    const valid = amountMoney > 0 && shares.length > 0 && Math.abs(totalPercent - 100) <= 0.001
+    return { splits, totalPercent, valid }
+  }, [formMembers, percentInputs, amountMoney])
+
+  /** Shares: members with a weight > 0; amounts proportional to weight */
+  const shareSplitsParsed = useMemo(() => {
+    const weights = formMembers.map((m) => ({
+      userId: m.id,
+      shares: Math.max(0, parseFloat(shareInputs[m.id] || '0') || 0),
+    }))
+    const splits = buildShareSplits(amountMoney, weights)
+    return { splits, valid: amountMoney > 0 && splits.length > 0 }
+  }, [formMembers, shareInputs, amountMoney])
+
+  /** Itemized: amount and splits derived from items + charges */
+  const itemizedParsed = useMemo(() => {
+    const items: LineItem[] = itemDrafts.map((d) => ({
+      name: d.name.trim(),
+      amount: parseMoneyInput(d.amount),
+      participantIds: d.participantIds,
+    }))
+    const charges: ItemizedCharges = {
+      tax: parseMoneyInput(chargesDraft.tax),
+      serviceCharge: parseMoneyInput(chargesDraft.serviceCharge),
+      tip: parseMoneyInput(chargesDraft.tip),
+    }
+    const { amount: total, splits } = buildItemizedSplits(items, charges)
+    const valid =
+      items.length > 0 &&
+      items.every((item) => item.amount > 0 && item.participantIds.length > 0) &&
+      total > 0
+    return { items, charges, total, splits, valid }
+  }, [itemDrafts, chargesDraft])
+
+  /** Amount that will be saved (itemized derives it from the receipt) */
+  const effectiveAmount = splitMode === 'itemized' ? itemizedParsed.total : amountMoney
+
+  /** Multi-payer: members who paid > 0; valid when payments sum to the amount */
+  const payersParsed = useMemo(() => {
+    const payers: Payment[] = formMembers
+      .map((m) => ({
+        userId: m.id,
+        amount: parseMoneyInput(payerAmounts[m.id]),
+      }))
+      .filter((p) => p.amount > 0)
+    const sum = sumMoney(payers.map((p) => p.amount))
+    const valid = payers.length > 0 && sum === effectiveAmount
+    // Primary payer (shown on the timeline, may delete) is whoever paid most; ties keep member order
+    const primary = payers.reduce<Payment | null>(
+      (best, p) => (!best || p.amount > best.amount ? p : best),
+      null
+    )
+    return { payers, sum, valid, primaryId: primary?.userId }
+  }, [formMembers, payerAmounts, effectiveAmount])
 
   const titleValid = title.trim().length > 0
   const canSave =
-    numAmount > 0 &&
+    effectiveAmount > 0 &&
     titleValid &&
-    (splitMode === 'equal' || (splitMode === 'custom' && customSplitsParsed.valid))
+    (!multiPayer || payersParsed.valid) &&
+    ((splitMode === 'equal' && equalParticipantIds.length > 0) ||
+      (splitMode === 'custom' && customSplitsParsed.valid) ||
+      (splitMode === 'percentage' && percentageSplitsParsed.valid) ||
+      (splitMode === 'shares' && shareSplitsParsed.valid) ||
+      (splitMode === 'itemized' && itemizedParsed.valid))
 
-  const handleAddExpense = async () => {
+  const handleSave = async () => {
     if (!user || !room) return
     if (!title.trim()) {
       toast.error('What was it for? is required')
       return
     }
+    if (splitMode === 'equal' && equalParticipantIds.length === 0) {
+      toast.error('Choose at least one person to split with')
+      return
+    }
     if (splitMode === 'custom' && !customSplitsParsed.valid) {
       if (customSplitsParsed.sumOthers <= 0) {
         toast.error('Add amount for at least one partner in Specific Users')
       } else {
-        toast.error('Partner amounts must equal total (rest is your share)')
+        toast.error(
+          `Partner amounts must equal total (rest is ${restIsYou ? 'your' : `${restOwnerName}'s`} share)`
+        )
       }
       return
     }
+    if (splitMode === 'percentage' && !percentageSplitsParsed.valid) {
+      toast.error('Percentages must total 100%')
+      return
+    }
+    if (splitMode === 'shares' && !shareSplitsParsed.valid) {
+      toast.error('Give at least one person a share')
+      return
+    }
+    if (splitMode === 'itemized' && !itemizedParsed.valid) {
+      toast.error('Every item needs an amount and at least one person')
+      return
+    }
+    if (multiPayer && !payersParsed.valid) {
+      toast.error('Payments must add up to the total')
+      return
+    }
+
+    const paidById = multiPayer ? payersParsed.primaryId : payerId ?? user.id
+    const paidBy = formMembers.find((m) => m.id === paidById)
+    if (!paidBy) {
+      toast.error('Choose who paid')
+      return
+    }
+    // Picked here so the random remainder policy can seed from it
+    const expenseId = expense?.id ?? crypto.randomUUID()
 
     const splits =
       splitMode === 'equal'
-        ? buildEqualSplits(numAmount, equalParticipantIds)
-        : customSplitsParsed.splits
+        ? buildEqualSplits(amountMoney, equalParticipantIds, {
+            policy: room.remainderPolicy ?? 'round_robin',
+            payerId: paidBy.id,
+            expenseId,
+            tally: getRemainderTally(expenses.filter((e) => e.id !== expenseId)),
+          })
+        : splitMode === 'percentage'
+          ? percentageSplitsParsed.splits
+          : splitMode === 'shares'
+            ? shareSplitsParsed.splits
+            : splitMode === 'itemized'
+              ? itemizedParsed.splits
+              : customSplitsParsed.splits
 
-    const result = await addExpense({
+    const input = {
       title: title.trim(),
-      amount: numAmount,
-      paidBy: user,
+      amount: effectiveAmount,
+      paidBy,
+      ...(multiPayer && payersParsed.payers.length > 1 && { payers: payersParsed.payers }),
+      expenseDate: date,
+      category,
       splitType: splitMode,
       splits,
-    })
+      ...(splitMode === 'itemized' && {
+        items: itemizedParsed.items,
+        charges: itemizedParsed.charges,
+      }),
+    }
+    const repeating = !expense && repeat !== null && splitMode !== 'itemized'
+    const result = expense
+      ? await editExpense(expense.id, input)
+      : repeating
+        ? await addRecurringExpense(
+            { ...input, id: expenseId },
+            { frequency: repeat, endDate: repeatEndDate }
+          )
+        : await addExpense({ ...input, id: expenseId })
 
     if (!result.success) {
       toast.error(result.error)
       return
     }
+    if (expense) toast.success('Expense updated')
+    if (repeating) toast.success(`${describeRecurrence(repeat, date.getDate())} from now on`)
 
     setAmount('')
     setTitle('')
     setDate(new Date())
+    setCategory('other')
+    setRepeat(null)
+    setRepeatEndDate(undefined)
     setSplitMode('equal')
     setCustomAmounts({})
+    setRestOwnerId(null)
+    setPercentInputs({})
+    setShareInputs({})
+    setItemDrafts([])
+    setChargesDraft(EMPTY_CHARGES)
+    setEqualExcludedIds([])
+    setPayerId(null)
+    setMultiPayer(false)
+    setPayerAmounts({})
     onOpenChange(false)
   }
 
@@ -126,11 +458,19 @@ export default function AddExpenseDrawer({ open, onOpenChange }: AddExpenseDrawe
     setCustomAmounts((prev) => ({ ...prev, [userId]: value }))
   }
 
+  const handlePercentChange = (userId: string, value: string) => {
+    setPercentInputs((prev) => ({ ...prev, [userId]: value }))
+  }
+
+  /** Computed rupee share for a member in percentage mode */
+  const percentShare = (userId: string) =>
+    percentageSplitsParsed.splits.find((sp) => sp.userId === userId)?.amount ?? ZERO_MONEY
+
   return (
     <Drawer open={open} onOpenChange={onOpenChange}>
       <DrawerContent className="max-w-md mx-auto max-h-[90vh] flex flex-col">
         <DrawerHeader className="flex-shrink-0">
-          <DrawerTitle>Add Expense</DrawerTitle>
+          <DrawerTitle>{isEdit ? 'Edit Expense' : 'Add Expense'}</DrawerTitle>
         </DrawerHeader>
 
         {/* Scrollable body so full form is visible on mobile */}
@@ -140,8 +480,15 @@ export default function AddExpenseDrawer({ open, onOpenChange }: AddExpenseDrawe
               <Input
                 type="number"
                 placeholder="0"
-                value={amount}
+                value={
+                  splitMode === 'itemized'
+                    ? itemizedParsed.total > 0
+                      ? formatRupees(itemizedParsed.total)
+                      : ''
+                    : amount
+                }
                 onChange={(e) => setAmount(e.target.value)}
+                readOnly={splitMode === 'itemized'}
                 className="text-3xl sm:text-4xl border-none text-center focus-visible:ring-0 placeholder:text-slate-200 font-mono font-bold"
                 autoFocus
               />
@@ -160,56 +507,244 @@ export default function AddExpenseDrawer({ open, onOpenChange }: AddExpenseDrawe
               />
             </div>
 
-            <Button
-              variant="outline"
-              className="w-full justify-start bg-transparent"
-              onClick={() => setDate(new Date())}
-            >
-              <Calendar className="h-4 w-4 mr-2" />
-              {date.toLocaleDateString('en-US', {
-                month: 'short',
-                day: 'numeric',
-                year: 'numeric',
-              })}
-            </Button>
-
             <div className="space-y-2">
               <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
-                Split
+                Category
               </p>
-              <div className="flex gap-2">
-                <button
-                  type="button"
-                  onClick={() => setSplitMode('equal')}
-                  className={`flex-1 px-3 py-2.5 rounded-lg border-2 text-sm font-medium transition-all ${
-                    splitMode === 'equal'
-                      ? 'border-primary bg-primary text-primary-foreground'
-                      : 'border-border bg-background text-foreground hover:bg-muted'
-                  }`}
-                >
-                  Split Equally
-                </button>
+              <div className="flex flex-wrap gap-2">
+                {EXPENSE_CATEGORIES.map((option) => {
+                  const Icon = option.icon
+                  const selected = category === option.value
+                  return (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setCategory(option.value)}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg border-2 text-sm font-medium transition-all ${
+                        selected
+                          ? 'border-primary bg-primary text-primary-foreground'
+                          : 'border-border bg-background text-foreground hover:bg-muted'
+                      }`}
+                    >
+                      <Icon className="h-3.5 w-3.5" />
+                      {option.label}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+
+            <Popover open={datePickerOpen} onOpenChange={setDatePickerOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-full justify-start bg-transparent">
+                  <CalendarDays className="h-4 w-4 mr-2" />
+                  {date.toLocaleDateString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric',
+                  })}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                {/* Backdating only: an expense can't happen after today */}
+                <DateCalendar
+                  mode="single"
+                  selected={date}
+                  defaultMonth={date}
+                  onSelect={(day) => {
+                    if (!day) return
+                    setDate(day)
+                    setDatePickerOpen(false)
+                  }}
+                  disabled={{ after: new Date() }}
+                  autoFocus
+                />
+              </PopoverContent>
+            </Popover>
+
+            {!isEdit && splitMode !== 'itemized' && (
+              <div className="space-y-2">
+                <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                  Repeat
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {REPEAT_OPTIONS.map((option) => (
+                    <button
+                      key={option.label}
+                      type="button"
+                      onClick={() => setRepeat(option.value)}
+                      className={`px-3 py-1.5 rounded-lg border-2 text-xs font-medium transition-all ${
+                        repeat === option.value
+                          ? 'border-primary bg-primary text-primary-foreground'
+                          : 'border-border bg-background text-foreground hover:bg-muted'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {repeat && (
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-muted-foreground">
+                      {describeRecurrence(repeat, date.getDate())}, posted automatically
+                    </p>
+                    <Popover open={endPickerOpen} onOpenChange={setEndPickerOpen}>
+                      <PopoverTrigger asChild>
+                        <Button variant="ghost" size="sm" className="h-7 text-xs shrink-0">
+                          {repeatEndDate
+                            ? `Until ${repeatEndDate.toLocaleDateString('en-US', {
+                                month: 'short',
+                                day: 'numeric',
+                                year: 'numeric',
+                              })}`
+                            : 'No end date'}
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="end">
+                        <DateCalendar
+                          mode="single"
+                          selected={repeatEndDate}
+                          defaultMonth={repeatEndDate ?? date}
+                          onSelect={(day) => {
+                            setRepeatEndDate(day)
+                            setEndPickerOpen(false)
+                          }}
+                          disabled={{ before: date }}
+                          autoFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                  Paid by
+                </p>
                 <button
                   type="button"
-                  onClick={() => setSplitMode('custom')}
-                  className={`flex-1 px-3 py-2.5 rounded-lg border-2 text-sm font-medium transition-all ${
-                    splitMode === 'custom'
-                      ? 'border-primary bg-primary text-primary-foreground'
-                      : 'border-border bg-background text-foreground hover:bg-muted'
-                  }`}
+                  onClick={() => setMultiPayer((v) => !v)}
+                  className="text-xs font-medium text-primary underline-offset-2 hover:underline"
                 >
-                  Specific Users
+                  {multiPayer ? 'Single payer' : 'More than one payer?'}
                 </button>
               </div>
+              {!multiPayer ? (
+                <div className="flex flex-wrap gap-2">
+                  {formMembers.map((member) => {
+                    const selected = (payerId ?? user?.id) === member.id
+                    return (
+                      <button
+                        key={member.id}
+                        type="button"
+                        onClick={() => setPayerId(member.id)}
+                        className={`px-3 py-1.5 rounded-lg border-2 text-sm font-medium transition-all ${
+                          selected
+                            ? 'border-primary bg-primary text-primary-foreground'
+                            : 'border-border bg-background text-foreground hover:bg-muted'
+                        }`}
+                      >
+                        {member.id === user?.id ? 'You' : member.name}
+                      </button>
+                    )
+                  })}
+                </div>
+              ) : (
+                room && (
+                  <Card className="p-4 border-2">
+                    <div className="flex items-center gap-2 mb-3">
+                      <Wallet className="h-4 w-4 text-muted-foreground shrink-0" />
+                      <h4 className="text-sm font-semibold">Who paid how much</h4>
+                    </div>
+                    <div className="space-y-3">
+                      {formMembers.map((member) => (
+                        <div key={member.id} className="flex items-center gap-2">
+                          <span className="text-sm flex-1 truncate">
+                            {member.id === user?.id ? `You (${member.name})` : member.name}
+                          </span>
+                          <Input
+                            type="number"
+                            placeholder="0"
+                            min={0}
+                            step={0.01}
+                            value={payerAmounts[member.id] ?? ''}
+                            onChange={(e) =>
+                              setPayerAmounts((prev) => ({ ...prev, [member.id]: e.target.value }))
+                            }
+                            className="w-28 text-right font-mono shrink-0"
+                          />
+                        </div>
+                      ))}
+                      <p
+                        className={`text-xs pt-1 border-t ${
+                          payersParsed.valid
+                            ? 'text-emerald-600 font-medium'
+                            : payersParsed.sum > effectiveAmount
+                              ? 'text-destructive'
+                              : 'text-muted-foreground'
+                        }`}
+                      >
+                        Paid: ₹{formatRupees(payersParsed.sum)} of ₹{formatRupees(effectiveAmount)}
+                      </p>
+                    </div>
+                  </Card>
+                )
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                Split
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {SPLIT_MODES.map((mode) => (
+                  <button
+                    key={mode.value}
+                    type="button"
+                    onClick={() => setSplitMode(mode.value)}
+                    className={`px-3 py-2.5 rounded-lg border-2 text-sm font-medium transition-all ${
+                      splitMode === mode.value
+                        ? 'border-primary bg-primary text-primary-foreground'
+                        : 'border-border bg-background text-foreground hover:bg-muted'
+                    }`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+              {splitMode === 'equal' && room && (
+                <div className="flex flex-wrap gap-1.5 pt-1">
+                  {formMembers.map((member) => {
+                    const selected = equalParticipantIds.includes(member.id)
+                    return (
+                      <button
+                        key={member.id}
+                        type="button"
+                        onClick={() => toggleEqualParticipant(member.id)}
+                        className={`px-2.5 py-1 rounded-full border text-xs font-medium transition-all ${
+                          selected
+                            ? 'border-primary bg-primary text-primary-foreground'
+                            : 'border-border bg-background text-muted-foreground'
+                        }`}
+                      >
+                        {member.id === user?.id ? 'You' : member.name}
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
               {/* Inline split card when Specific Users selected - no popover so inputs don't close it */}
-              {splitMode === 'custom' && numAmount > 0 && others.length > 0 && (
+              {splitMode === 'custom' && amountMoney > 0 && others.length > 0 && (
                 <Card className="mt-3 p-4 border-2">
                   <div className="flex items-center gap-2 mb-3">
                     <Users className="h-4 w-4 text-muted-foreground shrink-0" />
                     <h4 className="text-sm font-semibold">Split between partners</h4>
                   </div>
                   <p className="text-xs text-muted-foreground mb-3">
-                    Total ₹{numAmount.toFixed(2)} — rest is your share
+                    Total ₹{formatRupees(amountMoney)} — rest is {restIsYou ? 'your' : `${restOwnerName}'s`} share
                   </p>
                   <div className="space-y-3">
                     {others.map((member) => (
@@ -226,11 +761,13 @@ export default function AddExpenseDrawer({ open, onOpenChange }: AddExpenseDrawe
                         />
                       </div>
                     ))}
-                    {user && (
+                    {restOwner && (
                       <div className="flex items-center gap-2 pt-1 border-t">
-                        <span className="text-sm flex-1 truncate">You ({user.name})</span>
+                        <span className="text-sm flex-1 truncate">
+                          {restIsYou ? `You (${user?.name})` : restOwnerName}
+                        </span>
                         <span className="w-28 text-right font-mono text-sm text-muted-foreground shrink-0">
-                          ₹{customSplitsParsed.rest.toFixed(2)}
+                          ₹{formatRupees(customSplitsParsed.rest)}
                         </span>
                       </div>
                     )}
@@ -238,26 +775,103 @@ export default function AddExpenseDrawer({ open, onOpenChange }: AddExpenseDrawe
                       className={`text-xs pt-1 ${
                         customSplitsParsed.valid
                           ? 'text-emerald-600 font-medium'
-                          : customSplitsParsed.sumOthers > numAmount
+                          : customSplitsParsed.sumOthers > amountMoney
                             ? 'text-destructive'
                             : 'text-muted-foreground'
                       }`}
                     >
-                      Partners: ₹{customSplitsParsed.sumOthers.toFixed(2)} + You: ₹{customSplitsParsed.rest.toFixed(2)} = ₹{numAmount.toFixed(2)}
-                      {!customSplitsParsed.valid && customSplitsParsed.sumOthers > numAmount && (
-                        <span className="block">Partners total cannot exceed ₹{numAmount.toFixed(2)}</span>
+                      Partners: ₹{formatRupees(customSplitsParsed.sumOthers)} + {restOwnerName}: ₹{formatRupees(customSplitsParsed.rest)} = ₹{formatRupees(amountMoney)}
+                      {!customSplitsParsed.valid && customSplitsParsed.sumOthers > amountMoney && (
+                        <span className="block">Partners total cannot exceed ₹{formatRupees(amountMoney)}</span>
                       )}
-                      {!customSplitsParsed.valid && customSplitsParsed.sumOthers <= numAmount && customSplitsParsed.sumOthers === 0 && (
+                      {!customSplitsParsed.valid && customSplitsParsed.sumOthers <= amountMoney && customSplitsParsed.sumOthers === 0 && (
                         <span className="block text-amber-600">Add amount for at least one partner to save</span>
                       )}
                     </p>
                   </div>
                 </Card>
               )}
+              {splitMode === 'percentage' && amountMoney > 0 && room && (
+                <Card className="mt-3 p-4 border-2">
+                  <div className="flex items-center gap-2 mb-3">
+                    <Users className="h-4 w-4 text-muted-foreground shrink-0" />
+                    <h4 className="text-sm font-semibold">Split by percentage</h4>
+                  </div>
+                  <div className="space-y-3">
+                    {formMembers.map((member) => (
+                      <div key={member.id} className="flex items-center gap-2">
+                        <span className="text-sm flex-1 truncate">
+                          {member.id === user?.id ? `You (${member.name})` : member.name}
+                        </span>
+                        <span className="w-20 text-right font-mono text-xs text-muted-foreground shrink-0">
+                          ₹{formatRupees(percentShare(member.id))}
+                        </span>
+                        <div className="relative w-20 shrink-0">
+                          <Input
+                            type="number"
+                            placeholder="0"
+                            min={0}
+                            max={100}
+                            step={0.01}
+                            value={percentInputs[member.id] ?? ''}
+                            onChange={(e) => handlePercentChange(member.id, e.target.value)}
+                            className="pr-6 text-right font-mono"
+                          />
+                          <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">
+                            %
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                    <p
+                      className={`text-xs pt-1 border-t ${
+                        percentageSplitsParsed.valid
+                          ? 'text-emerald-600 font-medium'
+                          : percentageSplitsParsed.totalPercent > 100
+                            ? 'text-destructive'
+                            : 'text-muted-foreground'
+                      }`}
+                    >
+                      Total: {percentageSplitsParsed.totalPercent}% of 100%
+                    </p>
+                  </div>
+                </Card>
+              )}
+              {splitMode === 'shares' && amountMoney > 0 && room && (
+                <ShareSplitCard
+                  roomId={room.id}
+                  members={formMembers}
+                  currentUserId={user?.id}
+                  weights={shareInputs}
+                  onWeightsChange={setShareInputs}
+                  splits={shareSplitsParsed.splits}
+                />
+              )}
+              {splitMode === 'itemized' && room && (
+                <ItemizedSplitCard
+                  members={formMembers}
+                  currentUserId={user?.id}
+                  items={itemDrafts}
+                  onItemsChange={setItemDrafts}
+                  charges={chargesDraft}
+                  onChargesChange={setChargesDraft}
+                  splits={itemizedParsed.splits}
+                />
+              )}
               <p className="text-xs text-muted-foreground">
                 {splitMode === 'equal'
-                  ? 'Split equally among everyone in the room (including you)'
-                  : 'Set amount per partner; the rest is your share'}
+                  ? equalExcludedIds.length === 0
+                    ? 'Split equally among everyone in the room (including you)'
+                    : amountMoney > 0 && equalParticipantIds.length > 0
+                      ? `Split equally between ${equalParticipantIds.length} (₹${formatRupees(paise(Math.floor(amountMoney / equalParticipantIds.length)))} each)`
+                      : 'Tap people to include them in the split'
+                  : splitMode === 'percentage'
+                    ? 'Give each person a percentage; leftover paise are assigned automatically'
+                    : splitMode === 'shares'
+                      ? 'Give each person a weight (e.g. 2 : 1.5 : 1); save weights as a room preset'
+                      : splitMode === 'itemized'
+                        ? 'Add each item with who had it; tax, service and tip are shared in proportion'
+                        : `Set amount per partner; the rest is ${restIsYou ? 'your' : `${restOwnerName}'s`} share`}
               </p>
             </div>
           </div>
@@ -265,12 +879,12 @@ export default function AddExpenseDrawer({ open, onOpenChange }: AddExpenseDrawe
 
         <DrawerFooter className="flex-shrink-0 space-y-2 border-t pt-4">
           <Button
-            onClick={handleAddExpense}
+            onClick={handleSave}
             disabled={!canSave}
             className="w-full"
           >
             <IndianRupee className="h-4 w-4 mr-1" />
-            Add Expense
+            {isEdit ? 'Save Changes' : 'Add Expense'}
           </Button>
           <DrawerClose asChild>
             <Button variant="outline" className="w-full bg-transparent">
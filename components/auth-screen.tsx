@@ -16,6 +16,7 @@ import {
 import { useAppContext } from '@/context/app-context'
 import { signIn, signUp, getSecurityQuestion, resetPasswordByQuestion } from '@/lib/services/auth.service'
 import { createGroup, joinGroupByCode } from '@/lib/services/group.service'
+import type { Group } from '@/lib/types/expense.types'
 import { Users, Plus } from 'lucide-react'
 import { toast } from 'sonner'
 
@@ -79,6 +80,8 @@ export default function AuthScreen() {
   const [roomCode, setRoomCode] = useState('')
   const [joinLoading, setJoinLoading] = useState(false)
   const [createLoading, setCreateLoading] = useState(false)
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [roomName, setRoomName] = useState('')
   const [activeTab, setActiveTab] = useState<'login' | 'signup'>('login')
   const [showForgotPassword, setShowForgotPassword] = useState(false)
   const [forgotEmail, setForgotEmail] = useState('')
@@ -207,13 +210,15 @@ export default function AuthScreen() {
   }
 
   const handleCreateRoom = async () => {
-    if (!user) return
+    if (!user || !roomName.trim()) return
     setCreateLoading(true)
     try {
-      const group = await createGroup('My Expense')
+      const group = await createGroup(roomName.trim())
       if (group) {
-        await refreshGroups()
-        setRoom(group)
+        const list = await refreshGroups()
+        setRoom(list.find((g) => g.id === group.id) ?? group)
+        setShowCreateDialog(false)
+        setRoomName('')
         toast.success('Room created! Share the code: ' + group.code)
       }
     } catch (e) {
@@ -229,8 +234,8 @@ export default function AuthScreen() {
     try {
       const group = await joinGroupByCode(roomCode)
       if (group) {
-        await refreshGroups()
-        setRoom(group)
+        const list = await refreshGroups()
+        setRoom(list.find((g) => g.id === group.id) ?? group)
         setShowJoinDialog(false)
         setRoomCode('')
         toast.success('Joined room!')
@@ -242,7 +247,7 @@ export default function AuthScreen() {
     }
   }
 
-  const handleSelectGroup = (group: { id: string; name: string; code: string; members: { id: string; name: string; email?: string }[] }) => {
+  const handleSelectGroup = (group: Group) => {
     setRoom(group)
   }
 
@@ -261,7 +266,7 @@ export default function AuthScreen() {
               className="mb-2 w-40 sm:w-52 h-auto object-contain"
             />
             <p className="text-muted-foreground text-sm">
-              {hasRoom ? 'Your room' : 'Create a room or join with an invite code'}
+              {hasRoom ? 'Pick a room, or add another' : 'Create a room or join with an invite code'}
             </p>
           </div>
 
@@ -280,11 +285,11 @@ export default function AuthScreen() {
                   </button>
                 </div>
               )}
-              {/* User already has one room: show only that room */}
+              {/* Rooms the user is already in */}
               {hasRoom && (
                 <div className="space-y-2">
                   <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
-                    Your Room
+                    Your Rooms
                   </p>
                   {groups.map((g) => (
                     <Card
@@ -299,35 +304,68 @@ export default function AuthScreen() {
                 </div>
               )}
 
-              {/* No room yet: only create OR join (one choice) */}
-              {!hasRoom && (
-                <>
-                  <div className="space-y-3">
-                    <Card
-                      className="p-6 cursor-pointer hover:border-primary transition-colors active:scale-95"
-                      onClick={createLoading ? undefined : handleCreateRoom}
-                    >
-                      <Plus className="h-8 w-8 mb-3 text-primary" />
-                      <p className="font-semibold mb-1">Create a room</p>
-                      <p className="text-sm text-muted-foreground">I&apos;m the first one here</p>
-                    </Card>
-                  </div>
-                  <div className="space-y-3">
-                    <Card
-                      className="p-6 cursor-pointer hover:border-primary transition-colors active:scale-95"
-                      onClick={() => setShowJoinDialog(true)}
-                    >
-                      <Users className="h-8 w-8 mb-3 text-primary" />
-                      <p className="font-semibold mb-1">I have an invite code</p>
-                      <p className="text-sm text-muted-foreground">Join an existing room</p>
-                    </Card>
-                  </div>
-                </>
-              )}
+              {/* Create another room or join one (a flat and a trip can run side by side) */}
+              <div className="space-y-3">
+                <Card
+                  className="p-6 cursor-pointer hover:border-primary transition-colors active:scale-95"
+                  onClick={() => setShowCreateDialog(true)}
+                >
+                  <Plus className="h-8 w-8 mb-3 text-primary" />
+                  <p className="font-semibold mb-1">Create a room</p>
+                  <p className="text-sm text-muted-foreground">I&apos;m the first one here</p>
+                </Card>
+              </div>
+              <div className="space-y-3">
+                <Card
+                  className="p-6 cursor-pointer hover:border-primary transition-colors active:scale-95"
+                  onClick={() => setShowJoinDialog(true)}
+                >
+                  <Users className="h-8 w-8 mb-3 text-primary" />
+                  <p className="font-semibold mb-1">I have an invite code</p>
+                  <p className="text-sm text-muted-foreground">Join an existing room</p>
+                </Card>
+              </div>
             </div>
           </div>
         </div>
 
+        <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+          <DialogContent className="w-full max-w-md">
+            <DialogHeader>
+              <DialogTitle>Create a Room</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <Input
+                type="text"
+                placeholder="Room name (e.g. Flat, Goa trip)"
+                value={roomName}
+                onChange={(e) => setRoomName(e.target.value)}
+                maxLength={60}
+                autoFocus
+              />
+            </div>
+            <DialogFooter className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setShowCreateDialog(false)
+                  setRoomName('')
+                }}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreateRoom}
+                className="flex-1"
+                disabled={!roomName.trim() || createLoading}
+              >
+                {createLoading ? 'Creating...' : 'Create Room'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={showJoinDialog} onOpenChange={setShowJoinDialog}>
           <DialogContent className="w-full max-w-md">
             <DialogHeader>
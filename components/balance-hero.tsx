@@ -1,9 +1,11 @@
 'use client'
 
 import { Card } from '@/components/ui/card'
+import { absMoney, formatRupees } from '@/lib/utils/money'
+import type { Money } from '@/lib/types/expense.types'
 
 interface BalanceHeroProps {
-  balance: number
+  balance: Money
 }
 
 export default function BalanceHero({ balance }: BalanceHeroProps) {
@@ -17,14 +19,14 @@ export default function BalanceHero({ balance }: BalanceHeroProps) {
     <Card className={`p-8 text-center ${bgColor} border-0`}>
       <p className="text-sm font-medium text-muted-foreground mb-2">Your Balance</p>
       <p className={`text-4xl font-mono font-bold ${balanceColor}`}>
-        {isNeutral ? 'Settled' : `${isPositive ? '+' : '-'}₹${Math.abs(balance).toFixed(2)}`}
+        {isNeutral ? 'Settled' : `${isPositive ? '+' : '-'}₹${formatRupees(absMoney(balance))}`}
       </p>
       <p className="text-xs text-muted-foreground mt-3">
         {isNeutral
           ? 'All settled up!'
           : isPositive
-            ? `You are owed ₹${balance.toFixed(2)} total`
-            : `You owe ₹${Math.abs(balance).toFixed(2)}`}
+            ? `You are owed ₹${formatRupees(balance)} total`
+            : `You owe ₹${formatRupees(absMoney(balance))}`}
       </p>
     </Card>
   )
@@ -0,0 +1,215 @@
+'use client'
+
+/**
+ * balance-stats-drawer.tsx - Balances as of a date and balance history chart
+ *
+ * Purpose: Answer "what did I owe at the end of January?" and show how balances moved
+ * Responsibilities: As-of date picker with every member's balance; per-member line chart over time
+ * Dependencies: app-context, balance-calculator, balance-history, member-names, money, recharts
+ */
+
+import { useMemo, useState } from 'react'
+import {
+  Drawer,
+  DrawerContent,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer'
+import { Button } from '@/components/ui/button'
+import DateCalendar from '@/components/date-calendar'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { CalendarDays, LineChart as LineChartIcon } from 'lucide-react'
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { useAppContext } from '@/context/app-context'
+import { calculateBalancesAsOf } from '@/lib/utils/balance-calculator'
+import { getBalanceHistory } from '@/lib/utils/balance-history'
+import { fromDateKey, toDateKey } from '@/lib/utils/date-keys'
+import { ZERO_MONEY, absMoney, formatRupees } from '@/lib/utils/money'
+import { memberName } from '@/lib/utils/member-names'
+import type { Money } from '@/lib/types/expense.types'
+
+interface BalanceStatsDrawerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/** Line colours, cycled per member (theme chart palette) */
+const LINE_COLORS = [
+  'var(--chart-1)',
+  'var(--chart-2)',
+  'var(--chart-3)',
+  'var(--chart-4)',
+  'var(--chart-5)',
+]
+
+function shortDate(dateKey: string): string {
+  return fromDateKey(dateKey).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+export default function BalanceStatsDrawer({ open, onOpenChange }: BalanceStatsDrawerProps) {
+  const { user, room, expenses, settlements } = useAppContext()
+  const [asOf, setAsOf] = useState(() => new Date())
+  const [datePickerOpen, setDatePickerOpen] = useState(false)
+
+  const memberIds = useMemo(() => room?.members.map((m) => m.id) ?? [], [room])
+  const history = useMemo(
+    () => getBalanceHistory(expenses, settlements, memberIds),
+    [expenses, settlements, memberIds]
+  )
+  const asOfBalances = useMemo(
+    () => calculateBalancesAsOf(expenses, memberIds, settlements, asOf),
+    [expenses, memberIds, settlements, asOf]
+  )
+
+  if (!user || !room) return null
+
+  const getName = (userId: string) => memberName(room, userId)
+  // One line per user in the history (current members first)
+  const userIds = history.length > 0 ? Object.keys(history[0].balances) : memberIds
+  // recharts reads one row per day with a column per user (values in paise)
+  const chartData = history.map((point) => ({ dateKey: point.dateKey, ...point.balances }))
+  const asOfKey = toDateKey(asOf)
+  const isToday = asOfKey === toDateKey(new Date())
+  // The marker sits on the last day with activity up to the picked date
+  const asOfPointKey = history.filter((p) => p.dateKey <= asOfKey).at(-1)?.dateKey
+
+  return (
+    <Drawer open={open} onOpenChange={onOpenChange}>
+      <DrawerContent className="max-w-md mx-auto max-h-[90vh] flex flex-col">
+        <DrawerHeader className="flex-shrink-0">
+          <DrawerTitle>Balance Stats</DrawerTitle>
+        </DrawerHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto px-4 space-y-4 pb-6">
+          {/* Balances as of a date */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                {isToday ? 'Balances today' : 'Balances at end of day'}
+              </p>
+              <Popover open={datePickerOpen} onOpenChange={setDatePickerOpen}>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm" className="h-8 bg-transparent">
+                    <CalendarDays className="h-3.5 w-3.5 mr-1.5" />
+                    {asOf.toLocaleDateString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric',
+                    })}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="end">
+                  <DateCalendar
+                    mode="single"
+                    selected={asOf}
+                    defaultMonth={asOf}
+                    onSelect={(day) => {
+                      if (!day) return
+                      setAsOf(day)
+                      setDatePickerOpen(false)
+                    }}
+                    disabled={{ after: new Date() }}
+                    autoFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            {userIds.map((userId) => {
+              const balance = asOfBalances[userId] ?? ZERO_MONEY
+              return (
+                <div
+                  key={userId}
+                  className={`flex items-center justify-between p-3 rounded-lg ${
+                    userId === user.id ? 'bg-primary/10' : 'bg-muted'
+                  }`}
+                >
+                  <span className="text-sm truncate">
+                    {userId === user.id ? 'You' : getName(userId)}
+                  </span>
+                  <span
+                    className={`font-mono font-bold shrink-0 ${
+                      balance < 0 ? 'text-destructive' : balance > 0 ? 'text-emerald-600' : ''
+                    }`}
+                  >
+                    {balance < 0 ? 'owes ' : balance > 0 ? 'gets ' : ''}₹
+                    {formatRupees(absMoney(balance))}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+
+          {/* Balance history */}
+          <div className="space-y-2">
+            <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+              Balance over time
+            </p>
+            {history.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-6 text-center">
+                <LineChartIcon className="h-8 w-8 text-muted-foreground mb-2" />
+                <p className="text-sm text-muted-foreground">No expenses yet</p>
+              </div>
+            ) : (
+              <div className="h-64 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                    <XAxis
+                      dataKey="dateKey"
+                      tickFormatter={shortDate}
+                      tick={{ fontSize: 10 }}
+                      minTickGap={16}
+                    />
+                    <YAxis
+                      tickFormatter={(value: number) => `₹${formatRupees(value as Money, 0)}`}
+                      tick={{ fontSize: 10 }}
+                      width={56}
+                    />
+                    <Tooltip
+                      labelFormatter={(label) => shortDate(String(label))}
+                      formatter={(value, name) => [
+                        `₹${formatRupees(Number(value) as Money)}`,
+                        name,
+                      ]}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <ReferenceLine y={0} className="stroke-muted-foreground" />
+                    {!isToday && asOfPointKey && (
+                      <ReferenceLine
+                        x={asOfPointKey}
+                        strokeDasharray="4 4"
+                        className="stroke-primary"
+                      />
+                    )}
+                    {userIds.map((userId, i) => (
+                      <Line
+                        key={userId}
+                        type="stepAfter"
+                        dataKey={userId}
+                        name={userId === user.id ? 'You' : getName(userId)}
+                        stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                        strokeWidth={userId === user.id ? 2.5 : 1.5}
+                        dot={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  )
+}
@@ -0,0 +1,226 @@
+'use client'
+
+/**
+ * budget-panel.tsx - Category budget progress for the selected month
+ *
+ * Purpose: Track agreed monthly caps (e.g. ₹8,000 groceries) against room spend
+ * Responsibilities: Progress bars with carry-over; dialog to set budgets and the reset schedule
+ * Dependencies: app-context, budget-calculator, expense-categories, money, sonner
+ */
+
+import { useMemo, useState } from 'react'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Target } from 'lucide-react'
+import { useAppContext } from '@/context/app-context'
+import { budgetInEffect, getBudgetStatuses } from '@/lib/utils/budget-calculator'
+import { toMonthKey } from '@/lib/utils/date-keys'
+import { ZERO_MONEY, absMoney, formatRupees, fromRupees, toRupees } from '@/lib/utils/money'
+import { EXPENSE_CATEGORIES, expenseCategoryOption } from '@/lib/constants/expense-categories'
+import type { BudgetResetSchedule } from '@/lib/types/expense.types'
+import { toast } from 'sonner'
+
+interface BudgetPanelProps {
+  /** First day of the selected month */
+  month: Date
+}
+
+const RESET_SCHEDULES: Array<{ value: BudgetResetSchedule; label: string }> = [
+  { value: 'monthly', label: 'Every month' },
+  { value: 'quarterly', label: 'Every quarter' },
+  { value: 'yearly', label: 'Every year' },
+  { value: 'never', label: 'Never' },
+]
+
+export default function BudgetPanel({ month }: BudgetPanelProps) {
+  const { budgets, expenses, saveCategoryBudget } = useAppContext()
+  const [editing, setEditing] = useState(false)
+  const [amountInputs, setAmountInputs] = useState<Record<string, string>>({})
+  const [schedule, setSchedule] = useState<BudgetResetSchedule>('monthly')
+  const [saving, setSaving] = useState(false)
+
+  const monthKey = toMonthKey(month)
+  const statuses = useMemo(
+    () => getBudgetStatuses(budgets, expenses, monthKey),
+    [budgets, expenses, monthKey]
+  )
+
+  const openEditor = () => {
+    const inputs: Record<string, string> = {}
+    let currentSchedule: BudgetResetSchedule | undefined
+    EXPENSE_CATEGORIES.forEach((c) => {
+      const budget = budgetInEffect(budgets, c.value, monthKey)
+      if (budget && budget.amount > 0) {
+        inputs[c.value] = String(toRupees(budget.amount))
+        currentSchedule ??= budget.resetSchedule
+      }
+    })
+    setAmountInputs(inputs)
+    setSchedule(currentSchedule ?? 'monthly')
+    setEditing(true)
+  }
+
+  /** Saves changed categories from this month on; cleared inputs remove the budget */
+  const handleSave = async () => {
+    setSaving(true)
+    const changes = EXPENSE_CATEGORIES.map((c) => {
+      const existing = budgetInEffect(budgets, c.value, monthKey)
+      const entered = fromRupees(amountInputs[c.value])
+      const amount = entered > 0 ? entered : ZERO_MONEY
+      const existingAmount = existing?.amount ?? ZERO_MONEY
+      const changed =
+        amount !== existingAmount || (amount > 0 && existing?.resetSchedule !== schedule)
+      return changed ? { category: c.value, amount } : null
+    }).filter((c): c is NonNullable<typeof c> => c !== null)
+
+    for (const change of changes) {
+      const result = await saveCategoryBudget({
+        category: change.category,
+        amount: change.amount,
+        startsOn: month,
+        resetSchedule: schedule,
+      })
+      if (!result.success) {
+        setSaving(false)
+        toast.error(result.error)
+        return
+      }
+    }
+    setSaving(false)
+    setEditing(false)
+    if (changes.length > 0) toast.success('Budgets saved')
+  }
+
+  return (
+    <Card className="p-4 gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Target className="h-4 w-4 text-muted-foreground shrink-0" />
+          <h3 className="text-sm font-semibold truncate">Budgets</h3>
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={openEditor}>
+          {statuses.length > 0 ? 'Edit' : 'Set budgets'}
+        </Button>
+      </div>
+
+      {statuses.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No budgets for this month</p>
+      ) : (
+        <div className="space-y-2.5">
+          {statuses.map((status) => {
+            const option = expenseCategoryOption(status.category)
+            const Icon = option.icon
+            const barColor =
+              status.percent >= 100
+                ? 'bg-destructive'
+                : status.percent >= 80
+                  ? 'bg-amber-500'
+                  : 'bg-emerald-500'
+            return (
+              <div key={status.category} className="space-y-1">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="flex items-center gap-1.5 min-w-0">
+                    <Icon className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                    <span className="truncate">{option.label}</span>
+                  </span>
+                  <span className="font-mono text-xs shrink-0">
+                    ₹{formatRupees(status.spent, 0)} / ₹{formatRupees(status.available, 0)}
+                  </span>
+                </div>
+                <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className={`h-full ${barColor}`}
+                    style={{ width: `${Math.min(100, status.percent)}%` }}
+                  />
+                </div>
+                {status.carriedOver !== 0 && (
+                  <p className="text-[10px] text-muted-foreground">
+                    {status.carriedOver > 0 ? '+' : '−'}₹{formatRupees(absMoney(status.carriedOver), 0)}{' '}
+                    carried over
+                  </p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <Dialog open={editing} onOpenChange={setEditing}>
+        <DialogContent className="w-[calc(100vw-2rem)] max-w-sm mx-auto sm:w-full rounded-xl p-4 sm:p-6">
+          <DialogHeader>
+            <DialogTitle>
+              Budgets from {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {EXPENSE_CATEGORIES.map((c) => {
+              const Icon = c.icon
+              return (
+                <div key={c.value} className="flex items-center gap-2">
+                  <Icon className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <span className="text-sm flex-1 truncate">{c.label}</span>
+                  <Input
+                    type="number"
+                    placeholder="No cap"
+                    min={0}
+                    step={100}
+                    value={amountInputs[c.value] ?? ''}
+                    onChange={(e) =>
+                      setAmountInputs((prev) => ({ ...prev, [c.value]: e.target.value }))
+                    }
+                    className="w-28 text-right font-mono shrink-0"
+                  />
+                </div>
+              )
+            })}
+
+            <div className="space-y-2 pt-2 border-t">
+              <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                Leftover resets
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {RESET_SCHEDULES.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setSchedule(option.value)}
+                    className={`px-3 py-1.5 rounded-lg border-2 text-xs font-medium transition-all ${
+                      schedule === option.value
+                        ? 'border-primary bg-primary text-primary-foreground'
+                        : 'border-border bg-background text-foreground hover:bg-muted'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {schedule === 'monthly'
+                  ? 'Each month starts fresh'
+                  : 'Unspent budget (or overspend) carries into the next month until it resets'}
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter className="flex gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setEditing(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save budgets'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,69 @@
+'use client'
+
+/**
+ * category-totals-card.tsx - Room spend per category for one month
+ *
+ * Purpose: Compare categories (e.g. groceries vs. food) for the selected month
+ * Responsibilities: Per-category totals with share-of-month bars (month picked by MonthSwitcher)
+ * Dependencies: app-context, category-totals, expense-categories, money
+ */
+
+import { useMemo } from 'react'
+import { Card } from '@/components/ui/card'
+import { PieChart } from 'lucide-react'
+import { useAppContext } from '@/context/app-context'
+import { getCategoryTotals } from '@/lib/utils/category-totals'
+import { expenseCategoryOption } from '@/lib/constants/expense-categories'
+import { formatRupees, sumMoney } from '@/lib/utils/money'
+
+interface CategoryTotalsCardProps {
+  /** Any day in the month to total */
+  month: Date
+}
+
+export default function CategoryTotalsCard({ month }: CategoryTotalsCardProps) {
+  const { expenses } = useAppContext()
+
+  const totals = useMemo(() => getCategoryTotals(expenses, month), [expenses, month])
+  const monthTotal = sumMoney(totals.map((t) => t.total))
+
+  return (
+    <Card className="p-4 gap-3">
+      <div className="flex items-center gap-2 min-w-0">
+        <PieChart className="h-4 w-4 text-muted-foreground shrink-0" />
+        <h3 className="text-sm font-semibold truncate">By category</h3>
+      </div>
+
+      {totals.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No expenses this month</p>
+      ) : (
+        <div className="space-y-2.5">
+          {totals.map((t) => {
+            const option = expenseCategoryOption(t.category)
+            const Icon = option.icon
+            const pct = monthTotal > 0 ? (t.total / monthTotal) * 100 : 0
+            return (
+              <div key={t.category} className="space-y-1">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="flex items-center gap-1.5 min-w-0">
+                    <Icon className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                    <span className="truncate">{option.label}</span>
+                    <span className="text-xs text-muted-foreground">· {t.count}</span>
+                  </span>
+                  <span className="font-mono font-semibold shrink-0">₹{formatRupees(t.total)}</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                  <div className={`h-full ${option.color}`} style={{ width: `${pct}%` }} />
+                </div>
+              </div>
+            )
+          })}
+          <div className="flex items-center justify-between pt-2 border-t text-sm">
+            <span className="text-muted-foreground">Total</span>
+            <span className="font-mono font-bold">₹{formatRupees(monthTotal)}</span>
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
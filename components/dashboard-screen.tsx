@@ -6,8 +6,13 @@ import SnakeTimeline from '@/components/snake-timeline'
 import AddExpenseDrawer from '@/components/add-expense-drawer'
 import SettingsSheet from '@/components/settings-sheet'
 import SettlementDrawer from '@/components/settlement-drawer'
+import BalanceStatsDrawer from '@/components/balance-stats-drawer'
+import CategoryTotalsCard from '@/components/category-totals-card'
+import MonthSwitcher from '@/components/month-switcher'
+import BudgetPanel from '@/components/budget-panel'
 import { Plus, IndianRupee } from 'lucide-react'
 import { useAppContext } from '@/context/app-context'
+import { startOfMonthOffset, toMonthKey } from '@/lib/utils/date-keys'
 
 interface DashboardScreenProps {
   onLogout: () => void
@@ -17,7 +22,10 @@ export default function DashboardScreen({ onLogout }: DashboardScreenProps) {
   const [showAddExpense, setShowAddExpense] = useState(false)
   const [showSettings, setShowSettings] = useState(false)
   const [showSettlement, setShowSettlement] = useState(false)
-  const { room, expensesLoading, expensesError, refreshExpenses } = useAppContext()
+  const [showStats, setShowStats] = useState(false)
+  /** Month shown in category totals and opened in the timeline (first day of month) */
+  const [selectedMonth, setSelectedMonth] = useState(() => startOfMonthOffset(new Date(), 0))
+  const { room, expenses, expensesLoading, expensesError, refreshExpenses } = useAppContext()
 
   return (
     <div className="max-w-md mx-auto min-h-screen border-x border-slate-100 bg-background flex flex-col relative overflow-hidden">
@@ -34,6 +42,7 @@ export default function DashboardScreen({ onLogout }: DashboardScreenProps) {
       <StickyHUD
         onMenuClick={() => setShowSettings(true)}
         onStatsClick={() => setShowSettlement(true)}
+        onHistoryClick={() => setShowStats(true)}
       />
 
       {/* Content Area with padding for sticky header */}
@@ -54,7 +63,14 @@ export default function DashboardScreen({ onLogout }: DashboardScreenProps) {
           {expensesLoading && !expensesError ? (
             <p className="text-muted-foreground text-sm py-2">Loading expenses...</p>
           ) : null}
-          <SnakeTimeline />
+          {expenses.length > 0 && (
+            <>
+              <MonthSwitcher month={selectedMonth} onMonthChange={setSelectedMonth} />
+              <CategoryTotalsCard month={selectedMonth} />
+              <BudgetPanel month={selectedMonth} />
+            </>
+          )}
+          <SnakeTimeline selectedMonthKey={toMonthKey(selectedMonth)} />
         </div>
       </div>
 
@@ -84,6 +100,11 @@ export default function DashboardScreen({ onLogout }: DashboardScreenProps) {
         open={showSettlement}
         onOpenChange={setShowSettlement}
       />
+
+      <BalanceStatsDrawer
+        open={showStats}
+        onOpenChange={setShowStats}
+      />
     </div>
   )
 }
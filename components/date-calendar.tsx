@@ -0,0 +1,93 @@
+'use client'
+
+/**
+ * date-calendar.tsx - Month grid date picker (react-day-picker styled like the ui primitives)
+ *
+ * Purpose: Pick a day inside a popover (expense date, repeat end date, balance as-of date)
+ * Responsibilities: Theme DayPicker with the button styles; pass every DayPicker prop through
+ * Dependencies: react-day-picker, components/ui/button, lucide-react
+ */
+
+import * as React from 'react'
+import { ChevronDownIcon, ChevronLeftIcon, ChevronRightIcon } from 'lucide-react'
+import { DayPicker, getDefaultClassNames } from 'react-day-picker'
+
+import { cn } from '@/lib/utils'
+import { buttonVariants } from '@/components/ui/button'
+
+export default function DateCalendar({
+  className,
+  classNames,
+  showOutsideDays = true,
+  ...props
+}: React.ComponentProps<typeof DayPicker>) {
+  const defaultClassNames = getDefaultClassNames()
+
+  return (
+    <DayPicker
+      data-slot='calendar'
+      showOutsideDays={showOutsideDays}
+      className={cn('bg-background p-3 [--cell-size:2rem]', className)}
+      classNames={{
+        root: cn('w-fit', defaultClassNames.root),
+        months: cn('relative flex flex-col gap-4', defaultClassNames.months),
+        month: cn('flex w-full flex-col gap-4', defaultClassNames.month),
+        nav: cn(
+          'absolute inset-x-0 top-0 flex w-full items-center justify-between gap-1',
+          defaultClassNames.nav
+        ),
+        button_previous: cn(
+          buttonVariants({ variant: 'ghost' }),
+          'size-(--cell-size) p-0 select-none aria-disabled:opacity-50',
+          defaultClassNames.button_previous
+        ),
+        button_next: cn(
+          buttonVariants({ variant: 'ghost' }),
+          'size-(--cell-size) p-0 select-none aria-disabled:opacity-50',
+          defaultClassNames.button_next
+        ),
+        month_caption: cn(
+          'flex h-(--cell-size) w-full items-center justify-center px-(--cell-size)',
+          defaultClassNames.month_caption
+        ),
+        caption_label: cn('text-sm font-medium select-none', defaultClassNames.caption_label),
+        month_grid: cn('w-full border-collapse', defaultClassNames.month_grid),
+        weekdays: cn('flex', defaultClassNames.weekdays),
+        weekday: cn(
+          'text-muted-foreground flex-1 rounded-md text-[0.8rem] font-normal select-none',
+          defaultClassNames.weekday
+        ),
+        week: cn('mt-2 flex w-full', defaultClassNames.week),
+        day: cn(
+          'relative aspect-square h-full w-full p-0 text-center select-none',
+          defaultClassNames.day
+        ),
+        day_button: cn(
+          buttonVariants({ variant: 'ghost' }),
+          'size-(--cell-size) p-0 font-normal aria-selected:opacity-100'
+        ),
+        selected: cn(
+          '[&>button]:bg-primary [&>button]:text-primary-foreground [&>button]:hover:bg-primary',
+          defaultClassNames.selected
+        ),
+        today: cn('[&>button]:bg-accent [&>button]:text-accent-foreground', defaultClassNames.today),
+        outside: cn('text-muted-foreground aria-selected:text-muted-foreground', defaultClassNames.outside),
+        disabled: cn('text-muted-foreground opacity-50', defaultClassNames.disabled),
+        hidden: cn('invisible', defaultClassNames.hidden),
+        ...classNames,
+      }}
+      components={{
+        Chevron: ({ className, orientation, ...props }) => {
+          if (orientation === 'left') {
+            return <ChevronLeftIcon className={cn('size-4', className)} {...props} />
+          }
+          if (orientation === 'right') {
+            return <ChevronRightIcon className={cn('size-4', className)} {...props} />
+          }
+          return <ChevronDownIcon className={cn('size-4', className)} {...props} />
+        },
+      }}
+      {...props}
+    />
+  )
+}
@@ -2,6 +2,7 @@
 
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { useAppContext } from '@/context/app-context'
+import { formatRupees } from '@/lib/utils/money'
 
 export default function ExpenseFeed() {
   const { expenses, user } = useAppContext()
@@ -28,13 +29,13 @@ export default function ExpenseFeed() {
           <div className="flex-1 min-w-0">
             <p className="font-medium text-sm truncate">{expense.title}</p>
             <p className="text-xs text-muted-foreground">
-              {new Date(expense.createdAt).toLocaleDateString('en-US', {
+              {new Date(expense.expenseDate).toLocaleDateString('en-US', {
                 month: 'short',
                 day: 'numeric',
               })}
             </p>
           </div>
-          <p className="font-mono font-semibold text-sm">₹{expense.amount.toFixed(2)}</p>
+          <p className="font-mono font-semibold text-sm">₹{formatRupees(expense.amount)}</p>
         </div>
       ))}
     </div>
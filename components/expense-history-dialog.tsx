@@ -0,0 +1,157 @@
+'use client'
+
+/**
+ * expense-history-dialog.tsx - Edit history of a single expense
+ *
+ * Purpose: Show who changed an expense, when, and what it looked like before
+ * Responsibilities: Load revisions; show each edit as before → after for the fields it touched
+ * Dependencies: expense.service, app-context, expense-categories, member-names, money
+ */
+
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { History } from 'lucide-react'
+import { useAppContext } from '@/context/app-context'
+import { loadExpenseRevisions } from '@/lib/services/expense.service'
+import { expenseCategoryOption } from '@/lib/constants/expense-categories'
+import { formatRupees } from '@/lib/utils/money'
+import { memberName } from '@/lib/utils/member-names'
+import type { Expense, ExpenseRevision, ExpenseRevisionField } from '@/lib/types/expense.types'
+
+interface ExpenseHistoryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Current version of the expense */
+  expense: Expense | null
+}
+
+const FIELD_LABELS: Record<ExpenseRevisionField, string> = {
+  title: 'Title',
+  amount: 'Amount',
+  expense_date: 'Date',
+  category: 'Category',
+  paid_by: 'Paid by',
+  splits: 'Split',
+}
+
+const SPLIT_TYPE_LABELS: Record<Expense['splitType'], string> = {
+  equal: 'Equal',
+  custom: 'Specific amounts',
+  percentage: 'By %',
+  shares: 'By shares',
+  itemized: 'Itemized',
+}
+
+const formatDate = (d: Date) =>
+  d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+export default function ExpenseHistoryDialog({ open, onOpenChange, expense }: ExpenseHistoryDialogProps) {
+  const { user, room } = useAppContext()
+  const [revisions, setRevisions] = useState<ExpenseRevision[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!open || !expense) return
+    let cancelled = false
+    setLoading(true)
+    loadExpenseRevisions(expense.id)
+      .then((list) => {
+        if (!cancelled) setRevisions(list)
+      })
+      .catch((err) => {
+        console.error('[expense-history-dialog] loadExpenseRevisions error:', err)
+        if (!cancelled) setRevisions([])
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+    // Reload when the expense itself changes (e.g. right after an edit)
+  }, [open, expense])
+
+  if (!expense) return null
+
+  const getName = (userId?: string) =>
+    !userId
+      ? 'Unknown'
+      : userId === user?.id
+        ? 'You'
+        : memberName(room, userId)
+
+  const describe = (version: Expense, field: ExpenseRevisionField): string => {
+    switch (field) {
+      case 'title':
+        return version.title
+      case 'amount':
+        return `₹${formatRupees(version.amount)}`
+      case 'expense_date':
+        return formatDate(version.expenseDate)
+      case 'category':
+        return expenseCategoryOption(version.category).label
+      case 'paid_by':
+        return version.payers && version.payers.length > 1
+          ? version.payers.map((p) => `${getName(p.userId)} ₹${formatRupees(p.amount)}`).join(', ')
+          : getName(version.paidBy.id)
+      case 'splits':
+        return `${SPLIT_TYPE_LABELS[version.splitType]} · ${version.splits
+          .map((sp) => `${getName(sp.userId)} ₹${formatRupees(sp.amount)}`)
+          .join(', ')}`
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100vw-2rem)] max-w-sm mx-auto sm:w-full rounded-xl p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            History
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This expense has not been edited</p>
+          ) : (
+            revisions.map((revision, idx) => {
+              // Each revision holds the version before the edit; the version after is the next newer one
+              const after = idx === 0 ? expense : revisions[idx - 1].previous
+              return (
+                <div key={revision.id} className="rounded-lg border p-3 space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    {getName(revision.revisedBy)} ·{' '}
+                    {revision.revisedAt.toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </p>
+                  {revision.changedFields.map((field) => (
+                    <div key={field} className="text-sm">
+                      <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                        {FIELD_LABELS[field] ?? field}
+                      </p>
+                      <p className="break-words text-muted-foreground line-through">
+                        {describe(revision.previous, field)}
+                      </p>
+                      <p className="break-words font-medium">{describe(after, field)}</p>
+                    </div>
+                  ))}
+                </div>
+              )
+            })
+          )}
+          <p className="text-xs text-muted-foreground">
+            Added by {getName(expense.enteredBy ?? expense.paidBy.id)} on{' '}
+            {formatDate(expense.createdAt)}
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
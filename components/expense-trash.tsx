@@ -0,0 +1,164 @@
+'use client'
+
+/**
+ * expense-trash.tsx - Trash section for deleted expenses (shown in SettingsSheet)
+ *
+ * Purpose: Restore deleted expenses or remove them for good within the retention window
+ * Responsibilities: Load trash when shown; restore via app-context; purge with confirmation
+ * Dependencies: expense.service, app-context, constants/trash, sonner
+ */
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { RotateCcw, Trash2 } from 'lucide-react'
+import { useAppContext } from '@/context/app-context'
+import { loadDeletedExpenses, purgeExpense } from '@/lib/services/expense.service'
+import { TRASH_RETENTION_DAYS, trashDaysLeft } from '@/lib/constants/trash'
+import { formatRupees } from '@/lib/utils/money'
+import type { Expense } from '@/lib/types/expense.types'
+import { toast } from 'sonner'
+
+interface ExpenseTrashProps {
+  /** Load the trash only while the settings sheet is open */
+  open: boolean
+}
+
+export default function ExpenseTrash({ open }: ExpenseTrashProps) {
+  const { room, user, restoreExpense } = useAppContext()
+  const [trash, setTrash] = useState<Expense[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [toPurge, setToPurge] = useState<Expense | null>(null)
+
+  useEffect(() => {
+    if (!open || !room) return
+    let cancelled = false
+    setLoading(true)
+    loadDeletedExpenses(room.id)
+      .then((list) => {
+        if (!cancelled) setTrash(list)
+      })
+      .catch((err) => {
+        console.error('[expense-trash] loadDeletedExpenses error:', err)
+        if (!cancelled) setTrash([])
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, room?.id])
+
+  /** Same people who could delete it: the payer or whoever entered it */
+  const canManage = (expense: Expense) =>
+    expense.paidBy.id === user?.id || expense.enteredBy === user?.id
+
+  const handleRestore = async (expense: Expense) => {
+    setBusyId(expense.id)
+    const ok = await restoreExpense(expense)
+    setBusyId(null)
+    if (!ok) return
+    setTrash((prev) => prev.filter((e) => e.id !== expense.id))
+    toast.success(`"${expense.title}" restored`)
+  }
+
+  const handlePurge = async () => {
+    if (!toPurge) return
+    const expense = toPurge
+    setBusyId(expense.id)
+    const ok = await purgeExpense(expense.id)
+    setBusyId(null)
+    setToPurge(null)
+    if (!ok) {
+      toast.error('Failed to delete expense')
+      return
+    }
+    setTrash((prev) => prev.filter((e) => e.id !== expense.id))
+  }
+
+  return (
+    <div>
+      <h3 className="font-semibold mb-1 text-sm">Trash</h3>
+      <p className="text-xs text-muted-foreground mb-3">
+        Deleted expenses are kept for {TRASH_RETENTION_DAYS} days
+      </p>
+      {loading ? (
+        <p className="text-xs text-muted-foreground">Loading...</p>
+      ) : trash.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Trash is empty</p>
+      ) : (
+        <div className="space-y-2">
+          {trash.map((expense) => {
+            const daysLeft = expense.deletedAt ? trashDaysLeft(expense.deletedAt) : 0
+            return (
+              <div key={expense.id} className="flex items-center gap-2 p-3 bg-muted rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{expense.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    ₹{formatRupees(expense.amount)} · {daysLeft} {daysLeft === 1 ? 'day' : 'days'} left
+                  </p>
+                </div>
+                {canManage(expense) && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      disabled={busyId === expense.id}
+                      onClick={() => handleRestore(expense)}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                      <span className="sr-only">Restore {expense.title}</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                      disabled={busyId === expense.id}
+                      onClick={() => setToPurge(expense)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete {expense.title} forever</span>
+                    </Button>
+                  </>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Permanent delete confirmation */}
+      <Dialog open={!!toPurge} onOpenChange={(o) => !o && setToPurge(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Delete forever?</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            {toPurge && (
+              <>
+                <strong>{toPurge.title}</strong> will be removed permanently. This cannot be undone.
+              </>
+            )}
+          </p>
+          <DialogFooter className="flex gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setToPurge(null)} disabled={busyId !== null}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handlePurge} disabled={busyId !== null}>
+              {busyId !== null ? 'Deleting...' : 'Yes, delete forever'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+'use client'
+
+/**
+ * itemized-split-card.tsx - Receipt item entry for itemized splits
+ *
+ * Purpose: Enter line items with their own participants, plus tax / service charge / tip
+ * Responsibilities: Edit item drafts; show each person's derived share
+ * Dependencies: money (splits are computed by the drawer)
+ */
+
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Plus, Receipt, X } from 'lucide-react'
+import { formatRupees } from '@/lib/utils/money'
+import type { Split, User } from '@/lib/types/expense.types'
+
+/** Editable receipt line (inputs kept as strings until save) */
+export interface ItemDraft {
+  key: number
+  name: string
+  amount: string
+  participantIds: string[]
+}
+
+/** Editable charges (inputs kept as strings until save) */
+export interface ChargesDraft {
+  tax: string
+  serviceCharge: string
+  tip: string
+}
+
+interface ItemizedSplitCardProps {
+  members: User[]
+  currentUserId?: string
+  items: ItemDraft[]
+  onItemsChange: (items: ItemDraft[]) => void
+  charges: ChargesDraft
+  onChargesChange: (charges: ChargesDraft) => void
+  /** Splits derived from the current items and charges */
+  splits: Split[]
+}
+
+const CHARGE_FIELDS: Array<{ key: keyof ChargesDraft; label: string }> = [
+  { key: 'tax', label: 'Tax' },
+  { key: 'serviceCharge', label: 'Service' },
+  { key: 'tip', label: 'Tip' },
+]
+
+export default function ItemizedSplitCard({
+  members,
+  currentUserId,
+  items,
+  onItemsChange,
+  charges,
+  onChargesChange,
+  splits,
+}: ItemizedSplitCardProps) {
+  const updateItem = (key: number, patch: Partial<ItemDraft>) => {
+    onItemsChange(items.map((item) => (item.key === key ? { ...item, ...patch } : item)))
+  }
+
+  const toggleParticipant = (item: ItemDraft, userId: string) => {
+    const participantIds = item.participantIds.includes(userId)
+      ? item.participantIds.filter((id) => id !== userId)
+      : [...item.participantIds, userId]
+    updateItem(item.key, { participantIds })
+  }
+
+  const addItem = () => {
+    const nextKey = items.reduce((max, item) => Math.max(max, item.key), 0) + 1
+    onItemsChange([
+      ...items,
+      { key: nextKey, name: '', amount: '', participantIds: members.map((m) => m.id) },
+    ])
+  }
+
+  const memberLabel = (member: User) => (member.id === currentUserId ? 'You' : member.name)
+
+  return (
+    <Card className="mt-3 p-4 border-2">
+      <div className="flex items-center gap-2 mb-3">
+        <Receipt className="h-4 w-4 text-muted-foreground shrink-0" />
+        <h4 className="text-sm font-semibold">Receipt items</h4>
+      </div>
+
+      <div className="space-y-3">
+        {items.map((item) => (
+          <div key={item.key} className="space-y-2 p-2 rounded-lg bg-muted/50">
+            <div className="flex items-center gap-2">
+              <Input
+                type="text"
+                placeholder="Item"
+                value={item.name}
+                onChange={(e) => updateItem(item.key, { name: e.target.value })}
+                className="h-8 text-sm"
+              />
+              <Input
+                type="number"
+                placeholder="0"
+                min={0}
+                step={0.01}
+                value={item.amount}
+                onChange={(e) => updateItem(item.key, { amount: e.target.value })}
+                className="h-8 w-24 text-right font-mono shrink-0"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 shrink-0 text-muted-foreground"
+                onClick={() => onItemsChange(items.filter((i) => i.key !== item.key))}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove item</span>
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {members.map((member) => {
+                const selected = item.participantIds.includes(member.id)
+                return (
+                  <button
+                    key={member.id}
+                    type="button"
+                    onClick={() => toggleParticipant(item, member.id)}
+                    className={`px-2 py-0.5 rounded-full border text-xs transition-all ${
+                      selected
+                        ? 'border-primary bg-primary text-primary-foreground'
+                        : 'border-border bg-background text-muted-foreground'
+                    }`}
+                  >
+                    {memberLabel(member)}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+        ))}
+
+        <Button variant="outline" size="sm" onClick={addItem} className="w-full h-8 text-xs">
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          Add item
+        </Button>
+
+        <div className="grid grid-cols-3 gap-2 pt-2 border-t">
+          {CHARGE_FIELDS.map((field) => (
+            <div key={field.key}>
+              <label className="text-[10px] text-muted-foreground uppercase tracking-wide">
+                {field.label}
+              </label>
+              <Input
+                type="number"
+                placeholder="0"
+                min={0}
+                step={0.01}
+                value={charges[field.key]}
+                onChange={(e) => onChargesChange({ ...charges, [field.key]: e.target.value })}
+                className="h-8 text-right font-mono"
+              />
+            </div>
+          ))}
+        </div>
+
+        {splits.length > 0 && (
+          <div className="space-y-1 pt-2 border-t">
+            {splits.map((split) => {
+              const member = members.find((m) => m.id === split.userId)
+              return (
+                <div key={split.userId} className="flex items-center justify-between text-xs">
+                  <span className="truncate">{member ? memberLabel(member) : 'Unknown'}</span>
+                  <span className="font-mono">₹{formatRupees(split.amount)}</span>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,187 @@
+'use client'
+
+/**
+ * member-exit-dialog.tsx - Leave a room / remove a member, with their balance settled first
+ *
+ * Purpose: Nobody walks away owing money (or being owed) without the room knowing
+ * Responsibilities: Show the member's net position and who they owe / who owes them;
+ *   record payments from here; allow removal once settled, or earlier with admin acknowledgement
+ * Dependencies: app-context, balance-calculator, member-names, money, record-payment-dialog,
+ *   room-roles
+ */
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { AlertTriangle } from 'lucide-react'
+import { useAppContext } from '@/context/app-context'
+import { getSettlementBreakdown } from '@/lib/utils/balance-calculator'
+import { memberName } from '@/lib/utils/member-names'
+import { isRoomAdmin } from '@/lib/utils/room-roles'
+import { ZERO_MONEY, absMoney, formatRupees } from '@/lib/utils/money'
+import RecordPaymentDialog, { type RecordPaymentPrefill } from '@/components/record-payment-dialog'
+
+interface MemberExitDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Member leaving (the current user) or being removed (by the owner or an admin) */
+  member: { id: string; name: string } | null
+  loading: boolean
+  /** acknowledgeBalance: admin chose to remove them with a balance outstanding */
+  onConfirm: (acknowledgeBalance: boolean) => void
+}
+
+export default function MemberExitDialog({
+  open,
+  onOpenChange,
+  member,
+  loading,
+  onConfirm,
+}: MemberExitDialogProps) {
+  const { user, room, expenses, settlements, balances } = useAppContext()
+  const [acknowledged, setAcknowledged] = useState(false)
+  const [recordOpen, setRecordOpen] = useState(false)
+  const [recordPrefill, setRecordPrefill] = useState<RecordPaymentPrefill | null>(null)
+
+  useEffect(() => {
+    if (open) setAcknowledged(false)
+  }, [open, member?.id])
+
+  if (!user || !room || !member) return null
+
+  const isSelf = member.id === user.id
+  const isAdmin = isRoomAdmin(room, user.id)
+  const balance = balances[member.id] ?? ZERO_MONEY
+  const settled = balance === 0
+  const { youGive, youGet } = getSettlementBreakdown(expenses, member.id, settlements)
+  const canAcknowledge = isAdmin && !isSelf
+  const canConfirm = !loading && (settled || (canAcknowledge && acknowledged))
+
+  const subject = isSelf ? 'You' : member.name
+  const position = settled
+    ? `${subject} ${isSelf ? 'are' : 'is'} settled up.`
+    : balance < 0
+      ? `${subject} ${isSelf ? 'owe' : 'owes'} ₹${formatRupees(absMoney(balance))} overall.`
+      : `${subject} ${isSelf ? 'are' : 'is'} owed ₹${formatRupees(balance)} overall.`
+  const nameOf = (userId: string) => (userId === user.id ? 'you' : memberName(room, userId))
+
+  // Who pays whom to settle each line (the member is one side of every transfer)
+  const transfers = [
+    ...youGive.map(({ userId, amount }) => ({ fromUserId: member.id, toUserId: userId, amount })),
+    ...youGet.map(({ userId, amount }) => ({ fromUserId: userId, toUserId: member.id, amount })),
+  ]
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100vw-2rem)] max-w-sm mx-auto sm:w-full rounded-xl p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle>{isSelf ? 'Leave this room?' : `Remove ${member.name}?`}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <p
+            className={`text-sm font-semibold ${
+              settled ? 'text-muted-foreground' : balance < 0 ? 'text-destructive' : 'text-emerald-600'
+            }`}
+          >
+            {position}
+          </p>
+
+          {transfers.length > 0 && (
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {transfers.map(({ fromUserId, toUserId, amount }) => {
+                const involvesYou = fromUserId === user.id || toUserId === user.id
+                return (
+                  <div
+                    key={`${fromUserId}-${toUserId}`}
+                    className="flex items-center justify-between gap-2 p-2 rounded-lg bg-muted text-sm"
+                  >
+                    <span className="min-w-0 truncate">
+                      {fromUserId === user.id ? 'You pay' : `${nameOf(fromUserId)} pays`}{' '}
+                      {nameOf(toUserId)}
+                    </span>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <span className="font-mono font-bold">₹{formatRupees(amount)}</span>
+                      {involvesYou && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => {
+                            setRecordPrefill({ fromUserId, toUserId, amount })
+                            setRecordOpen(true)
+                          }}
+                        >
+                          Record
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          {settled ? (
+            <p className="text-sm text-muted-foreground">
+              {isSelf
+                ? 'You will be removed from the room. You can rejoin later with the invite code.'
+                : `${member.name} can rejoin with the invite code. Their past expenses keep their name.`}
+            </p>
+          ) : canAcknowledge ? (
+            <label className="flex items-start gap-2 p-3 rounded-lg border border-amber-500/40 bg-amber-500/5 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={acknowledged}
+                onChange={(e) => setAcknowledged(e.target.checked)}
+                className="mt-0.5"
+              />
+              <span>
+                Remove anyway. Their ₹{formatRupees(absMoney(balance))} stays in everyone&apos;s
+                balances and can&apos;t be recorded as settled once they leave.
+              </span>
+            </label>
+          ) : (
+            <p className="flex items-start gap-2 text-sm text-muted-foreground">
+              <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-600 shrink-0" />
+              {isSelf
+                ? 'Settle up before leaving, or ask an admin to remove you.'
+                : 'Only the owner or an admin can remove a member who is not settled up.'}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => onConfirm(!settled && acknowledged)}
+            disabled={!canConfirm}
+          >
+            {loading
+              ? isSelf
+                ? 'Leaving...'
+                : 'Removing...'
+              : isSelf
+                ? 'Yes, leave room'
+                : 'Yes, remove'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+
+      <RecordPaymentDialog
+        open={recordOpen}
+        onOpenChange={setRecordOpen}
+        prefill={recordPrefill}
+      />
+    </Dialog>
+  )
+}
@@ -0,0 +1,55 @@
+'use client'
+
+/**
+ * month-switcher.tsx - Previous / next month control for the dashboard
+ *
+ * Purpose: Pick the month shown by the category totals and opened in the timeline
+ * Responsibilities: Step one month at a time; no stepping past the current month
+ * Dependencies: date-keys
+ */
+
+import { Button } from '@/components/ui/button'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { startOfMonthOffset, toMonthKey } from '@/lib/utils/date-keys'
+
+interface MonthSwitcherProps {
+  /** First day of the selected month */
+  month: Date
+  onMonthChange: (month: Date) => void
+}
+
+export default function MonthSwitcher({ month, onMonthChange }: MonthSwitcherProps) {
+  const isCurrentMonth = toMonthKey(month) === toMonthKey(new Date())
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={() => onMonthChange(startOfMonthOffset(month, -1))}
+      >
+        <ChevronLeft className="h-4 w-4" />
+        <span className="sr-only">Previous month</span>
+      </Button>
+      <button
+        type="button"
+        onClick={() => onMonthChange(startOfMonthOffset(new Date(), 0))}
+        className="text-sm font-mono font-bold"
+        title="Back to this month"
+      >
+        {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+      </button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        disabled={isCurrentMonth}
+        onClick={() => onMonthChange(startOfMonthOffset(month, 1))}
+      >
+        <ChevronRight className="h-4 w-4" />
+        <span className="sr-only">Next month</span>
+      </Button>
+    </div>
+  )
+}
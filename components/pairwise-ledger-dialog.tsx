@@ -0,0 +1,123 @@
+'use client'
+
+/**
+ * pairwise-ledger-dialog.tsx - Every expense and settlement between you and one member
+ *
+ * Purpose: Explain a netted "You give" / "You get" amount line by line
+ * Responsibilities: Chronological ledger with each entry's effect and the running balance
+ * Dependencies: app-context, pairwise-ledger, expense-categories, settlement-methods, member-names,
+ *   money
+ */
+
+import { useMemo } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { HandCoins, Scale } from 'lucide-react'
+import { useAppContext } from '@/context/app-context'
+import { getPairwiseLedger } from '@/lib/utils/pairwise-ledger'
+import { expenseCategoryOption } from '@/lib/constants/expense-categories'
+import { settlementMethodLabel } from '@/lib/constants/settlement-methods'
+import { ZERO_MONEY, absMoney, formatRupees } from '@/lib/utils/money'
+import { memberName } from '@/lib/utils/member-names'
+import type { Money } from '@/lib/types/expense.types'
+
+interface PairwiseLedgerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** The member to show the ledger with (null = closed) */
+  otherUserId: string | null
+}
+
+const formatDate = (d: Date) =>
+  d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+/** Net from the current user's side: positive = they owe you */
+function describeNet(net: Money, name: string): string {
+  if (net > 0) return `${name} owes you ₹${formatRupees(net)}`
+  if (net < 0) return `You owe ${name} ₹${formatRupees(absMoney(net))}`
+  return `You and ${name} are settled up`
+}
+
+export default function PairwiseLedgerDialog({
+  open,
+  onOpenChange,
+  otherUserId,
+}: PairwiseLedgerDialogProps) {
+  const { user, room, expenses, settlements } = useAppContext()
+
+  const ledger = useMemo(
+    () =>
+      user && otherUserId ? getPairwiseLedger(expenses, settlements, user.id, otherUserId) : [],
+    [expenses, settlements, user, otherUserId]
+  )
+
+  if (!user || !room || !otherUserId) return null
+
+  const name = memberName(room, otherUserId)
+  const net = ledger.length > 0 ? ledger[ledger.length - 1].balance : ZERO_MONEY
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100vw-2rem)] max-w-sm mx-auto sm:w-full rounded-xl p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scale className="h-4 w-4" />
+            You &amp; {name}
+          </DialogTitle>
+        </DialogHeader>
+
+        <p
+          className={`text-sm font-semibold ${
+            net > 0 ? 'text-emerald-600' : net < 0 ? 'text-destructive' : 'text-muted-foreground'
+          }`}
+        >
+          {describeNet(net, name)}
+        </p>
+
+        <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+          {ledger.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing between you two yet</p>
+          ) : (
+            ledger.map((entry) => {
+              const isExpense = entry.kind === 'expense'
+              const Icon = isExpense ? expenseCategoryOption(entry.expense.category).icon : HandCoins
+              const title = isExpense
+                ? entry.expense.title
+                : entry.settlement.fromUserId === user.id
+                  ? `You paid ${name}`
+                  : `${name} paid you`
+              const detail = isExpense
+                ? formatDate(entry.date)
+                : `${formatDate(entry.date)} · ${settlementMethodLabel(entry.settlement.method)}`
+              return (
+                <div key={`${entry.kind}-${entry.id}`} className="rounded-lg border p-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex items-start gap-2 min-w-0">
+                      <Icon className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{title}</p>
+                        <p className="text-xs text-muted-foreground">{detail}</p>
+                      </div>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p
+                        className={`font-mono text-sm font-bold ${
+                          entry.amount > 0 ? 'text-emerald-600' : 'text-destructive'
+                        }`}
+                      >
+                        {entry.amount > 0 ? '+' : '−'}₹{formatRupees(absMoney(entry.amount))}
+                      </p>
+                      <p className="font-mono text-xs text-muted-foreground">
+                        {entry.balance > 0 ? 'owes you' : entry.balance < 0 ? 'you owe' : 'even'}
+                        {entry.balance !== 0 && ` ₹${formatRupees(absMoney(entry.balance))}`}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
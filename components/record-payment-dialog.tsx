@@ -0,0 +1,192 @@
+'use client'
+
+/**
+ * record-payment-dialog.tsx - Dialog for recording a settlement between two members
+ *
+ * Purpose: Log "I paid X" / "X paid me" without deleting any expenses
+ * Responsibilities: Direction, counterparty, amount, method, note; calls addSettlement
+ * Dependencies: app-context, settlement-methods, money, sonner
+ */
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useAppContext } from '@/context/app-context'
+import { SETTLEMENT_METHODS } from '@/lib/constants/settlement-methods'
+import { formatRupees, fromRupees } from '@/lib/utils/money'
+import type { Money, SettlementMethod } from '@/lib/types/expense.types'
+import { toast } from 'sonner'
+
+/** Prefill from a settle-up plan transfer */
+export interface RecordPaymentPrefill {
+  fromUserId: string
+  toUserId: string
+  amount: Money
+}
+
+interface RecordPaymentDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  prefill?: RecordPaymentPrefill | null
+}
+
+export default function RecordPaymentDialog({ open, onOpenChange, prefill }: RecordPaymentDialogProps) {
+  const { user, room, addSettlement } = useAppContext()
+  const [direction, setDirection] = useState<'paid' | 'received'>('paid')
+  const [otherUserId, setOtherUserId] = useState('')
+  const [amount, setAmount] = useState('')
+  const [method, setMethod] = useState<SettlementMethod>('upi')
+  const [note, setNote] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  // Reset the form each time the dialog opens (optionally from a plan transfer)
+  useEffect(() => {
+    if (!open || !user) return
+    if (prefill) {
+      const paid = prefill.fromUserId === user.id
+      setDirection(paid ? 'paid' : 'received')
+      setOtherUserId(paid ? prefill.toUserId : prefill.fromUserId)
+      setAmount(formatRupees(prefill.amount))
+    } else {
+      setDirection('paid')
+      setOtherUserId('')
+      setAmount('')
+    }
+    setMethod('upi')
+    setNote('')
+  }, [open, prefill, user])
+
+  if (!user || !room) return null
+
+  const others = room.members.filter((m) => m.id !== user.id)
+  const amountMoney = fromRupees(amount)
+  const canSave = amountMoney > 0 && otherUserId !== '' && !saving
+
+  const handleSave = async () => {
+    setSaving(true)
+    const result = await addSettlement({
+      fromUserId: direction === 'paid' ? user.id : otherUserId,
+      toUserId: direction === 'paid' ? otherUserId : user.id,
+      amount: amountMoney,
+      settledAt: new Date(),
+      method,
+      note: note.trim() || undefined,
+    })
+    setSaving(false)
+    if (!result.success) {
+      toast.error(result.error)
+      return
+    }
+    toast.success('Payment recorded')
+    onOpenChange(false)
+  }
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-2 rounded-lg border-2 text-sm font-medium transition-all ${
+      active
+        ? 'border-primary bg-primary text-primary-foreground'
+        : 'border-border bg-background text-foreground hover:bg-muted'
+    }`
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100vw-2rem)] max-w-sm mx-auto sm:w-full rounded-xl p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle>Record a payment</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setDirection('paid')}
+              className={`flex-1 ${chipClass(direction === 'paid')}`}
+            >
+              I paid
+            </button>
+            <button
+              type="button"
+              onClick={() => setDirection('received')}
+              className={`flex-1 ${chipClass(direction === 'received')}`}
+            >
+              I received
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+              {direction === 'paid' ? 'Paid to' : 'Received from'}
+            </p>
+            {others.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No other members in this room</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {others.map((member) => (
+                  <button
+                    key={member.id}
+                    type="button"
+                    onClick={() => setOtherUserId(member.id)}
+                    className={chipClass(otherUserId === member.id)}
+                  >
+                    {member.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <Input
+            type="number"
+            placeholder="0"
+            min={0}
+            step={0.01}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="text-2xl text-center font-mono font-bold"
+          />
+
+          <div className="space-y-2">
+            <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+              Method
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {SETTLEMENT_METHODS.map((m) => (
+                <button
+                  key={m.value}
+                  type="button"
+                  onClick={() => setMethod(m.value)}
+                  className={chipClass(method === m.value)}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <Input
+            type="text"
+            placeholder="Note (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter className="flex gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {saving ? 'Saving...' : 'Record payment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
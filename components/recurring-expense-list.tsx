@@ -0,0 +1,202 @@
+'use client'
+
+/**
+ * recurring-expense-list.tsx - Recurring expenses section (shown in SettingsSheet)
+ *
+ * Purpose: See what repeats in the room (rent, Wi-Fi, maid) and when it posts next
+ * Responsibilities: Load templates when shown; pause/resume; delete with confirmation
+ * Dependencies: recurring-expense.service, recurring-schedule, money, app-context, sonner
+ */
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Pause, Play, Trash2 } from 'lucide-react'
+import { useAppContext } from '@/context/app-context'
+import {
+  deleteRecurringExpense,
+  loadRecurringExpenses,
+  setRecurringExpenseActive,
+} from '@/lib/services/recurring-expense.service'
+import { describeRecurrence } from '@/lib/utils/recurring-schedule'
+import { formatRupees } from '@/lib/utils/money'
+import { isRoomAdmin } from '@/lib/utils/room-roles'
+import type { RecurringExpense } from '@/lib/types/expense.types'
+import { toast } from 'sonner'
+
+interface RecurringExpenseListProps {
+  /** Load templates only while the settings sheet is open */
+  open: boolean
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+export default function RecurringExpenseList({ open }: RecurringExpenseListProps) {
+  const { room, user } = useAppContext()
+  const [templates, setTemplates] = useState<RecurringExpense[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [toDelete, setToDelete] = useState<RecurringExpense | null>(null)
+
+  useEffect(() => {
+    if (!open || !room) return
+    let cancelled = false
+    setLoading(true)
+    loadRecurringExpenses(room.id)
+      .then((list) => {
+        if (!cancelled) setTemplates(list)
+      })
+      .catch((err) => {
+        console.error('[recurring-expense-list] loadRecurringExpenses error:', err)
+        if (!cancelled) setTemplates([])
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, room?.id])
+
+  /** Whoever set it up, the payer, or a room admin */
+  const canManage = (template: RecurringExpense) =>
+    template.createdBy === user?.id ||
+    template.paidBy.id === user?.id ||
+    isRoomAdmin(room, user?.id)
+
+  /** Ended = past its end date; nothing left to post */
+  const hasEnded = (template: RecurringExpense) =>
+    !!template.endDate && template.nextDueOn > template.endDate
+
+  const handleToggle = async (template: RecurringExpense) => {
+    setBusyId(template.id)
+    const active = !template.active
+    const ok = await setRecurringExpenseActive(template.id, active)
+    setBusyId(null)
+    if (!ok) {
+      toast.error(active ? 'Failed to resume' : 'Failed to pause')
+      return
+    }
+    setTemplates((prev) =>
+      prev.map((t) =>
+        t.id === template.id ? { ...t, active, lastError: active ? undefined : t.lastError } : t
+      )
+    )
+  }
+
+  const handleDelete = async () => {
+    if (!toDelete) return
+    const template = toDelete
+    setBusyId(template.id)
+    const ok = await deleteRecurringExpense(template.id)
+    setBusyId(null)
+    setToDelete(null)
+    if (!ok) {
+      toast.error('Failed to delete recurring expense')
+      return
+    }
+    setTemplates((prev) => prev.filter((t) => t.id !== template.id))
+  }
+
+  return (
+    <div>
+      <h3 className="font-semibold mb-1 text-sm">Recurring expenses</h3>
+      <p className="text-xs text-muted-foreground mb-3">
+        Posted automatically on their due day. Set one up with Repeat when adding an expense
+      </p>
+      {loading ? (
+        <p className="text-xs text-muted-foreground">Loading...</p>
+      ) : templates.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Nothing repeats yet</p>
+      ) : (
+        <div className="space-y-2">
+          {templates.map((template) => {
+            const ended = hasEnded(template)
+            return (
+              <div key={template.id} className="flex items-center gap-2 p-3 bg-muted rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{template.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    ₹{formatRupees(template.amount)} ·{' '}
+                    {describeRecurrence(template.frequency, template.dayOfMonth)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {ended
+                      ? `Ended ${formatDay(template.endDate!)}`
+                      : template.active
+                        ? `Next on ${formatDay(template.nextDueOn)}`
+                        : 'Paused'}
+                  </p>
+                  {template.lastError && !template.active && (
+                    <p className="text-xs text-destructive">{template.lastError}</p>
+                  )}
+                </div>
+                {canManage(template) && (
+                  <>
+                    {!ended && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        disabled={busyId === template.id}
+                        onClick={() => handleToggle(template)}
+                      >
+                        {template.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                        <span className="sr-only">
+                          {template.active ? 'Pause' : 'Resume'} {template.title}
+                        </span>
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                      disabled={busyId === template.id}
+                      onClick={() => setToDelete(template)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete {template.title}</span>
+                    </Button>
+                  </>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Delete confirmation */}
+      <Dialog open={!!toDelete} onOpenChange={(o) => !o && setToDelete(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Stop repeating?</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            {toDelete && (
+              <>
+                <strong>{toDelete.title}</strong> will no longer be posted. Expenses already posted
+                stay in the room.
+              </>
+            )}
+          </p>
+          <DialogFooter className="flex gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setToDelete(null)} disabled={busyId !== null}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={busyId !== null}>
+              {busyId !== null ? 'Deleting...' : 'Yes, delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
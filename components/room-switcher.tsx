@@ -0,0 +1,90 @@
+'use client'
+
+/**
+ * room-switcher.tsx - Switch between the rooms you belong to
+ *
+ * Purpose: Move between a flat, a trip, ... without leaving any of them
+ * Responsibilities: List the user's rooms (current one ticked); switch on tap; "Add a room"
+ *   goes back to the room screen to create or join another
+ * Dependencies: app-context
+ *
+ * RoomSwitcher is the HUD title (popover); RoomList is the same list for SettingsSheet.
+ */
+
+import { useState } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Check, ChevronsUpDown, Plus } from 'lucide-react'
+import { useAppContext } from '@/context/app-context'
+
+interface RoomListProps {
+  /** Called after a room is picked (e.g. to close the popover or sheet) */
+  onSelect?: () => void
+}
+
+/** The user's rooms; picking one makes it the current room */
+export function RoomList({ onSelect }: RoomListProps) {
+  const { room, groups, setRoom } = useAppContext()
+
+  return (
+    <div className="space-y-1">
+      {groups.map((g) => {
+        const isCurrent = g.id === room?.id
+        return (
+          <button
+            key={g.id}
+            type="button"
+            onClick={() => {
+              if (!isCurrent) setRoom(g)
+              onSelect?.()
+            }}
+            className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm transition-colors ${
+              isCurrent ? 'bg-primary/10 font-semibold' : 'hover:bg-muted'
+            }`}
+          >
+            <Check className={`h-4 w-4 shrink-0 ${isCurrent ? 'text-primary' : 'invisible'}`} />
+            <span className="flex-1 min-w-0 truncate">{g.name}</span>
+            <span className="text-xs text-muted-foreground shrink-0">
+              {g.members.length} {g.members.length === 1 ? 'member' : 'members'}
+            </span>
+          </button>
+        )
+      })}
+      <button
+        type="button"
+        onClick={() => {
+          setRoom(null)
+          onSelect?.()
+        }}
+        className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm text-muted-foreground hover:bg-muted transition-colors"
+      >
+        <Plus className="h-4 w-4 shrink-0" />
+        Create or join a room
+      </button>
+    </div>
+  )
+}
+
+/** Room name that opens the room list */
+export default function RoomSwitcher() {
+  const { room } = useAppContext()
+  const [open, setOpen] = useState(false)
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="flex items-center gap-1 min-w-0 max-w-[12rem] px-2 py-1 rounded-md hover:bg-primary/10 transition-colors"
+        >
+          <span className="text-sm font-mono font-bold text-foreground truncate">
+            {room?.name || 'Room'}
+          </span>
+          <ChevronsUpDown className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-1" align="center">
+        <RoomList onSelect={() => setOpen(false)} />
+      </PopoverContent>
+    </Popover>
+  )
+}
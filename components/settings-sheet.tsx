@@ -17,12 +17,29 @@ import {
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
-import { Copy, LogOut, Trash2, UserMinus } from 'lucide-react'
-import { useAppContext } from '@/context/app-context'
+import { Copy, Crown, LogOut, ShieldMinus, ShieldPlus, Trash2, UserMinus } from 'lucide-react'
+import { useAppContext, type MemberRoleChange } from '@/context/app-context'
 import { deleteAccount } from '@/lib/services/auth.service'
 import { removeMemberFromRoom, leaveRoom } from '@/lib/services/group.service'
+import type { RemainderPolicy } from '@/lib/types/expense.types'
+import { canRemoveMember, isRoomAdmin, isRoomOwner, memberRole } from '@/lib/utils/room-roles'
+import ExpenseTrash from '@/components/expense-trash'
+import RecurringExpenseList from '@/components/recurring-expense-list'
+import MemberExitDialog from '@/components/member-exit-dialog'
+import { RoomList } from '@/components/room-switcher'
 import { toast } from 'sonner'
 
+/** Leftover paise options, in display order */
+const REMAINDER_POLICIES: Array<{ value: RemainderPolicy; label: string; description: string }> = [
+  {
+    value: 'round_robin',
+    label: 'Take turns',
+    description: 'Whoever has covered the fewest extra paise so far',
+  },
+  { value: 'payer', label: 'Payer', description: 'The person who paid covers them' },
+  { value: 'random', label: 'Random', description: 'Picked at random (fixed per expense)' },
+]
+
 interface SettingsSheetProps {
   open: boolean
   onOpenChange: (open: boolean) => void
@@ -30,7 +47,8 @@ interface SettingsSheetProps {
 }
 
 export default function SettingsSheet({ open, onOpenChange, onLogout }: SettingsSheetProps) {
-  const { room, user, refreshGroups, setRoom } = useAppContext()
+  const { room, user, groups, refreshGroups, setRoom, saveRemainderPolicy, changeMemberRole } =
+    useAppContext()
   const [copied, setCopied] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [deleteLoading, setDeleteLoading] = useState(false)
@@ -38,8 +56,12 @@ export default function SettingsSheet({ open, onOpenChange, onLogout }: Settings
   const [leaveLoading, setLeaveLoading] = useState(false)
   const [memberToRemove, setMemberToRemove] = useState<{ id: string; name: string } | null>(null)
   const [removeLoading, setRemoveLoading] = useState(false)
+  const [policySaving, setPolicySaving] = useState(false)
+  const [newOwner, setNewOwner] = useState<{ id: string; name: string } | null>(null)
+  const [roleSaving, setRoleSaving] = useState(false)
 
-  const isAdmin = Boolean(room && user && room.createdBy === user.id)
+  const isAdmin = isRoomAdmin(room, user?.id)
+  const isOwner = isRoomOwner(room, user?.id)
 
   // Refresh room data when settings opens to get latest member names
   useEffect(() => {
@@ -87,15 +109,16 @@ export default function SettingsSheet({ open, onOpenChange, onLogout }: Settings
       toast.error('Failed to leave room')
       return
     }
-    await refreshGroups()
-    setRoom(null)
+    const list = await refreshGroups()
+    // Carry on in another room if there is one
+    setRoom(list.find((g) => g.id !== room.id) ?? null)
     toast.success('Left room.')
   }
 
-  const handleRemoveMember = async () => {
+  const handleRemoveMember = async (acknowledgeBalance: boolean) => {
     if (!room || !memberToRemove) return
     setRemoveLoading(true)
-    const ok = await removeMemberFromRoom(room.id, memberToRemove.id)
+    const ok = await removeMemberFromRoom(room.id, memberToRemove.id, acknowledgeBalance)
     setRemoveLoading(false)
     setMemberToRemove(null)
     if (!ok) {
@@ -108,6 +131,37 @@ export default function SettingsSheet({ open, onOpenChange, onLogout }: Settings
     toast.success(`${memberToRemove.name} removed from room.`)
   }
 
+  const handleRemainderPolicy = async (policy: RemainderPolicy) => {
+    if (policy === room?.remainderPolicy) return
+    setPolicySaving(true)
+    const result = await saveRemainderPolicy(policy)
+    setPolicySaving(false)
+    if (!result.success) toast.error(result.error)
+  }
+
+  const handleRoleChange = async (member: { id: string; name: string }, change: MemberRoleChange) => {
+    setRoleSaving(true)
+    const result = await changeMemberRole(member.id, change)
+    setRoleSaving(false)
+    if (change === 'transfer') setNewOwner(null)
+    if (!result.success) {
+      toast.error(result.error)
+      return
+    }
+    const isSelf = member.id === user?.id
+    toast.success(
+      change === 'transfer'
+        ? `${member.name} now owns the room.`
+        : change === 'promote'
+          ? `${member.name} is now an admin.`
+          : isSelf
+            ? 'You are no longer an admin.'
+            : `${member.name} is no longer an admin.`
+    )
+  }
+
+  const remainderPolicy = room?.remainderPolicy ?? 'round_robin'
+
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
       <SheetContent side="right" className="w-full max-w-md p-0 flex flex-col">
@@ -116,12 +170,23 @@ export default function SettingsSheet({ open, onOpenChange, onLogout }: Settings
         </SheetHeader>
 
         <div className="px-6 space-y-6 flex-1 overflow-y-auto">
-          {/* Members List (First) */}
+          {/* Rooms: switch, or go create / join another */}
+          {groups.length > 0 && (
+            <div>
+              <h3 className="font-semibold mb-2 text-sm">Your rooms</h3>
+              <RoomList onSelect={() => onOpenChange(false)} />
+            </div>
+          )}
+
+          {/* Members List */}
           <div>
             <h3 className="font-semibold mb-3 text-sm">Members</h3>
             <div className="space-y-2">
               {room?.members.map((member) => {
-                const memberIsAdmin = room?.createdBy === member.id
+                const role = memberRole(room, member.id)
+                const isSelf = member.id === user?.id
+                const canPromote = isAdmin && role === 'member'
+                const canDemote = role === 'admin' && (isOwner || isSelf)
                 return (
                 <div key={member.id} className="flex items-center gap-3 p-3 bg-muted rounded-lg">
                   <Avatar className="h-8 w-8">
@@ -132,9 +197,9 @@ export default function SettingsSheet({ open, onOpenChange, onLogout }: Settings
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium flex items-center gap-2">
                       {member.name}
-                      {memberIsAdmin && (
+                      {(role === 'owner' || role === 'admin') && (
                         <span className="text-[10px] font-semibold uppercase tracking-wide text-primary bg-primary/10 px-1.5 py-0.5 rounded">
-                          Admin
+                          {role === 'owner' ? 'Owner' : 'Admin'}
                         </span>
                       )}
                     </p>
@@ -142,7 +207,45 @@ export default function SettingsSheet({ open, onOpenChange, onLogout }: Settings
                       {member.email}
                     </p>
                   </div>
-                  {isAdmin && member.id !== user?.id && (
+                  {canPromote && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      disabled={roleSaving}
+                      onClick={() => handleRoleChange(member, 'promote')}
+                    >
+                      <ShieldPlus className="h-4 w-4" />
+                      <span className="sr-only">Make {member.name} an admin</span>
+                    </Button>
+                  )}
+                  {canDemote && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      disabled={roleSaving}
+                      onClick={() => handleRoleChange(member, 'demote')}
+                    >
+                      <ShieldMinus className="h-4 w-4" />
+                      <span className="sr-only">
+                        {isSelf ? 'Step down as admin' : `Remove ${member.name} as admin`}
+                      </span>
+                    </Button>
+                  )}
+                  {isOwner && !isSelf && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      disabled={roleSaving}
+                      onClick={() => setNewOwner({ id: member.id, name: member.name })}
+                    >
+                      <Crown className="h-4 w-4" />
+                      <span className="sr-only">Make {member.name} the owner</span>
+                    </Button>
+                  )}
+                  {canRemoveMember(room, user?.id, member.id) && (
                     <Button
                       variant="ghost"
                       size="sm"
@@ -181,8 +284,45 @@ export default function SettingsSheet({ open, onOpenChange, onLogout }: Settings
             </Card>
           </div>
 
-          {/* Member only: Remove from room */}
-          {!isAdmin && room && (
+          {/* Leftover paise in equal splits: admin picks, everyone sees */}
+          {room && (
+            <div>
+              <h3 className="font-semibold mb-1 text-sm">Leftover paise</h3>
+              <p className="text-xs text-muted-foreground mb-3">
+                When an equal split doesn&apos;t divide evenly (₹100 ÷ 3), who covers the extra
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {REMAINDER_POLICIES.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    disabled={!isAdmin || policySaving}
+                    onClick={() => handleRemainderPolicy(option.value)}
+                    className={`px-3 py-1.5 rounded-lg border-2 text-xs font-medium transition-all disabled:cursor-not-allowed ${
+                      remainderPolicy === option.value
+                        ? 'border-primary bg-primary text-primary-foreground'
+                        : 'border-border bg-background text-foreground hover:bg-muted disabled:opacity-50 disabled:hover:bg-background'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                {REMAINDER_POLICIES.find((o) => o.value === remainderPolicy)?.description}
+                {!isAdmin && ' · Only the owner or an admin can change this'}
+              </p>
+            </div>
+          )}
+
+          {/* Recurring expenses: pause, resume or stop templates */}
+          {room && <RecurringExpenseList open={open} />}
+
+          {/* Trash: restore or permanently delete removed expenses */}
+          {room && <ExpenseTrash open={open} />}
+
+          {/* Anyone but the owner: Remove from room (the owner hands the room over first) */}
+          {!isOwner && room && (
             <div>
               <Button
                 variant="ghost"
@@ -196,8 +336,14 @@ export default function SettingsSheet({ open, onOpenChange, onLogout }: Settings
             </div>
           )}
 
-          {/* Delete my account - only room creator (admin) can delete account; joined users can only leave room */}
-          {isAdmin && (
+          {isOwner && room && room.members.length > 1 && (
+            <p className="text-xs text-muted-foreground text-center">
+              To leave this room, make another member the owner first.
+            </p>
+          )}
+
+          {/* Delete my account - only the room owner can delete account; others can only leave room */}
+          {isOwner && (
             <div>
               <Button
                 variant="ghost"
@@ -212,43 +358,42 @@ export default function SettingsSheet({ open, onOpenChange, onLogout }: Settings
           )}
         </div>
 
-        {/* Leave room confirmation */}
-        <Dialog open={showLeaveConfirm} onOpenChange={setShowLeaveConfirm}>
-          <DialogContent className="w-[calc(100vw-2rem)] max-w-sm mx-auto sm:w-full rounded-xl p-4 sm:p-6">
-            <DialogHeader>
-              <DialogTitle>Leave this room?</DialogTitle>
-            </DialogHeader>
-            <p className="text-sm text-muted-foreground">
-              You will be removed from the room. You can rejoin later with the invite code.
-            </p>
-            <DialogFooter className="flex gap-2 sm:gap-0">
-              <Button variant="outline" onClick={() => setShowLeaveConfirm(false)} disabled={leaveLoading}>
-                Cancel
-              </Button>
-              <Button variant="destructive" onClick={handleLeaveRoom} disabled={leaveLoading}>
-                {leaveLoading ? 'Leaving...' : 'Yes, leave room'}
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+        {/* Leave room: settle up first */}
+        <MemberExitDialog
+          open={showLeaveConfirm}
+          onOpenChange={setShowLeaveConfirm}
+          member={user ? { id: user.id, name: user.name } : null}
+          loading={leaveLoading}
+          onConfirm={handleLeaveRoom}
+        />
+
+        {/* Remove member (owner / admin): settle up first, or acknowledge the balance */}
+        <MemberExitDialog
+          open={!!memberToRemove}
+          onOpenChange={(open) => !open && setMemberToRemove(null)}
+          member={memberToRemove}
+          loading={removeLoading}
+          onConfirm={handleRemoveMember}
+        />
 
-        {/* Remove member confirmation (admin) */}
-        <Dialog open={!!memberToRemove} onOpenChange={(open) => !open && setMemberToRemove(null)}>
-          <DialogContent className="max-w-sm">
+        {/* Hand the room over: the current owner stays on as an admin */}
+        <Dialog open={!!newOwner} onOpenChange={(open) => !open && setNewOwner(null)}>
+          <DialogContent className="w-[calc(100vw-2rem)] max-w-sm mx-auto sm:w-full rounded-xl p-4 sm:p-6">
             <DialogHeader>
-              <DialogTitle>Remove member?</DialogTitle>
+              <DialogTitle>Make {newOwner?.name} the owner?</DialogTitle>
             </DialogHeader>
             <p className="text-sm text-muted-foreground">
-              {memberToRemove && (
-                <>Remove <strong>{memberToRemove.name}</strong> from this room? They can rejoin with the invite code.</>
-              )}
+              They will manage admins and can remove anyone. You stay in the room as an admin.
             </p>
             <DialogFooter className="flex gap-2 sm:gap-0">
-              <Button variant="outline" onClick={() => setMemberToRemove(null)} disabled={removeLoading}>
+              <Button variant="outline" onClick={() => setNewOwner(null)} disabled={roleSaving}>
                 Cancel
               </Button>
-              <Button variant="destructive" onClick={handleRemoveMember} disabled={removeLoading}>
-                {removeLoading ? 'Removing...' : 'Yes, remove'}
+              <Button
+                onClick={() => newOwner && handleRoleChange(newOwner, 'transfer')}
+                disabled={roleSaving}
+              >
+                {roleSaving ? 'Transferring...' : 'Make owner'}
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -261,7 +406,8 @@ export default function SettingsSheet({ open, onOpenChange, onLogout }: Settings
               <DialogTitle>Are you sure?</DialogTitle>
             </DialogHeader>
             <p className="text-sm text-muted-foreground">
-              This will permanently delete your account and all your data. This cannot be undone.
+              This will permanently delete your account. Expenses and payments you shared stay in
+              your rooms under &quot;Deleted user&quot;. This cannot be undone.
             </p>
             <DialogFooter className="flex gap-2 sm:gap-0">
               <Button
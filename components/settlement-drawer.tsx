@@ -1,5 +1,6 @@
 'use client'
 
+import { useState } from 'react'
 import { useAppContext } from '@/context/app-context'
 import {
   Drawer,
@@ -13,34 +14,49 @@ import { Button } from '@/components/ui/button'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { Card } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { AlertCircle, ArrowDownToLine, ArrowUpFromLine } from 'lucide-react'
+import { AlertCircle, ArrowDownToLine, ArrowRight, ArrowRightLeft, ArrowUpFromLine, HandCoins } from 'lucide-react'
 import { getSettlementBreakdown } from '@/lib/utils/balance-calculator'
+import { planSettlements } from '@/lib/utils/settlement-planner'
+import { formatRupees } from '@/lib/utils/money'
+import { memberName } from '@/lib/utils/member-names'
+import RecordPaymentDialog, { type RecordPaymentPrefill } from '@/components/record-payment-dialog'
+import PairwiseLedgerDialog from '@/components/pairwise-ledger-dialog'
 
 interface SettlementDrawerProps {
   open: boolean
   onOpenChange: (open: boolean) => void
 }
 
-function getName(room: { members: { id: string; name: string }[] }, userId: string): string {
-  return room.members.find((m) => m.id === userId)?.name ?? 'Unknown'
-}
-
 export default function SettlementDrawer({
   open,
   onOpenChange,
 }: SettlementDrawerProps) {
-  const { user, room, expenses } = useAppContext()
+  const { user, room, expenses, settlements, balances } = useAppContext()
+  const [recordOpen, setRecordOpen] = useState(false)
+  const [recordPrefill, setRecordPrefill] = useState<RecordPaymentPrefill | null>(null)
+  /** Member whose ledger with the current user is open */
+  const [ledgerUserId, setLedgerUserId] = useState<string | null>(null)
 
   if (!user || !room) return null
 
   const { totalPaid, getBack, youGive, youGet } = getSettlementBreakdown(
     expenses,
-    user.id
+    user.id,
+    settlements
   )
 
+  const openRecord = (prefill: RecordPaymentPrefill | null) => {
+    setRecordPrefill(prefill)
+    setRecordOpen(true)
+  }
+
   const hasGive = youGive.length > 0
   const hasGet = youGet.length > 0
 
+  /** Minimal transfers that settle the whole room (not just the current user) */
+  const plan = planSettlements(balances)
+  const hasPlan = plan.length > 0
+
   return (
     <Drawer open={open} onOpenChange={onOpenChange}>
       <DrawerContent className="max-w-md mx-auto max-h-[90vh] flex flex-col">
@@ -53,19 +69,19 @@ export default function SettlementDrawer({
           <div className="space-y-3">
             <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
               <span className="text-sm text-muted-foreground">Total spend</span>
-              <span className="font-mono font-bold">₹{totalPaid.toFixed(2)}</span>
+              <span className="font-mono font-bold">₹{formatRupees(totalPaid)}</span>
             </div>
             <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
               <span className="text-sm text-muted-foreground">Total you get</span>
               <span className="font-mono font-bold text-emerald-600">
-                ₹{getBack.toFixed(2)}
+                ₹{formatRupees(getBack)}
               </span>
             </div>
           </div>
 
           {/* Two tabs */}
           <Tabs defaultValue="give" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="give" className="gap-1.5">
                 <ArrowUpFromLine className="h-3.5 w-3.5" />
                 You give
@@ -80,6 +96,10 @@ export default function SettlementDrawer({
                   <span className="text-xs opacity-80">({youGet.length})</span>
                 )}
               </TabsTrigger>
+              <TabsTrigger value="plan" className="gap-1.5">
+                <ArrowRightLeft className="h-3.5 w-3.5" />
+                Settle up plan
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="give" className="mt-3 space-y-2">
@@ -94,21 +114,23 @@ export default function SettlementDrawer({
                 youGive.map(({ userId, amount }) => (
                   <Card
                     key={userId}
-                    className="p-3 border-2 border-destructive/20 bg-destructive/5"
+                    role="button"
+                    onClick={() => setLedgerUserId(userId)}
+                    className="p-3 border-2 border-destructive/20 bg-destructive/5 cursor-pointer hover:bg-destructive/10 transition-colors"
                   >
                     <div className="flex items-center justify-between gap-3">
                       <div className="flex items-center gap-2 min-w-0">
                         <Avatar className="h-8 w-8 shrink-0">
                           <AvatarFallback className="text-xs">
-                            {getName(room, userId)[0].toUpperCase()}
+                            {memberName(room, userId)[0].toUpperCase()}
                           </AvatarFallback>
                         </Avatar>
                         <span className="text-sm font-medium truncate">
-                          {getName(room, userId)}
+                          {memberName(room, userId)}
                         </span>
                       </div>
                       <span className="font-mono font-bold text-destructive shrink-0">
-                        ₹{amount.toFixed(2)}
+                        ₹{formatRupees(amount)}
                       </span>
                     </div>
                   </Card>
@@ -128,31 +150,92 @@ export default function SettlementDrawer({
                 youGet.map(({ userId, amount }) => (
                   <Card
                     key={userId}
-                    className="p-3 border-2 border-emerald-500/20 bg-emerald-500/5"
+                    role="button"
+                    onClick={() => setLedgerUserId(userId)}
+                    className="p-3 border-2 border-emerald-500/20 bg-emerald-500/5 cursor-pointer hover:bg-emerald-500/10 transition-colors"
                   >
                     <div className="flex items-center justify-between gap-3">
                       <div className="flex items-center gap-2 min-w-0">
                         <Avatar className="h-8 w-8 shrink-0">
                           <AvatarFallback className="text-xs">
-                            {getName(room, userId)[0].toUpperCase()}
+                            {memberName(room, userId)[0].toUpperCase()}
                           </AvatarFallback>
                         </Avatar>
                         <span className="text-sm font-medium truncate">
-                          {getName(room, userId)}
+                          {memberName(room, userId)}
                         </span>
                       </div>
                       <span className="font-mono font-bold text-emerald-600 shrink-0">
-                        ₹{amount.toFixed(2)}
+                        ₹{formatRupees(amount)}
                       </span>
                     </div>
                   </Card>
                 ))
               )}
             </TabsContent>
+
+            <TabsContent value="plan" className="mt-3 space-y-2">
+              {!hasPlan ? (
+                <div className="flex flex-col items-center justify-center py-6 text-center">
+                  <AlertCircle className="h-8 w-8 text-muted-foreground mb-2" />
+                  <p className="text-sm text-muted-foreground">
+                    Everyone is settled up
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    {plan.length} {plan.length === 1 ? 'transfer settles' : 'transfers settle'} the whole room
+                  </p>
+                  {plan.map(({ fromUserId, toUserId, amount }) => {
+                    const involvesYou = fromUserId === user.id || toUserId === user.id
+                    return (
+                      <Card
+                        key={`${fromUserId}-${toUserId}`}
+                        className={`p-3 border-2 ${
+                          involvesYou ? 'border-primary/30 bg-primary/5' : ''
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="flex items-center gap-2 min-w-0 text-sm">
+                            <span className="font-medium truncate">
+                              {fromUserId === user.id ? 'You' : memberName(room, fromUserId)}
+                            </span>
+                            <ArrowRight className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                            <span className="font-medium truncate">
+                              {toUserId === user.id ? 'You' : memberName(room, toUserId)}
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0">
+                            <span className="font-mono font-bold">
+                              ₹{formatRupees(amount)}
+                            </span>
+                            {involvesYou && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-7 px-2 text-xs"
+                                onClick={() => openRecord({ fromUserId, toUserId, amount })}
+                              >
+                                Record
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      </Card>
+                    )
+                  })}
+                </>
+              )}
+            </TabsContent>
           </Tabs>
         </div>
 
-        <DrawerFooter className="flex-shrink-0 border-t pt-4">
+        <DrawerFooter className="flex-shrink-0 space-y-2 border-t pt-4">
+          <Button onClick={() => openRecord(null)} className="w-full">
+            <HandCoins className="h-4 w-4 mr-2" />
+            Record a payment
+          </Button>
           <DrawerClose asChild>
             <Button variant="outline" className="w-full bg-transparent">
               Close
@@ -160,6 +243,20 @@ export default function SettlementDrawer({
           </DrawerClose>
         </DrawerFooter>
       </DrawerContent>
+
+      <RecordPaymentDialog
+        open={recordOpen}
+        onOpenChange={setRecordOpen}
+        prefill={recordPrefill}
+      />
+
+      <PairwiseLedgerDialog
+        open={ledgerUserId !== null}
+        onOpenChange={(nextOpen) => {
+          if (!nextOpen) setLedgerUserId(null)
+        }}
+        otherUserId={ledgerUserId}
+      />
     </Drawer>
   )
 }
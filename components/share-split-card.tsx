@@ -0,0 +1,181 @@
+'use client'
+
+/**
+ * share-split-card.tsx - Weights editor for shares splits (e.g. rent by room size)
+ *
+ * Purpose: Enter per-member weights, apply saved room presets, save current weights as a preset
+ * Responsibilities: Preset load/apply/save via share-preset.service; shows computed paisa-exact shares
+ * Dependencies: share-preset.service, money, sonner
+ */
+
+import { useState, useEffect } from 'react'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Scale, Trash2 } from 'lucide-react'
+import { loadSharePresets, saveSharePreset, deleteSharePreset } from '@/lib/services/share-preset.service'
+import { ZERO_MONEY, formatRupees } from '@/lib/utils/money'
+import type { SharePreset, Split, User } from '@/lib/types/expense.types'
+import { toast } from 'sonner'
+
+interface ShareSplitCardProps {
+  roomId: string
+  members: User[]
+  currentUserId?: string
+  /** userId -> weight input string */
+  weights: Record<string, string>
+  onWeightsChange: (weights: Record<string, string>) => void
+  /** Splits computed from the current weights */
+  splits: Split[]
+}
+
+export default function ShareSplitCard({
+  roomId,
+  members,
+  currentUserId,
+  weights,
+  onWeightsChange,
+  splits,
+}: ShareSplitCardProps) {
+  const [presets, setPresets] = useState<SharePreset[]>([])
+  const [presetName, setPresetName] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    loadSharePresets(roomId)
+      .then((list) => {
+        if (!cancelled) setPresets(list)
+      })
+      .catch((err) => console.error('[share-split-card] loadSharePresets error:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [roomId])
+
+  const applyPreset = (preset: SharePreset) => {
+    const next: Record<string, string> = {}
+    members.forEach((m) => {
+      next[m.id] = String(preset.weights[m.id] ?? 0)
+    })
+    onWeightsChange(next)
+    setPresetName(preset.name)
+  }
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim()
+    if (!name) {
+      toast.error('Give the preset a name')
+      return
+    }
+    const numeric: Record<string, number> = {}
+    members.forEach((m) => {
+      const w = parseFloat(weights[m.id] || '0') || 0
+      if (w > 0) numeric[m.id] = w
+    })
+    if (Object.keys(numeric).length === 0) {
+      toast.error('Set at least one weight before saving')
+      return
+    }
+    setSaving(true)
+    try {
+      const saved = await saveSharePreset(roomId, name, numeric)
+      setPresets((prev) =>
+        [...prev.filter((p) => p.id !== saved.id && p.name !== saved.name), saved].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      )
+      toast.success(`Saved "${saved.name}" for this room`)
+    } catch (err) {
+      console.error('[share-split-card] saveSharePreset error:', err)
+      toast.error('Failed to save preset')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeletePreset = async (preset: SharePreset) => {
+    const ok = await deleteSharePreset(preset.id)
+    if (!ok) {
+      toast.error('Failed to delete preset')
+      return
+    }
+    setPresets((prev) => prev.filter((p) => p.id !== preset.id))
+  }
+
+  const shareFor = (userId: string) =>
+    splits.find((s) => s.userId === userId)?.amount ?? ZERO_MONEY
+
+  return (
+    <Card className="mt-3 p-4 border-2">
+      <div className="flex items-center gap-2 mb-3">
+        <Scale className="h-4 w-4 text-muted-foreground shrink-0" />
+        <h4 className="text-sm font-semibold">Split by shares</h4>
+      </div>
+
+      {presets.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {presets.map((preset) => (
+            <div key={preset.id} className="flex items-center rounded-full border bg-muted/50">
+              <button
+                type="button"
+                onClick={() => applyPreset(preset)}
+                className="pl-3 pr-1 py-1 text-xs font-medium"
+              >
+                {preset.name}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDeletePreset(preset)}
+                className="pr-2 pl-1 py-1 text-muted-foreground hover:text-destructive"
+              >
+                <Trash2 className="h-3 w-3" />
+                <span className="sr-only">Delete {preset.name}</span>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {members.map((member) => (
+          <div key={member.id} className="flex items-center gap-2">
+            <span className="text-sm flex-1 truncate">
+              {member.id === currentUserId ? `You (${member.name})` : member.name}
+            </span>
+            <span className="w-20 text-right font-mono text-xs text-muted-foreground shrink-0">
+              ₹{formatRupees(shareFor(member.id))}
+            </span>
+            <Input
+              type="number"
+              placeholder="0"
+              min={0}
+              step={0.5}
+              value={weights[member.id] ?? ''}
+              onChange={(e) => onWeightsChange({ ...weights, [member.id]: e.target.value })}
+              className="w-20 text-right font-mono shrink-0"
+            />
+          </div>
+        ))}
+        <div className="flex items-center gap-2 pt-2 border-t">
+          <Input
+            type="text"
+            placeholder="Preset name, e.g. Rent"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            className="h-8 text-xs"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSavePreset}
+            disabled={saving}
+            className="h-8 text-xs shrink-0"
+          >
+            {saving ? 'Saving...' : 'Save preset'}
+          </Button>
+        </div>
+      </div>
+    </Card>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useAppContext } from '@/context/app-context'
 import {
   Popover,
@@ -9,24 +9,71 @@ import {
 } from '@/components/ui/popover'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { Button } from '@/components/ui/button'
-import { Trash2 } from 'lucide-react'
+import { ChevronDown, ChevronRight, HandCoins, History, Pencil, Repeat, Trash2 } from 'lucide-react'
+import AddExpenseDrawer from '@/components/add-expense-drawer'
+import ExpenseHistoryDialog from '@/components/expense-history-dialog'
+import { settlementMethodLabel } from '@/lib/constants/settlement-methods'
+import { expenseCategoryOption } from '@/lib/constants/expense-categories'
+import { toDateKey, toMonthKey } from '@/lib/utils/date-keys'
+import { getActiveMonthKeys, getMonthSummary } from '@/lib/utils/month-summary'
+import { absMoney, formatRupees } from '@/lib/utils/money'
+import { memberName } from '@/lib/utils/member-names'
+import { isRoomAdmin } from '@/lib/utils/room-roles'
+import type { Expense, Money, Settlement } from '@/lib/types/expense.types'
 
 interface SnakeNode {
   id: string
+  kind: 'expense' | 'settlement'
   title: string
-  amount: number
+  amount: Money
+  /** Day shown on the node (expense date for expenses) */
   date: Date
+  /** When the record was created; orders nodes within the same day */
+  loggedAt: Date
   time: string
   description: string
   paidBy: { id: string; name: string }
   userColor: string
+  /** Expense nodes only: the record behind the node */
+  expense?: Expense
+  /** Settlement nodes only: the record behind the node */
+  settlement?: Settlement
 }
 
-export default function SnakeTimeline() {
-  const { expenses, room, user, removeExpense } = useAppContext()
+interface SnakeTimelineProps {
+  /** Month picked in the month switcher ('YYYY-MM'); its section is expanded and scrolled to */
+  selectedMonthKey: string
+}
+
+export default function SnakeTimeline({ selectedMonthKey }: SnakeTimelineProps) {
+  const { expenses, settlements, room, user, removeExpense } = useAppContext()
   const [openNodeId, setOpenNodeId] = useState<string | null>(null)
+  /** Month sections currently open (others show only their header) */
+  const [expandedMonths, setExpandedMonths] = useState<string[]>([selectedMonthKey])
+  /** Expense open in the edit drawer / history dialog (ids, so they follow state updates) */
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [historyId, setHistoryId] = useState<string | null>(null)
 
-  if (expenses.length === 0) {
+  // Switching month opens that section and brings it into view (not on first render)
+  const switchedMonth = useRef(false)
+  useEffect(() => {
+    setExpandedMonths((prev) => (prev.includes(selectedMonthKey) ? prev : [...prev, selectedMonthKey]))
+    if (!switchedMonth.current) {
+      switchedMonth.current = true
+      return
+    }
+    document
+      .getElementById(`month-${selectedMonthKey}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+  }, [selectedMonthKey])
+
+  const toggleMonth = (monthKey: string) => {
+    setExpandedMonths((prev) =>
+      prev.includes(monthKey) ? prev.filter((k) => k !== monthKey) : [...prev, monthKey]
+    )
+  }
+
+  if (expenses.length === 0 && settlements.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-24 text-center">
         <div className="text-6xl mb-4">🐍</div>
@@ -48,127 +95,441 @@ export default function SnakeTimeline() {
     }
   })
 
-  // Sort by date (newest first for snake to flow down)
-  const sortedExpenses = [...expenses].sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  )
+  const getName = (userId: string) =>
+    userId === user?.id ? 'You' : memberName(room, userId)
+
+  const formatTime = (d: Date) =>
+    d.toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+    })
 
-  const nodes: SnakeNode[] = sortedExpenses.map((expense) => {
-    const expenseDate = new Date(expense.createdAt)
+  const expenseNodes: SnakeNode[] = expenses.map((expense) => {
+    const loggedAt = new Date(expense.createdAt)
     return {
       id: expense.id,
+      kind: 'expense',
       title: expense.title,
       amount: expense.amount,
-      date: expenseDate,
-      time: expenseDate.toLocaleTimeString('en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-      }),
+      date: new Date(expense.expenseDate),
+      loggedAt,
+      time: formatTime(loggedAt),
       description: expense.title,
       paidBy: expense.paidBy,
       userColor: userColorMap[expense.paidBy.id] || 'bg-slate-400',
+      expense,
     }
   })
 
-  return (
-    <div className="relative w-full py-6 space-y-1">
-      {/* Connected Snake Body */}
-      {nodes.map((node, index) => {
-        const bgColor = node.userColor
-        const dateStr = node.date.toLocaleDateString('en-US', {
-          month: '2-digit',
-          day: '2-digit',
-        })
+  // Settlements sit in the same snake with their own style so repayments stay visible
+  const settlementNodes: SnakeNode[] = settlements.map((settlement) => {
+    const settledDate = new Date(settlement.settledAt)
+    const fromName = getName(settlement.fromUserId)
+    return {
+      id: settlement.id,
+      kind: 'settlement',
+      title: 'Settlement',
+      amount: settlement.amount,
+      date: settledDate,
+      loggedAt: settledDate,
+      time: formatTime(settledDate),
+      description: `Paid ${getName(settlement.toUserId)} · ${settlementMethodLabel(settlement.method)}`,
+      paidBy: { id: settlement.fromUserId, name: fromName },
+      userColor: 'bg-sky-500',
+      settlement,
+    }
+  })
 
-        return (
-          <Popover
-            key={node.id}
-            open={openNodeId === node.id}
-            onOpenChange={(open) => setOpenNodeId(open ? node.id : null)}
+  // Sort by day (newest first for snake to flow down); same day falls back to log time,
+  // so a backdated expense lands on its own day rather than at the top
+  const nodes = [...expenseNodes, ...settlementNodes].sort(
+    (a, b) =>
+      toDateKey(b.date).localeCompare(toDateKey(a.date)) ||
+      b.loggedAt.getTime() - a.loggedAt.getTime()
+  )
+
+  // Month sections, newest first; the selected month always has a section (even if empty)
+  const memberIds = room?.members.map((m) => m.id) ?? []
+  const monthKeys = getActiveMonthKeys(expenses, settlements)
+  if (!monthKeys.includes(selectedMonthKey)) {
+    monthKeys.push(selectedMonthKey)
+    monthKeys.sort((a, b) => b.localeCompare(a))
+  }
+
+  /** One snake node (expense or settlement) with its details popover */
+  const renderNode = (node: SnakeNode) => {
+    const bgColor = node.userColor
+    const dateStr = node.date.toLocaleDateString('en-US', {
+      month: '2-digit',
+      day: '2-digit',
+    })
+    const category = node.expense ? expenseCategoryOption(node.expense.category) : null
+    const CategoryIcon = category?.icon
+
+    return (
+      <Popover
+        key={node.id}
+        open={openNodeId === node.id}
+        onOpenChange={(open) => setOpenNodeId(open ? node.id : null)}
+      >
+        <PopoverTrigger asChild>
+          <button
+            className={`w-full px-4 py-4 ${bgColor} text-white rounded-2xl border-4 ${
+              node.kind === 'settlement' ? 'border-dashed border-sky-200' : 'border-white'
+            } shadow-sm hover:shadow-md transition-all active:scale-95 flex items-center justify-between gap-4 animate-in fade-in slide-in-from-top duration-300`}
           >
-            <PopoverTrigger asChild>
-              <button
-                className={`w-full px-4 py-4 ${bgColor} text-white rounded-2xl border-4 border-white shadow-sm hover:shadow-md transition-all active:scale-95 flex items-center justify-between gap-4 animate-in fade-in slide-in-from-top duration-300`}
-              >
-                {/* Left: Avatar + Name */}
-                <div className="flex items-center gap-3 flex-1 min-w-0">
-                  <Avatar className="h-10 w-10 border-2 border-white/50 flex-shrink-0">
-                    <AvatarFallback className="text-xs font-bold bg-white/20">
-                      {node.paidBy.name[0].toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="text-left min-w-0">
-                    <p className="text-xs font-semibold line-clamp-1">
-                      {node.paidBy.name}
-                    </p>
-                    <p className="text-xs opacity-80 line-clamp-1">{node.description}</p>
-                  </div>
-                </div>
+            {/* Left: Avatar + Name */}
+            <div className="flex items-center gap-3 flex-1 min-w-0">
+              <Avatar className="h-10 w-10 border-2 border-white/50 flex-shrink-0">
+                <AvatarFallback className="text-xs font-bold bg-white/20">
+                  {node.kind === 'settlement' ? (
+                    <HandCoins className="h-4 w-4" />
+                  ) : (
+                    node.paidBy.name[0].toUpperCase()
+                  )}
+                </AvatarFallback>
+              </Avatar>
+              <div className="text-left min-w-0">
+                <p className="text-xs font-semibold line-clamp-1">
+                  {node.paidBy.name}
+                  {node.expense?.payers && node.expense.payers.length > 1 && (
+                    <span className="opacity-80"> +{node.expense.payers.length - 1}</span>
+                  )}
+                </p>
+                <p className="text-xs opacity-80 flex items-center gap-1 min-w-0">
+                  {CategoryIcon && <CategoryIcon className="h-3 w-3 shrink-0" />}
+                  <span className="truncate">{node.description}</span>
+                </p>
+              </div>
+            </div>
 
-                {/* Right: Price, Date, Time */}
-                <div className="flex flex-col items-end gap-1 flex-shrink-0">
-                  <p className="text-xl font-bold font-mono">₹{node.amount.toFixed(0)}</p>
-                  <div className="text-xs opacity-80 space-y-0">
-                    <p className="font-mono">{dateStr}</p>
-                    <p className="font-mono">{node.time}</p>
-                  </div>
-                </div>
-              </button>
-            </PopoverTrigger>
+            {/* Right: Price, Date, Time */}
+            <div className="flex flex-col items-end gap-1 flex-shrink-0">
+              <p className="text-xl font-bold font-mono">₹{formatRupees(node.amount, 0)}</p>
+              <div className="text-xs opacity-80 space-y-0">
+                <p className="font-mono">{dateStr}</p>
+                <p className="font-mono">{node.time}</p>
+              </div>
+            </div>
+          </button>
+        </PopoverTrigger>
 
-            <PopoverContent
-              className="w-[calc(100vw-2rem)] max-w-md sm:w-80 rounded-2xl p-5"
-              align="center"
-              sideOffset={8}
-            >
-              <div className="space-y-4">
+        <PopoverContent
+          className="w-[calc(100vw-2rem)] max-w-md sm:w-80 rounded-2xl p-5"
+          align="center"
+          sideOffset={8}
+        >
+          {node.kind === 'settlement' && node.settlement ? (
+            <div className="space-y-4">
+              <div>
+                <p className="text-xs font-mono text-muted-foreground uppercase tracking-wide">
+                  Settlement Details
+                </p>
+                <p className="text-lg font-bold mt-1 break-words">
+                  {getName(node.settlement.fromUserId)} paid {getName(node.settlement.toUserId)}
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <p className="text-xs font-mono text-muted-foreground uppercase tracking-wide">
-                    Expense Details
+                  <p className="text-xs text-muted-foreground">Amount</p>
+                  <p className="font-mono font-bold text-sky-600">
+                    ₹{formatRupees(node.amount)}
                   </p>
-                  <p className="text-lg font-bold mt-1 break-words">{node.description}</p>
                 </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <p className="text-xs text-muted-foreground">Amount</p>
-                    <p className="font-mono font-bold text-primary">
-                      ₹{node.amount.toFixed(2)}
-                    </p>
-                  </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Date</p>
+                  <p className="font-mono font-semibold">
+                    {node.date.toLocaleDateString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric',
+                    })}
+                  </p>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-xs text-muted-foreground">Method</p>
+                  <p className="font-medium">{settlementMethodLabel(node.settlement.method)}</p>
+                </div>
+                {node.settlement.createdBy && (
                   <div>
-                    <p className="text-xs text-muted-foreground">Date</p>
-                    <p className="font-mono font-semibold">
-                      {node.date.toLocaleDateString('en-US', {
-                        month: 'short',
-                        day: 'numeric',
-                        year: 'numeric',
-                      })}
-                    </p>
+                    <p className="text-xs text-muted-foreground">Recorded By</p>
+                    <p className="font-medium break-words">{getName(node.settlement.createdBy)}</p>
                   </div>
+                )}
+              </div>
+              {node.settlement.note && (
+                <div>
+                  <p className="text-xs text-muted-foreground">Note</p>
+                  <p className="text-sm break-words">{node.settlement.note}</p>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <p className="text-xs font-mono text-muted-foreground uppercase tracking-wide">
+                  Expense Details
+                </p>
+                <p className="text-lg font-bold mt-1 break-words">{node.description}</p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-xs text-muted-foreground">Amount</p>
+                  <p className="font-mono font-bold text-primary">
+                    ₹{formatRupees(node.amount)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Date</p>
+                  <p className="font-mono font-semibold">
+                    {node.date.toLocaleDateString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric',
+                    })}
+                  </p>
                 </div>
+              </div>
+              {category && CategoryIcon && (
                 <div>
-                  <p className="text-xs text-muted-foreground">Paid By</p>
+                  <p className="text-xs text-muted-foreground">Category</p>
+                  <p className="font-medium flex items-center gap-1.5">
+                    <CategoryIcon className="h-4 w-4 text-muted-foreground" />
+                    {category.label}
+                    {node.expense?.recurringExpenseId && (
+                      <span className="ml-1 inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-[10px] font-medium text-muted-foreground">
+                        <Repeat className="h-3 w-3" />
+                        Repeats
+                      </span>
+                    )}
+                  </p>
+                </div>
+              )}
+              <div>
+                <p className="text-xs text-muted-foreground">Paid By</p>
+                {node.expense?.payers && node.expense.payers.length > 1 ? (
+                  <div className="space-y-0.5">
+                    {node.expense.payers.map((payer) => (
+                      <div key={payer.userId} className="flex items-center justify-between gap-2">
+                        <span className="font-medium truncate">{getName(payer.userId)}</span>
+                        <span className="font-mono text-sm shrink-0">₹{formatRupees(payer.amount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
                   <p className="font-medium break-words">{node.paidBy.name}</p>
+                )}
+              </div>
+              {node.expense?.enteredBy && node.expense.enteredBy !== node.paidBy.id && (
+                <div>
+                  <p className="text-xs text-muted-foreground">Entered By</p>
+                  <p className="font-medium break-words">{getName(node.expense.enteredBy)}</p>
+                </div>
+              )}
+              {node.expense && !node.expense.items?.length && node.expense.splits.length > 0 && (
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">
+                    Split between {node.expense.splits.length}
+                  </p>
+                  <div className="space-y-0.5 max-h-40 overflow-y-auto">
+                    {node.expense.splits.map((split) => (
+                      <div key={split.userId} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">
+                          {getName(split.userId)}
+                          {split.percentage !== undefined && (
+                            <span className="text-xs text-muted-foreground"> · {split.percentage}%</span>
+                          )}
+                          {split.shares !== undefined && (
+                            <span className="text-xs text-muted-foreground"> · {split.shares} shares</span>
+                          )}
+                        </span>
+                        <span className="font-mono shrink-0">₹{formatRupees(split.amount)}</span>
+                      </div>
+                    ))}
+                  </div>
                 </div>
-                {user?.id === node.paidBy.id && (
+              )}
+              {node.expense?.items && node.expense.items.length > 0 && (
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Items</p>
+                  <div className="space-y-1.5 max-h-48 overflow-y-auto">
+                    {node.expense.items.map((item, idx) => (
+                      <div key={idx} className="text-sm">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="truncate">{item.name || 'Item'}</span>
+                          <span className="font-mono shrink-0">₹{formatRupees(item.amount)}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {item.participantIds.map(getName).join(', ')}
+                        </p>
+                      </div>
+                    ))}
+                    {node.expense.charges &&
+                      (
+                        [
+                          ['Tax', node.expense.charges.tax],
+                          ['Service charge', node.expense.charges.serviceCharge],
+                          ['Tip', node.expense.charges.tip],
+                        ] as const
+                      )
+                        .filter(([, value]) => value > 0)
+                        .map(([label, value]) => (
+                          <div
+                            key={label}
+                            className="flex items-center justify-between gap-2 text-xs text-muted-foreground"
+                          >
+                            <span>{label}</span>
+                            <span className="font-mono">₹{formatRupees(value)}</span>
+                          </div>
+                        ))}
+                  </div>
+                  <div className="mt-2 pt-2 border-t space-y-0.5">
+                    {node.expense.splits.map((split) => (
+                      <div key={split.userId} className="flex items-center justify-between text-xs">
+                        <span className="truncate">{getName(split.userId)}</span>
+                        <span className="font-mono">₹{formatRupees(split.amount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {node.expense?.updatedAt && (
+                <p className="text-xs text-muted-foreground">
+                  Edited{' '}
+                  {node.expense.updatedAt.toLocaleDateString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                  })}
+                </p>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                {/* Editing is for the payer or a room admin */}
+                {(user?.id === node.paidBy.id || isRoomAdmin(room, user?.id)) && (
                   <Button
-                    variant="destructive"
+                    variant="outline"
                     size="sm"
                     onClick={() => {
-                      removeExpense(node.id)
+                      setEditingId(node.id)
                       setOpenNodeId(null)
                     }}
-                    className="w-full mt-2"
                   >
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    Delete Expense
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
                   </Button>
                 )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setHistoryId(node.id)
+                    setOpenNodeId(null)
+                  }}
+                >
+                  <History className="h-4 w-4 mr-2" />
+                  History
+                </Button>
               </div>
-            </PopoverContent>
-          </Popover>
+              {(user?.id === node.paidBy.id || user?.id === node.expense?.enteredBy) && (
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => {
+                    removeExpense(node.id)
+                    setOpenNodeId(null)
+                  }}
+                  className="w-full mt-2"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Expense
+                </Button>
+              )}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    )
+  }
+
+  return (
+    <div className="relative w-full py-6 space-y-3">
+      {monthKeys.map((monthKey) => {
+        const summary = getMonthSummary(monthKey, expenses, settlements, memberIds)
+        const monthNodes = nodes.filter((node) => toMonthKey(node.date) === monthKey)
+        const expanded = expandedMonths.includes(monthKey)
+        return (
+          <section key={monthKey} id={`month-${monthKey}`} className="scroll-mt-32 space-y-1">
+            <button
+              type="button"
+              onClick={() => toggleMonth(monthKey)}
+              className="w-full flex items-center justify-between gap-3 px-1 py-2 text-left"
+            >
+              <span className="flex items-center gap-1.5 min-w-0">
+                {expanded ? (
+                  <ChevronDown className="h-4 w-4 text-muted-foreground shrink-0" />
+                ) : (
+                  <ChevronRight className="h-4 w-4 text-muted-foreground shrink-0" />
+                )}
+                <span className="text-sm font-mono font-bold truncate">
+                  {summary.month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+                </span>
+              </span>
+              <span className="text-sm font-mono font-semibold shrink-0">
+                ₹{formatRupees(summary.total)}
+              </span>
+            </button>
+
+            {expanded && (
+              <>
+                {summary.expenseCount > 0 && (
+                  <div className="rounded-xl border bg-muted/40 px-3 py-2 mb-2 space-y-1">
+                    <div className="grid grid-cols-4 gap-2 text-[10px] uppercase tracking-wide text-muted-foreground">
+                      <span>Member</span>
+                      <span className="text-right">Paid</span>
+                      <span className="text-right">Owed</span>
+                      <span className="text-right">Net</span>
+                    </div>
+                    {summary.members.map((m) => (
+                      <div key={m.userId} className="grid grid-cols-4 gap-2 text-xs font-mono">
+                        <span className="truncate font-sans">{getName(m.userId)}</span>
+                        <span className="text-right">₹{formatRupees(m.paid, 0)}</span>
+                        <span className="text-right">₹{formatRupees(m.owed, 0)}</span>
+                        <span
+                          className={`text-right font-semibold ${
+                            m.net > 0
+                              ? 'text-emerald-600'
+                              : m.net < 0
+                                ? 'text-destructive'
+                                : 'text-muted-foreground'
+                          }`}
+                        >
+                          {m.net > 0 ? '+' : m.net < 0 ? '−' : ''}₹{formatRupees(absMoney(m.net), 0)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {monthNodes.length === 0 ? (
+                  <p className="text-xs text-muted-foreground px-1 py-2">Nothing this month</p>
+                ) : (
+                  monthNodes.map(renderNode)
+                )}
+              </>
+            )}
+          </section>
         )
       })}
+      <AddExpenseDrawer
+        open={editingId !== null}
+        onOpenChange={(open) => !open && setEditingId(null)}
+        expense={expenses.find((e) => e.id === editingId) ?? null}
+      />
+      <ExpenseHistoryDialog
+        open={historyId !== null}
+        onOpenChange={(open) => !open && setHistoryId(null)}
+        expense={expenses.find((e) => e.id === historyId) ?? null}
+      />
     </div>
   )
 }
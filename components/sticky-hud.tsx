@@ -1,30 +1,34 @@
 'use client'
 
 import { useAppContext } from '@/context/app-context'
-import { ChevronDown } from 'lucide-react'
+import { ChevronDown, LineChart } from 'lucide-react'
 import { Menu } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import RoomSwitcher from '@/components/room-switcher'
+import { ZERO_MONEY, absMoney, formatRupees } from '@/lib/utils/money'
 
 interface StickyHUDProps {
   onMenuClick: () => void
   onStatsClick: () => void
+  /** Opens balance stats (as-of balances and history chart) */
+  onHistoryClick: () => void
 }
 
-export default function StickyHUD({ onMenuClick, onStatsClick }: StickyHUDProps) {
-  const { user, balances, room } = useAppContext()
-  const userBalance = user ? balances[user.id] || 0 : 0
+export default function StickyHUD({ onMenuClick, onStatsClick, onHistoryClick }: StickyHUDProps) {
+  const { user, balances } = useAppContext()
+  const userBalance = user ? balances[user.id] ?? ZERO_MONEY : ZERO_MONEY
   const isDebt = userBalance < 0
-  const absBalance = Math.abs(userBalance)
+  const absBalance = absMoney(userBalance)
 
   return (
     <div className="fixed top-0 left-0 right-0 z-40 w-full max-w-md mx-auto">
       {/* Main HUD Container */}
       <div className="relative backdrop-blur-xl bg-background/60 border-b border-black/5">
-        {/* Top Row: Room Name & Menu */}
+        {/* Top Row: Room switcher & Menu */}
         <div className="flex items-center justify-between px-6 py-3 relative">
           <div className="flex-1" />
-          <h1 className="text-sm font-mono font-bold text-center text-foreground">
-            {room?.name || 'Room'}
+          <h1>
+            <RoomSwitcher />
           </h1>
           <div className="flex-1 flex justify-end">
             <Button
@@ -38,27 +42,38 @@ export default function StickyHUD({ onMenuClick, onStatsClick }: StickyHUDProps)
           </div>
         </div>
 
-        {/* Bottom Row: Stats Bar (Clickable) */}
-        <button
-          onClick={onStatsClick}
-          className="w-full px-6 py-3 flex items-center justify-between hover:bg-primary/5 transition-colors active:bg-primary/10"
-        >
-          <div className="text-left">
-            <p className="text-xs font-mono text-muted-foreground uppercase tracking-wide">
-              {isDebt ? 'You owe' : 'You get back'}
-            </p>
-          </div>
-          <div className="flex items-center gap-2">
-            <p
-              className={`text-lg font-mono font-bold ${
-                isDebt ? 'text-destructive' : 'text-emerald-600'
-              }`}
-            >
-              ₹{absBalance.toFixed(0)}
-            </p>
-            <ChevronDown className="h-4 w-4 text-muted-foreground" />
-          </div>
-        </button>
+        {/* Bottom Row: Stats Bar (Clickable) + balance history */}
+        <div className="flex items-center">
+          <button
+            onClick={onStatsClick}
+            className="flex-1 min-w-0 pl-6 pr-3 py-3 flex items-center justify-between hover:bg-primary/5 transition-colors active:bg-primary/10"
+          >
+            <div className="text-left">
+              <p className="text-xs font-mono text-muted-foreground uppercase tracking-wide">
+                {isDebt ? 'You owe' : 'You get back'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <p
+                className={`text-lg font-mono font-bold ${
+                  isDebt ? 'text-destructive' : 'text-emerald-600'
+                }`}
+              >
+                ₹{formatRupees(absBalance, 0)}
+              </p>
+              <ChevronDown className="h-4 w-4 text-muted-foreground" />
+            </div>
+          </button>
+          <Button
+            onClick={onHistoryClick}
+            variant="ghost"
+            size="icon"
+            aria-label="Balance history"
+            className="h-8 w-8 mr-4 rounded-full hover:bg-primary/10"
+          >
+            <LineChart className="h-4 w-4" />
+          </Button>
+        </div>
       </div>
     </div>
   )
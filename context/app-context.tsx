@@ -3,38 +3,139 @@
 /**
  * app-context.tsx - Global app state for auth, groups, expenses, balances
  *
- * Purpose: Auth session, groups, room selection (persisted), expenses
- * Responsibilities: Auth init; load groups; persist last room; load expenses
- * Dependencies: lib/types, lib/utils, lib/services (auth, group, expense, profile)
+ * Purpose: Auth session, groups, room selection (persisted), expenses, settlements, budgets
+ * Responsibilities: Auth init; load groups; persist last room; load expenses, settlements and
+ *   budgets; keep each visited room's expenses and settlements cached so switching is instant;
+ *   show the budget alerts the database raises when an expense pushes a category past a
+ *   threshold; set up recurring expenses (template + first instance)
+ * Dependencies: lib/types, lib/utils, lib/services (auth, group, expense, recurring-expense,
+ *   settlement, budget, profile)
  *
  * Data flow:
  *   Login → getSession → setUser → upsertProfile → loadUserGroups
- *   Room selection → setRoom → persist to localStorage → loadExpenses
+ *   Room selection → setRoom → persist to localStorage → cached room shown at once (if visited)
+ *     → loadExpenses + loadSettlements (refreshes the cache)
  *   Refresh → getSession → setUser → loadUserGroups → restore last room from localStorage
  */
 
-import React, { createContext, useContext, useState, useCallback, useEffect } from 'react'
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react'
 import { toast } from 'sonner'
-import type { User, Group, Expense, CreateExpenseInput } from '@/lib/types/expense.types'
+import type {
+  Balances,
+  User,
+  Group,
+  Expense,
+  CreateExpenseInput,
+  UpdateExpenseInput,
+  Settlement,
+  CreateSettlementInput,
+  CategoryBudget,
+  BudgetAlert,
+  BudgetAlertThreshold,
+  ExpenseCategory,
+  RecurringFrequency,
+  RemainderPolicy,
+} from '@/lib/types/expense.types'
 import { calculateBalances } from '@/lib/utils/balance-calculator'
-import { validateExpenseInput } from '@/lib/utils/expense-validation'
-import { loadExpenses, createExpense, deleteExpense } from '@/lib/services/expense.service'
+import { isRoomAdmin } from '@/lib/utils/room-roles'
+import { validateExpenseForRoom, validateSettlementInput } from '@/lib/utils/expense-validation'
+import {
+  loadExpenses,
+  createExpense,
+  updateExpense,
+  deleteExpense,
+  restoreExpense as restoreExpenseFromTrash,
+} from '@/lib/services/expense.service'
+import { loadSettlements, createSettlement } from '@/lib/services/settlement.service'
+import {
+  loadBudgets,
+  saveBudget,
+  loadBudgetAlerts,
+} from '@/lib/services/budget.service'
+import {
+  createRecurringExpense,
+  deleteRecurringExpense,
+} from '@/lib/services/recurring-expense.service'
+import { nextRecurringDueDate } from '@/lib/utils/recurring-schedule'
+import { toMonthKey } from '@/lib/utils/date-keys'
+import { expenseCategoryOption } from '@/lib/constants/expense-categories'
 import { getSession, onAuthStateChange } from '@/lib/services/auth.service'
-import { loadUserGroups } from '@/lib/services/group.service'
+import {
+  loadUserGroups,
+  setRemainderPolicy,
+  promoteMember,
+  demoteMember,
+  transferOwnership,
+} from '@/lib/services/group.service'
 import { upsertProfile } from '@/lib/services/profile.service'
 import { supabase } from '@/lib/supabase/client'
 
 const LAST_GROUP_ID_KEY = 'expense_partner_last_group_id'
+/** Budget alert ids already shown on this device (so each warning toasts once per member) */
+const SEEN_BUDGET_ALERTS_KEY = 'expense_partner_seen_budget_alerts'
+
+function readSeenBudgetAlerts(): string[] {
+  try {
+    const raw = localStorage.getItem(SEEN_BUDGET_ALERTS_KEY)
+    return raw ? (JSON.parse(raw) as string[]) : []
+  } catch {
+    return []
+  }
+}
+
+function markBudgetAlertsSeen(ids: string[]) {
+  if (ids.length === 0) return
+  try {
+    const seen = new Set(readSeenBudgetAlerts())
+    ids.forEach((id) => seen.add(id))
+    localStorage.setItem(SEEN_BUDGET_ALERTS_KEY, JSON.stringify([...seen]))
+  } catch {
+    // ignore
+  }
+}
+
+/** Toast the alerts this member hasn't seen yet (highest threshold per category) and mark them seen */
+function showUnseenBudgetAlerts(alerts: BudgetAlert[]) {
+  const seen = readSeenBudgetAlerts()
+  const unseen = alerts.filter((a) => !seen.includes(a.id))
+  const highest = new Map<ExpenseCategory, BudgetAlertThreshold>()
+  unseen.forEach((a) => {
+    if (a.threshold > (highest.get(a.category) ?? 0)) highest.set(a.category, a.threshold)
+  })
+  highest.forEach((threshold, category) => showBudgetWarning(category, threshold))
+  markBudgetAlertsSeen(unseen.map((a) => a.id))
+}
+
+function showBudgetWarning(category: ExpenseCategory, threshold: BudgetAlertThreshold) {
+  const label = expenseCategoryOption(category).label
+  toast.warning(
+    threshold >= 100
+      ? `${label} is over this month's budget`
+      : `${label} has used ${threshold}% of this month's budget`
+  )
+}
 
 /** Room is the runtime alias for Group */
 type Room = Group
 
+/** Role change a member can be given from the members list */
+export type MemberRoleChange = 'promote' | 'demote' | 'transfer'
+
+/** A visited room's data, kept while switching between rooms */
+interface RoomCacheEntry {
+  expenses: Expense[]
+  settlements: Settlement[]
+}
+
 interface AppContextType {
   user: User | null
   room: Room | null
   groups: Group[]
   expenses: Expense[]
-  balances: Record<string, number>
+  settlements: Settlement[]
+  /** Room category budgets (every month they were set for) */
+  budgets: CategoryBudget[]
+  balances: Balances
   authLoading: boolean
   groupsLoading: boolean
   groupsError: string | null
@@ -54,7 +155,35 @@ interface AppContextType {
   refreshGroups: () => Promise<Group[]>
   refreshExpenses: () => Promise<void>
   addExpense: (input: CreateExpenseInput) => Promise<{ success: boolean; error?: string }>
+  /** Add an expense that repeats: saves the template, then posts this first instance */
+  addRecurringExpense: (
+    input: CreateExpenseInput,
+    repeat: { frequency: RecurringFrequency; endDate?: Date }
+  ) => Promise<{ success: boolean; error?: string }>
+  /** Edit an expense (payer or room admin only); the previous version goes to its history */
+  editExpense: (
+    id: string,
+    input: UpdateExpenseInput
+  ) => Promise<{ success: boolean; error?: string }>
+  /** Move an expense to the trash; the toast offers Undo */
   removeExpense: (id: string) => Promise<void>
+  /** Bring a trashed expense back into the room */
+  restoreExpense: (expense: Expense) => Promise<boolean>
+  addSettlement: (input: CreateSettlementInput) => Promise<{ success: boolean; error?: string }>
+  /** Set a category budget from a month on */
+  saveCategoryBudget: (
+    budget: Omit<CategoryBudget, 'id'>
+  ) => Promise<{ success: boolean; error?: string }>
+  /** Room admin: who owes leftover paise in equal splits from now on */
+  saveRemainderPolicy: (policy: RemainderPolicy) => Promise<{ success: boolean; error?: string }>
+  /**
+   * Change a member's role: promote to admin, demote to member, or hand them ownership
+   * (owner only; the current owner becomes an admin)
+   */
+  changeMemberRole: (
+    memberId: string,
+    change: MemberRoleChange
+  ) => Promise<{ success: boolean; error?: string }>
   calculateBalances: () => void
 }
 
@@ -65,7 +194,9 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   const [room, setRoomState] = useState<Room | null>(null)
   const [groups, setGroups] = useState<Group[]>([])
   const [expenses, setExpenses] = useState<Expense[]>([])
-  const [balances, setBalances] = useState<Record<string, number>>({})
+  const [settlements, setSettlements] = useState<Settlement[]>([])
+  const [budgets, setBudgets] = useState<CategoryBudget[]>([])
+  const [balances, setBalances] = useState<Balances>({})
   const [authLoading, setAuthLoading] = useState(true)
   const [groupsLoading, setGroupsLoading] = useState(false)
   const [groupsError, setGroupsError] = useState<string | null>(null)
@@ -79,6 +210,9 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   const [signupInProgress, setSignupInProgress] = useState(false)
   // Track if profile has been verified (used to skip redundant DB checks on TOKEN_REFRESHED)
   const [profileVerified, setProfileVerified] = useState(false)
+  // Per-room expenses/settlements (room id → data), and which room the current state belongs to
+  const roomCacheRef = useRef(new Map<string, RoomCacheEntry>())
+  const cachedRoomIdRef = useRef<string | null>(null)
 
   const setRoom = useCallback((r: Room | null) => {
     setRoomState(r)
@@ -100,8 +234,8 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
   const recalculateBalances = useCallback(() => {
     if (!room) return
     const memberIds = room.members.map((m) => m.id)
-    setBalances(calculateBalances(expenses, memberIds))
-  }, [expenses, room])
+    setBalances(calculateBalances(expenses, memberIds, settlements))
+  }, [expenses, settlements, room])
 
   const refreshGroups = useCallback(async (): Promise<Group[]> => {
     setGroupsLoading(true)
@@ -125,12 +259,17 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     setExpensesLoading(true)
     setExpensesError(null)
     try {
-      const fetched = await loadExpenses(room.id)
+      const [fetched, fetchedSettlements] = await Promise.all([
+        loadExpenses(room.id),
+        loadSettlements(room.id),
+      ])
       setExpenses(fetched)
+      setSettlements(fetchedSettlements)
     } catch (err) {
       console.error('[app-context] refreshExpenses error:', err)
       setExpensesError('Failed to load expenses')
       setExpenses([])
+      setSettlements([])
     } finally {
       setExpensesLoading(false)
     }
@@ -271,6 +410,7 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
       setGroups([])
       setRoomState(null)
       setGroupsError(null)
+      roomCacheRef.current.clear()
       // Don't reset profile setup flags here - they may be intentionally set during signup
       return
     }
@@ -301,26 +441,44 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
       .finally(() => setGroupsLoading(false))
   }, [user?.id])
 
-  // Load expenses when room is set (with cancellation to avoid race when switching rooms)
+  // Load expenses and settlements when room is set (with cancellation to avoid race when switching rooms).
+  // A room visited before is shown from the cache straight away and refreshed in the background.
   useEffect(() => {
+    cachedRoomIdRef.current = null
     if (!room) {
       setExpenses([])
+      setSettlements([])
       setExpensesLoading(false)
       setExpensesError(null)
       return
     }
     let cancelled = false
-    setExpensesLoading(true)
+    const cached = roomCacheRef.current.get(room.id)
+    if (cached) {
+      cachedRoomIdRef.current = room.id
+      setExpenses(cached.expenses)
+      setSettlements(cached.settlements)
+    } else {
+      setExpenses([])
+      setSettlements([])
+    }
+    setExpensesLoading(!cached)
     setExpensesError(null)
-    loadExpenses(room.id)
-      .then((fetched) => {
-        if (!cancelled) setExpenses(fetched)
+    Promise.all([loadExpenses(room.id), loadSettlements(room.id)])
+      .then(([fetched, fetchedSettlements]) => {
+        if (cancelled) return
+        cachedRoomIdRef.current = room.id
+        setExpenses(fetched)
+        setSettlements(fetchedSettlements)
       })
       .catch((err) => {
-        if (!cancelled) {
-          console.error('[app-context] Failed to load expenses:', err)
+        if (cancelled) return
+        console.error('[app-context] Failed to load expenses:', err)
+        // Cached data stays on screen; only a room never loaded shows the error
+        if (!cached) {
           setExpensesError('Failed to load expenses')
           setExpenses([])
+          setSettlements([])
         }
       })
       .finally(() => {
@@ -331,37 +489,274 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     }
   }, [room?.id])
 
+  // Keep the current room's cache entry in step with every change (adds, edits, settlements)
+  useEffect(() => {
+    const roomId = cachedRoomIdRef.current
+    if (roomId) roomCacheRef.current.set(roomId, { expenses, settlements })
+  }, [expenses, settlements])
+
+  // Load budgets and show this month's budget warnings this member hasn't seen yet
+  useEffect(() => {
+    if (!room) {
+      setBudgets([])
+      return
+    }
+    let cancelled = false
+    Promise.all([loadBudgets(room.id), loadBudgetAlerts(room.id, toMonthKey(new Date()))])
+      .then(([fetchedBudgets, alerts]) => {
+        if (cancelled) return
+        setBudgets(fetchedBudgets)
+        showUnseenBudgetAlerts(alerts)
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          console.error('[app-context] Failed to load budgets:', err)
+          setBudgets([])
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [room?.id])
+
   useEffect(() => {
     recalculateBalances()
   }, [recalculateBalances])
 
+  /** After an expense write: warn about budget alerts the database raised for its month */
+  const checkBudgetAlerts = useCallback((roomId: string, expense: Expense) => {
+    loadBudgetAlerts(roomId, toMonthKey(expense.expenseDate))
+      .then(showUnseenBudgetAlerts)
+      .catch((err) => console.error('[app-context] Failed to load budget alerts:', err))
+  }, [])
+
   const addExpense = useCallback(
     async (input: CreateExpenseInput): Promise<{ success: boolean; error?: string }> => {
-      const validation = validateExpenseInput({
+      if (!room) return { success: false, error: 'No room selected' }
+      const validation = validateExpenseForRoom(input, room)
+      if (!validation.valid) return { success: false, error: validation.error }
+
+      let created: Expense
+      try {
+        const result = await createExpense(room.id, input)
+        if ('error' in result) return { success: false, error: result.error.message }
+        created = result.expense
+      } catch (err) {
+        console.error('[app-context] addExpense error:', err)
+        return { success: false, error: 'Failed to save expense' }
+      }
+
+      setExpenses((prev) => [created, ...prev])
+      checkBudgetAlerts(room.id, created)
+      return { success: true }
+    },
+    [room, checkBudgetAlerts]
+  )
+
+  const addRecurringExpense = useCallback(
+    async (
+      input: CreateExpenseInput,
+      repeat: { frequency: RecurringFrequency; endDate?: Date }
+    ): Promise<{ success: boolean; error?: string }> => {
+      if (!room) return { success: false, error: 'No room selected' }
+      if (input.splitType === 'itemized') {
+        return { success: false, error: 'Itemized expenses cannot repeat' }
+      }
+      if (repeat.endDate && repeat.endDate < input.expenseDate) {
+        return { success: false, error: 'End date must be on or after the first date' }
+      }
+      const validation = validateExpenseForRoom(input, room)
+      if (!validation.valid) return { success: false, error: validation.error }
+
+      const dayOfMonth = input.expenseDate.getDate()
+      let templateId: string
+      try {
+        const template = await createRecurringExpense(room.id, {
+          title: input.title,
+          amount: input.amount,
+          category: input.category,
+          paidBy: input.paidBy,
+          payers: input.payers,
+          splitType: input.splitType,
+          splits: input.splits,
+          frequency: repeat.frequency,
+          dayOfMonth,
+          startDate: input.expenseDate,
+          endDate: repeat.endDate,
+          nextDueOn: nextRecurringDueDate(input.expenseDate, repeat.frequency, dayOfMonth),
+        })
+        templateId = template.id
+      } catch (err) {
+        console.error('[app-context] addRecurringExpense error:', err)
+        return { success: false, error: 'Failed to save recurring expense' }
+      }
+
+      const result = await addExpense({ ...input, recurringExpenseId: templateId })
+      // Don't leave a template behind whose first instance never got saved
+      if (!result.success) await deleteRecurringExpense(templateId)
+      return result
+    },
+    [room, addExpense]
+  )
+
+  const editExpense = useCallback(
+    async (id: string, input: UpdateExpenseInput): Promise<{ success: boolean; error?: string }> => {
+      if (!room || !user) return { success: false, error: 'No room selected' }
+      const existing = expenses.find((e) => e.id === id)
+      if (!existing) return { success: false, error: 'Expense not found' }
+      if (existing.paidBy.id !== user.id && !isRoomAdmin(room, user.id)) {
+        return { success: false, error: 'Only the payer or the room admin can edit this expense' }
+      }
+      const validation = validateExpenseForRoom(input, room, existing)
+      if (!validation.valid) return { success: false, error: validation.error }
+
+      try {
+        const result = await updateExpense(id, input)
+        if ('error' in result) return { success: false, error: result.error.message }
+        const updated = result.expense
+        setExpenses((prev) => prev.map((e) => (e.id === id ? updated : e)))
+        checkBudgetAlerts(room.id, updated)
+        return { success: true }
+      } catch (err) {
+        console.error('[app-context] editExpense error:', err)
+        return { success: false, error: 'Failed to save changes' }
+      }
+    },
+    [room, user, expenses, checkBudgetAlerts]
+  )
+
+  const restoreExpense = useCallback(
+    async (expense: Expense) => {
+      const ok = await restoreExpenseFromTrash(expense.id)
+      if (!ok) {
+        toast.error('Failed to restore expense')
+        return false
+      }
+      const restored: Expense = { ...expense, deletedAt: undefined, deletedBy: undefined }
+      setExpenses((prev) => [restored, ...prev.filter((e) => e.id !== expense.id)])
+      if (room) checkBudgetAlerts(room.id, restored)
+      return true
+    },
+    [room, checkBudgetAlerts]
+  )
+
+  const removeExpense = useCallback(
+    async (id: string) => {
+      const removed = expenses.find((e) => e.id === id)
+      const ok = await deleteExpense(id)
+      if (!ok) {
+        toast.error('Failed to remove expense')
+        return
+      }
+      setExpenses((prev) => prev.filter((e) => e.id !== id))
+      toast(removed ? `"${removed.title}" moved to trash` : 'Expense moved to trash', {
+        action: removed
+          ? {
+              label: 'Undo',
+              onClick: () => {
+                restoreExpense(removed)
+              },
+            }
+          : undefined,
+      })
+    },
+    [expenses, restoreExpense]
+  )
+
+  const addSettlement = useCallback(
+    async (input: CreateSettlementInput): Promise<{ success: boolean; error?: string }> => {
+      const validation = validateSettlementInput({
         amount: input.amount,
-        splitType: input.splitType,
-        splits: input.splits,
+        fromUserId: input.fromUserId,
+        toUserId: input.toUserId,
       })
       if (!validation.valid) return { success: false, error: validation.error }
       if (!room) return { success: false, error: 'No room selected' }
 
-      const created = await createExpense(room.id, input)
-      if (!created) return { success: false, error: 'Failed to save expense' }
+      try {
+        const created = await createSettlement(room.id, input)
+        setSettlements((prev) => [created, ...prev])
+        return { success: true }
+      } catch (err) {
+        console.error('[app-context] addSettlement error:', err)
+        return { success: false, error: 'Failed to record payment' }
+      }
+    },
+    [room]
+  )
 
-      setExpenses((prev) => [created, ...prev])
-      return { success: true }
+  const saveCategoryBudget = useCallback(
+    async (budget: Omit<CategoryBudget, 'id'>): Promise<{ success: boolean; error?: string }> => {
+      if (!room) return { success: false, error: 'No room selected' }
+      if (!Number.isSafeInteger(budget.amount) || budget.amount < 0) {
+        return { success: false, error: 'Budget must be zero or more' }
+      }
+      try {
+        const saved = await saveBudget(room.id, budget)
+        setBudgets((prev) => [
+          ...prev.filter(
+            (b) =>
+              !(b.category === saved.category && b.startsOn.getTime() === saved.startsOn.getTime())
+          ),
+          saved,
+        ])
+        return { success: true }
+      } catch (err) {
+        console.error('[app-context] saveCategoryBudget error:', err)
+        return { success: false, error: 'Failed to save budget' }
+      }
     },
     [room]
   )
 
-  const removeExpense = useCallback(async (id: string) => {
-    const ok = await deleteExpense(id)
-    if (!ok) {
-      toast.error('Failed to remove expense')
-      return
-    }
-    setExpenses((prev) => prev.filter((e) => e.id !== id))
-  }, [])
+  const saveRemainderPolicy = useCallback(
+    async (policy: RemainderPolicy): Promise<{ success: boolean; error?: string }> => {
+      if (!room || !user) return { success: false, error: 'No room selected' }
+      if (!isRoomAdmin(room, user.id)) {
+        return { success: false, error: 'Only the owner or an admin can change this' }
+      }
+      const ok = await setRemainderPolicy(room.id, policy)
+      if (!ok) return { success: false, error: 'Failed to save setting' }
+      const updated: Room = { ...room, remainderPolicy: policy }
+      setRoomState(updated)
+      setGroups((prev) => prev.map((g) => (g.id === updated.id ? updated : g)))
+      return { success: true }
+    },
+    [room, user]
+  )
+
+  const changeMemberRole = useCallback(
+    async (
+      memberId: string,
+      change: MemberRoleChange
+    ): Promise<{ success: boolean; error?: string }> => {
+      if (!room || !user) return { success: false, error: 'No room selected' }
+      try {
+        if (change === 'promote') await promoteMember(room.id, memberId)
+        else if (change === 'demote') await demoteMember(room.id, memberId)
+        else await transferOwnership(room.id, memberId)
+      } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : 'Failed to change role' }
+      }
+      const updated: Room = {
+        ...room,
+        createdBy: change === 'transfer' ? memberId : room.createdBy,
+        members: room.members.map((m) => {
+          if (change === 'transfer') {
+            if (m.id === memberId) return { ...m, role: 'owner' }
+            if (m.id === user.id) return { ...m, role: 'admin' }
+            return m
+          }
+          if (m.id !== memberId || m.role === 'owner') return m
+          return { ...m, role: change === 'promote' ? 'admin' : 'member' }
+        }),
+      }
+      setRoomState(updated)
+      setGroups((prev) => prev.map((g) => (g.id === updated.id ? updated : g)))
+      return { success: true }
+    },
+    [room, user]
+  )
 
   return (
     <AppContext.Provider
@@ -370,6 +765,8 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         room,
         groups,
         expenses,
+        settlements,
+        budgets,
         balances,
         authLoading,
         groupsLoading,
@@ -387,7 +784,14 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         refreshGroups,
         refreshExpenses,
         addExpense,
+        addRecurringExpense,
+        editExpense,
         removeExpense,
+        restoreExpense,
+        addSettlement,
+        saveCategoryBudget,
+        saveRemainderPolicy,
+        changeMemberRole,
         calculateBalances: recalculateBalances,
       }}
     >
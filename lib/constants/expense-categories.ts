@@ -0,0 +1,45 @@
+/**
+ * expense-categories.ts - Labels, icons and colors for expense categories
+ *
+ * Purpose: Single source for the category picker, timeline icons and category totals
+ * Dependencies: lib/types/expense.types, lucide-react
+ */
+
+import {
+  Bus,
+  Home,
+  Lightbulb,
+  Package,
+  ShoppingCart,
+  Sofa,
+  UtensilsCrossed,
+  type LucideIcon,
+} from 'lucide-react'
+import type { ExpenseCategory } from '@/lib/types/expense.types'
+
+export interface ExpenseCategoryOption {
+  value: ExpenseCategory
+  label: string
+  icon: LucideIcon
+  /** Tailwind background class for bars and badges */
+  color: string
+}
+
+/** Categories in picker order */
+export const EXPENSE_CATEGORIES: ExpenseCategoryOption[] = [
+  { value: 'rent', label: 'Rent', icon: Home, color: 'bg-violet-500' },
+  { value: 'utilities', label: 'Utilities', icon: Lightbulb, color: 'bg-amber-500' },
+  { value: 'groceries', label: 'Groceries', icon: ShoppingCart, color: 'bg-emerald-500' },
+  { value: 'food', label: 'Food', icon: UtensilsCrossed, color: 'bg-orange-500' },
+  { value: 'travel', label: 'Travel', icon: Bus, color: 'bg-sky-500' },
+  { value: 'household', label: 'Household', icon: Sofa, color: 'bg-rose-500' },
+  { value: 'other', label: 'Other', icon: Package, color: 'bg-slate-400' },
+]
+
+/** Option for a stored category (unknown values fall back to Other) */
+export function expenseCategoryOption(category: ExpenseCategory): ExpenseCategoryOption {
+  return (
+    EXPENSE_CATEGORIES.find((c) => c.value === category) ??
+    EXPENSE_CATEGORIES[EXPENSE_CATEGORIES.length - 1]
+  )
+}
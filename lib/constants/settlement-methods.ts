@@ -0,0 +1,21 @@
+/**
+ * settlement-methods.ts - Display labels for settlement payment methods
+ *
+ * Purpose: Single source for the method picker and timeline labels
+ * Dependencies: lib/types/expense.types
+ */
+
+import type { SettlementMethod } from '@/lib/types/expense.types'
+
+/** Methods in picker order, with user-facing labels */
+export const SETTLEMENT_METHODS: Array<{ value: SettlementMethod; label: string }> = [
+  { value: 'upi', label: 'UPI' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'bank_transfer', label: 'Bank transfer' },
+  { value: 'other', label: 'Other' },
+]
+
+/** Label for a stored method (falls back to the raw value) */
+export function settlementMethodLabel(method: SettlementMethod): string {
+  return SETTLEMENT_METHODS.find((m) => m.value === method)?.label ?? method
+}
@@ -0,0 +1,17 @@
+/**
+ * trash.ts - Retention window for deleted expenses
+ *
+ * Purpose: Single source for how long deleted expenses stay restorable
+ * Dependencies: None
+ *
+ * Must match the interval in purge_expired_expenses (supabase/migrations).
+ */
+
+/** Days a deleted expense stays in the trash before it is purged */
+export const TRASH_RETENTION_DAYS = 30
+
+/** Whole days left before a trashed item is purged (0 = purged on next trash load) */
+export function trashDaysLeft(deletedAt: Date, now: Date = new Date()): number {
+  const elapsedDays = (now.getTime() - deletedAt.getTime()) / (24 * 60 * 60 * 1000)
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsedDays))
+}
@@ -0,0 +1,135 @@
+/**
+ * budget.service.ts - Supabase persistence for category budgets and budget alerts
+ *
+ * Purpose: Save and load room-level monthly category budgets; load threshold alerts
+ *   (the database raises alerts on every expense write)
+ * Responsibilities: Map domain CategoryBudget / BudgetAlert ↔ DB rows
+ * Dependencies: lib/supabase/client, lib/types/expense.types, lib/utils/date-keys, lib/utils/money
+ *
+ * @example
+ * ```ts
+ * const budgets = await loadBudgets(roomId)
+ * const saved = await saveBudget(roomId, { category: 'groceries', amount: fromRupees(8000), startsOn, resetSchedule: 'monthly' })
+ * const alerts = await loadBudgetAlerts(roomId, '2025-02')
+ * ```
+ */
+
+import { supabase } from '@/lib/supabase/client'
+import { fromDateKey, toDateKey } from '@/lib/utils/date-keys'
+import { fromRupees, toRupees } from '@/lib/utils/money'
+import type {
+  BudgetAlert,
+  BudgetAlertThreshold,
+  BudgetResetSchedule,
+  CategoryBudget,
+  ExpenseCategory,
+} from '@/lib/types/expense.types'
+
+/** DB row shape (snake_case) */
+interface CategoryBudgetRow {
+  id: string
+  group_id: string
+  category: string
+  amount: number | string
+  starts_on: string
+  reset_schedule: string
+}
+
+interface BudgetAlertRow {
+  id: string
+  category: string
+  month: string
+  threshold: number
+  created_by: string | null
+  created_at: string
+}
+
+const BUDGET_COLUMNS = 'id, group_id, category, amount, starts_on, reset_schedule'
+
+function rowToBudget(row: CategoryBudgetRow): CategoryBudget {
+  return {
+    id: row.id,
+    category: row.category as ExpenseCategory,
+    amount: fromRupees(row.amount),
+    startsOn: fromDateKey(row.starts_on),
+    resetSchedule: row.reset_schedule as BudgetResetSchedule,
+  }
+}
+
+function rowToAlert(row: BudgetAlertRow): BudgetAlert {
+  return {
+    id: row.id,
+    category: row.category as ExpenseCategory,
+    monthKey: row.month.slice(0, 7),
+    threshold: row.threshold as BudgetAlertThreshold,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+  }
+}
+
+/**
+ * Load all budgets for a group (every month they were set for)
+ *
+ * @param groupId - Room/group ID
+ * @returns Budgets ordered by start month
+ */
+export async function loadBudgets(groupId: string): Promise<CategoryBudget[]> {
+  const { data } = await supabase
+    .from('category_budgets')
+    .select(BUDGET_COLUMNS)
+    .eq('group_id', groupId)
+    .order('starts_on', { ascending: true })
+    .throwOnError()
+
+  return (data ?? []).map((row) => rowToBudget(row as CategoryBudgetRow))
+}
+
+/**
+ * Set a category budget from a month on (overwrites a budget set for that same month)
+ *
+ * @param groupId - Room/group ID
+ * @param budget - Category, amount (0 = no budget), first day of the start month, reset schedule
+ * @returns Saved CategoryBudget
+ */
+export async function saveBudget(
+  groupId: string,
+  budget: Omit<CategoryBudget, 'id'>
+): Promise<CategoryBudget> {
+  const { data } = await supabase
+    .from('category_budgets')
+    .upsert(
+      {
+        group_id: groupId,
+        category: budget.category,
+        amount: toRupees(budget.amount),
+        starts_on: toDateKey(budget.startsOn),
+        reset_schedule: budget.resetSchedule,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'group_id,category,starts_on' }
+    )
+    .select(BUDGET_COLUMNS)
+    .single()
+    .throwOnError()
+
+  return rowToBudget(data as CategoryBudgetRow)
+}
+
+/**
+ * Load alerts raised in a month
+ *
+ * @param groupId - Room/group ID
+ * @param monthKey - 'YYYY-MM'
+ * @returns Alerts, oldest first
+ */
+export async function loadBudgetAlerts(groupId: string, monthKey: string): Promise<BudgetAlert[]> {
+  const { data } = await supabase
+    .from('budget_alerts')
+    .select('id, category, month, threshold, created_by, created_at')
+    .eq('group_id', groupId)
+    .eq('month', `${monthKey}-01`)
+    .order('created_at', { ascending: true })
+    .throwOnError()
+
+  return (data ?? []).map((row) => rowToAlert(row as BudgetAlertRow))
+}
@@ -1,63 +1,253 @@
 /**
  * expense.service.ts - Supabase CRUD for expenses
  *
- * Purpose: Persist expenses to Supabase; load, create, delete
- * Responsibilities: Map domain Expense ↔ DB row; handle JSONB for paidBy/splits
- * Dependencies: lib/supabase/client, lib/types/expense.types
+ * Purpose: Persist expenses to Supabase; load, create, update, delete (to trash); trash and edit history
+ * Responsibilities: Map domain Expense ↔ DB row; splits and payers from expense_splits /
+ *   expense_payers rows; JSONB for items/charges; payer name from the current profile
+ *   (paid_by_name computed field)
+ * Dependencies: lib/supabase/client, lib/types/expense.types, lib/utils/money
+ *
+ * The database stores rupees (numeric columns and JSONB numbers); the app uses Money (paise).
+ * Conversion happens only in the mappers below. An expense, its payers and its splits are written together
+ * by the create_expense / update_expense RPCs, which validate the input again server-side and
+ * reject it with an error code (ExpenseWriteErrorCode, sent as the Postgres error hint).
  *
  * Data flow: AppContext calls these functions → Supabase → AppContext updates state
  *
  * @example
  * ```ts
  * const expenses = await loadExpenses(roomId)
- * const ok = await createExpense(roomId, input)
- * await deleteExpense(id)
+ * const created = await createExpense(roomId, input)  // { expense } or { error: { code, message } }
+ * const edited = await updateExpense(id, input)
+ * const history = await loadExpenseRevisions(id)
+ * await deleteExpense(id)      // moves to trash
+ * await restoreExpense(id)     // undo / restore from trash
+ * await purgeExpense(id)       // permanent, trash only
  * ```
  */
 
+import type { PostgrestError } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase/client'
-import type { Expense, CreateExpenseInput, User, Split } from '@/lib/types/expense.types'
+import { fromDateKey, toDateKey } from '@/lib/utils/date-keys'
+import { fromRupees, toRupees } from '@/lib/utils/money'
+import type {
+  Expense,
+  CreateExpenseInput,
+  UpdateExpenseInput,
+  ExpenseRevision,
+  ExpenseRevisionField,
+  ExpenseWriteError,
+  ExpenseWriteErrorCode,
+  User,
+  Split,
+  SplitType,
+  ExpenseCategory,
+  Payment,
+  LineItem,
+  ItemizedCharges,
+} from '@/lib/types/expense.types'
 
 /** DB row shape (snake_case) */
 interface ExpenseRow {
   id: string
   group_id: string
   title: string
-  amount: number
-  paid_by: unknown
+  amount: number | string
+  paid_by_user_id: string
+  /** Computed field: the payer's current profile name */
+  paid_by_name: string | null
   split_type: string
-  splits: unknown
+  expense_payers: ExpensePayerRow[]
+  expense_splits: ExpenseSplitRow[]
+  items: unknown
+  charges: unknown
+  entered_by: string | null
+  expense_date: string | null
+  category: string | null
   created_at: string
+  updated_at: string | null
+  deleted_at: string | null
+  deleted_by: string | null
+  recurring_expense_id: string | null
 }
 
-/** Round to 2 decimals to avoid float drift in splits (equal split, display, breakdown). */
-function round2(n: number): number {
-  return Math.round(n * 100) / 100
+/** DB row shape for expense_payers (embedded in expense selects; none for a single payer) */
+interface ExpensePayerRow {
+  user_id: string
+  amount: number | string
+  position: number
 }
 
-/** Maps DB row → domain Expense (paidBy/splits from JSONB). Normalizes split amounts to 2 decimals. */
-function rowToExpense(row: ExpenseRow): Expense {
-  const paidBy = row.paid_by as User
-  const rawSplits = (row.splits as Split[]) ?? []
-  const splits = rawSplits.map((s) => ({
+/** DB row shape for expense_splits (embedded in expense selects) */
+interface ExpenseSplitRow {
+  user_id: string
+  amount: number | string
+  percentage: number | string | null
+  shares: number | string | null
+  position: number
+}
+
+/** DB row shape for expense_revisions (previous_version is an expenses row plus the payer name and JSON payers / splits) */
+interface ExpenseRevisionRow {
+  id: string
+  expense_id: string
+  revised_by: string | null
+  revised_at: string
+  changed_fields: string[] | null
+  previous_version: Omit<ExpenseRow, 'expense_payers' | 'expense_splits'> & {
+    payers: unknown
+    splits: unknown
+  }
+}
+
+/** Expense columns plus the payer's name, the payers and the splits */
+const EXPENSE_SELECT =
+  '*, paid_by_name, expense_payers(user_id, amount, position), expense_splits(user_id, amount, percentage, shares, position)'
+
+/** JSONB shapes: same as the domain types, with rupee numbers instead of Money */
+type PaymentJson = { userId: string; amount: number }
+type SplitJson = { userId: string; amount: number; percentage?: number; shares?: number }
+type LineItemJson = { name: string; amount: number; participantIds: string[] }
+type ChargesJson = { tax: number; serviceCharge: number; tip: number }
+
+/** Maps JSONB payers → Payment[] (undefined for single-payer rows, where paid_by paid it all). Shared with recurring-expense.service. */
+export function rowToPayers(raw: unknown): Payment[] | undefined {
+  if (!Array.isArray(raw) || raw.length === 0) return undefined
+  return (raw as PaymentJson[]).map((p) => ({
+    userId: String(p.userId),
+    amount: fromRupees(p.amount),
+  }))
+}
+
+/** Payment[] → JSONB payers (null for a single payer). Shared with recurring-expense.service. */
+export function payersToRow(payers: Payment[] | undefined): PaymentJson[] | null {
+  if (!payers || payers.length <= 1) return null
+  return payers.map((p) => ({ userId: p.userId, amount: toRupees(p.amount) }))
+}
+
+/** Maps JSONB items → LineItem[] (undefined when the expense is not itemized). */
+function rowToItems(raw: unknown): LineItem[] | undefined {
+  if (!Array.isArray(raw)) return undefined
+  return (raw as LineItemJson[]).map((item) => ({
+    name: String(item.name ?? ''),
+    amount: fromRupees(item.amount),
+    participantIds: Array.isArray(item.participantIds) ? item.participantIds.map(String) : [],
+  }))
+}
+
+/** Maps JSONB charges → ItemizedCharges (missing fields count as 0). */
+function rowToCharges(raw: unknown): ItemizedCharges | undefined {
+  if (!raw || typeof raw !== 'object') return undefined
+  const c = raw as Partial<ChargesJson>
+  return {
+    tax: fromRupees(c.tax),
+    serviceCharge: fromRupees(c.serviceCharge),
+    tip: fromRupees(c.tip),
+  }
+}
+
+/** Maps JSONB splits → Split[] (amounts to paise; keeps percentages/shares). Shared with recurring-expense.service. */
+export function rowToSplits(raw: unknown): Split[] {
+  const rawSplits = (raw as SplitJson[]) ?? []
+  return rawSplits.map((s) => ({
     userId: s.userId,
-    amount: round2(Number(s.amount)),
+    amount: fromRupees(s.amount),
+    ...(s.percentage !== undefined && s.percentage !== null && { percentage: Number(s.percentage) }),
+    ...(s.shares !== undefined && s.shares !== null && { shares: Number(s.shares) }),
   }))
+}
+
+/** Split[] → JSONB splits (rupees). Shared with recurring-expense.service. */
+export function splitsToRow(splits: Split[]): SplitJson[] {
+  return splits.map((s) => ({ ...s, amount: toRupees(s.amount) }))
+}
+
+/** Maps expense_splits rows → Split[] in the order they were entered */
+function splitRowsToSplits(rows: ExpenseSplitRow[] | null): Split[] {
+  return [...(rows ?? [])]
+    .sort((a, b) => a.position - b.position)
+    .map((s) => ({
+      userId: s.user_id,
+      amount: fromRupees(s.amount),
+      ...(s.percentage !== null && { percentage: Number(s.percentage) }),
+      ...(s.shares !== null && { shares: Number(s.shares) }),
+    }))
+}
+
+/** Maps expense_payers rows → Payment[] in the order they were entered (undefined for a single payer) */
+function payerRowsToPayers(rows: ExpensePayerRow[] | null): Payment[] | undefined {
+  if (!rows || rows.length === 0) return undefined
+  return [...rows]
+    .sort((a, b) => a.position - b.position)
+    .map((p) => ({ userId: p.user_id, amount: fromRupees(p.amount) }))
+}
+
+/** Maps DB row → domain Expense (payer name from the current profile, payers and splits from their tables) */
+function rowToExpense(row: ExpenseRow): Expense {
+  const paidBy: User = { id: row.paid_by_user_id, name: row.paid_by_name ?? 'User' }
   return {
     id: row.id,
     title: row.title,
-    amount: round2(Number(row.amount)),
+    amount: fromRupees(row.amount),
     paidBy,
-    splitType: row.split_type as 'equal' | 'custom',
-    splits,
+    payers: payerRowsToPayers(row.expense_payers),
+    splitType: row.split_type as SplitType,
+    splits: splitRowsToSplits(row.expense_splits),
+    items: rowToItems(row.items),
+    charges: rowToCharges(row.charges),
+    enteredBy: row.entered_by ?? undefined,
+    expenseDate: fromDateKey(row.expense_date ?? row.created_at),
+    category: (row.category ?? 'other') as ExpenseCategory,
     createdAt: new Date(row.created_at),
+    updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
+    deletedBy: row.deleted_by ?? undefined,
+    recurringExpenseId: row.recurring_expense_id ?? undefined,
+  }
+}
+
+function rowToRevision(row: ExpenseRevisionRow): ExpenseRevision {
+  const { payers, splits, ...previous } = row.previous_version
+  return {
+    id: row.id,
+    expenseId: row.expense_id,
+    revisedBy: row.revised_by ?? undefined,
+    revisedAt: new Date(row.revised_at),
+    changedFields: (row.changed_fields ?? []) as ExpenseRevisionField[],
+    previous: {
+      ...rowToExpense({ ...previous, expense_payers: [], expense_splits: [] }),
+      payers: rowToPayers(payers),
+      splits: rowToSplits(splits),
+    },
+  }
+}
+
+/** Editable columns shared by create and update (splits are passed to the RPCs separately) */
+function inputToRow(input: UpdateExpenseInput) {
+  return {
+    title: input.title,
+    amount: toRupees(input.amount),
+    paid_by_user_id: input.paidBy.id,
+    payers: payersToRow(input.payers),
+    split_type: input.splitType,
+    items: input.items?.map((item) => ({ ...item, amount: toRupees(item.amount) })) ?? null,
+    charges: input.charges
+      ? {
+          tax: toRupees(input.charges.tax),
+          serviceCharge: toRupees(input.charges.serviceCharge),
+          tip: toRupees(input.charges.tip),
+        }
+      : null,
+    expense_date: toDateKey(input.expenseDate),
+    category: input.category,
   }
 }
 
 /**
- * Load all expenses for a group from Supabase
+ * Load all expenses for a group from Supabase (trash excluded)
  *
  * Data flow: Supabase expenses table → rows → map to Expense[] → return to context
+ * Order: expense date (newest first), then creation time
  *
  * @param groupId - Room/group ID to filter by
  * @returns Array of Expense, or [] on error
@@ -65,54 +255,177 @@ function rowToExpense(row: ExpenseRow): Expense {
 export async function loadExpenses(groupId: string): Promise<Expense[]> {
   const { data } = await supabase
     .from('expenses')
-    .select('*')
+    .select(EXPENSE_SELECT)
     .eq('group_id', groupId)
+    .is('deleted_at', null)
+    .order('expense_date', { ascending: false })
     .order('created_at', { ascending: false })
     .throwOnError()
 
   return (data ?? []).map((row) => rowToExpense(row as ExpenseRow))
 }
 
+/** Codes create_expense / update_expense put in the error hint */
+const EXPENSE_WRITE_ERROR_CODES: ExpenseWriteErrorCode[] = [
+  'not_authenticated',
+  'not_member',
+  'not_found',
+  'not_allowed',
+  'invalid_title',
+  'invalid_amount',
+  'invalid_split_type',
+  'invalid_payers',
+  'invalid_splits',
+  'invalid_items',
+  'payer_not_member',
+  'participant_not_member',
+  'payer_total_mismatch',
+  'split_total_mismatch',
+  'items_total_mismatch',
+]
+
+/** RPC error → ExpenseWriteError (unrecognised errors keep a generic message) */
+function toExpenseWriteError(error: PostgrestError, fallback: string): ExpenseWriteError {
+  const code = EXPENSE_WRITE_ERROR_CODES.find((c) => c === error.hint)
+  return code ? { code, message: error.message } : { code: 'unknown', message: fallback }
+}
+
+/** Load one expense (after a write, to return what the database stored) */
+async function loadExpense(id: string): Promise<Expense> {
+  const { data } = await supabase
+    .from('expenses')
+    .select(EXPENSE_SELECT)
+    .eq('id', id)
+    .single()
+    .throwOnError()
+
+  return rowToExpense(data as ExpenseRow)
+}
+
 /**
  * Create a new expense in Supabase
  *
- * Data flow: CreateExpenseInput → DB row (paidBy/splits as JSONB) → insert → return success
+ * entered_by is filled by the database (auth.uid()). create_expense checks the caller, payers and
+ * participants are room members, the amount is positive, the split type is known and the
+ * splits / payments (and an itemized receipt) add up to the amount in whole paise, all in one
+ * transaction with the insert.
+ *
+ * Data flow: CreateExpenseInput → create_expense RPC (expense row + payer and split rows) → reload
  *
  * @param groupId - Room/group ID
- * @param input - Expense input (validated by caller)
- * @returns Created Expense or null on error
+ * @param input - Expense input (validated by caller too)
+ * @returns { expense } or { error } with the reason it was rejected
+ * @throws If the saved expense can't be reloaded
  */
 export async function createExpense(
   groupId: string,
   input: CreateExpenseInput
-): Promise<Expense | null> {
-  const row = {
-    group_id: groupId,
-    title: input.title,
-    amount: input.amount,
-    paid_by: input.paidBy,
-    split_type: input.splitType,
-    splits: input.splits,
+): Promise<{ expense: Expense } | { error: ExpenseWriteError }> {
+  const { data: id, error } = await supabase.rpc('create_expense', {
+    p_group_id: groupId,
+    p_expense: {
+      ...(input.id && { id: input.id }),
+      ...inputToRow(input),
+      recurring_expense_id: input.recurringExpenseId ?? null,
+    },
+    p_splits: splitsToRow(input.splits),
+  })
+
+  if (error) {
+    console.error('[expense.service] createExpense error:', error)
+    return { error: toExpenseWriteError(error, 'Failed to save expense') }
+  }
+
+  return { expense: await loadExpense(id as string) }
+}
+
+/**
+ * Update an existing expense
+ *
+ * Only the payer or the room admin may edit (update_expense RPC + trigger). The trigger stores
+ * the previous version (with its splits) in expense_revisions and sets updated_at; created_at
+ * and entered_by never change.
+ *
+ * update_expense validates the input like create_expense; payers and participants who have left
+ * the room since may stay on the expense.
+ *
+ * @param id - Expense ID (UUID)
+ * @param input - New expense fields (validated by caller too)
+ * @returns { expense } or { error } with the reason it was rejected (e.g. caller is not allowed to edit)
+ * @throws If the saved expense can't be reloaded
+ */
+export async function updateExpense(
+  id: string,
+  input: UpdateExpenseInput
+): Promise<{ expense: Expense } | { error: ExpenseWriteError }> {
+  const { error } = await supabase.rpc('update_expense', {
+    p_expense_id: id,
+    p_expense: inputToRow(input),
+    p_splits: splitsToRow(input.splits),
+  })
+
+  if (error) {
+    console.error('[expense.service] updateExpense error:', error)
+    return { error: toExpenseWriteError(error, 'Failed to save changes') }
+  }
+
+  return { expense: await loadExpense(id) }
+}
+
+/**
+ * Load the edit history of an expense, newest edit first
+ *
+ * @param expenseId - Expense ID (UUID)
+ * @returns Revisions (each holds the version before that edit)
+ */
+export async function loadExpenseRevisions(expenseId: string): Promise<ExpenseRevision[]> {
+  const { data } = await supabase
+    .from('expense_revisions')
+    .select('*')
+    .eq('expense_id', expenseId)
+    .order('revised_at', { ascending: false })
+    .throwOnError()
+
+  return (data ?? []).map((row) => rowToRevision(row as ExpenseRevisionRow))
+}
+
+/**
+ * Load the room's trash, most recently deleted first
+ *
+ * Purges entries older than the retention window first (purge_expired_expenses RPC).
+ *
+ * @param groupId - Room/group ID
+ * @returns Deleted expenses still within the retention window
+ */
+export async function loadDeletedExpenses(groupId: string): Promise<Expense[]> {
+  const { error: purgeError } = await supabase.rpc('purge_expired_expenses', {
+    p_group_id: groupId,
+  })
+  if (purgeError) {
+    console.error('[expense.service] purge_expired_expenses error:', purgeError)
   }
 
   const { data } = await supabase
     .from('expenses')
-    .insert(row)
-    .select()
-    .single()
+    .select(EXPENSE_SELECT)
+    .eq('group_id', groupId)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false })
     .throwOnError()
 
-  return rowToExpense(data as ExpenseRow)
+  return (data ?? []).map((row) => rowToExpense(row as ExpenseRow))
 }
 
 /**
- * Delete an expense from Supabase
+ * Delete an expense (moves it to the trash; restorable until purged)
+ *
+ * Only the payer or the person who entered the expense may delete it.
  *
  * @param id - Expense ID (UUID)
  * @returns true if deleted, false on error
  */
 export async function deleteExpense(id: string): Promise<boolean> {
-  const { error } = await supabase.from('expenses').delete().eq('id', id)
+  const { error } = await supabase.rpc('soft_delete_expense', { p_expense_id: id })
 
   if (error) {
     console.error('[expense.service] deleteExpense error:', error)
@@ -121,3 +434,41 @@ export async function deleteExpense(id: string): Promise<boolean> {
 
   return true
 }
+
+/**
+ * Restore an expense from the trash
+ *
+ * @param id - Expense ID (UUID)
+ * @returns true if restored, false on error
+ */
+export async function restoreExpense(id: string): Promise<boolean> {
+  const { error } = await supabase.rpc('restore_expense', { p_expense_id: id })
+
+  if (error) {
+    console.error('[expense.service] restoreExpense error:', error)
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Permanently delete an expense that is already in the trash
+ *
+ * @param id - Expense ID (UUID)
+ * @returns true if purged, false on error
+ */
+export async function purgeExpense(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('expenses')
+    .delete()
+    .eq('id', id)
+    .not('deleted_at', 'is', null)
+
+  if (error) {
+    console.error('[expense.service] purgeExpense error:', error)
+    return false
+  }
+
+  return true
+}
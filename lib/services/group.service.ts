@@ -1,7 +1,7 @@
 /**
  * group.service.ts - Supabase groups CRUD and membership
  *
- * Purpose: Load user's groups, create group, join by code
+ * Purpose: Load user's groups, create group, join by code, room settings, member roles
  * Responsibilities: Call RPCs; map DB response to domain Group
  * Dependencies: lib/supabase/client, lib/types/expense.types
  *
@@ -12,17 +12,26 @@
  * const groups = await loadUserGroups()
  * const group = await createGroup('My Room')
  * const group = await joinGroupByCode('ABC123')
+ * await promoteMember(group.id, 'user-2')
  * ```
  */
 
 import { supabase } from '@/lib/supabase/client'
-import type { Group, User } from '@/lib/types/expense.types'
+import type {
+  FormerMember,
+  Group,
+  GroupMember,
+  GroupRole,
+  RemainderPolicy,
+  User,
+} from '@/lib/types/expense.types'
 
 /** Raw member shape from RPC JSON */
 interface RawMember {
   id?: string
   name?: string
   email?: string
+  role?: string
 }
 
 /** Maps RPC member row to User */
@@ -34,16 +43,49 @@ function toUser(m: RawMember): User {
   }
 }
 
+/** Maps RPC member row to GroupMember (role defaults to member) */
+function toGroupMember(m: RawMember): GroupMember {
+  const role: GroupRole = m.role === 'owner' || m.role === 'admin' ? m.role : 'member'
+  return { ...toUser(m), role }
+}
+
+/** Raw former member shape from RPC JSON */
+interface RawFormerMember extends RawMember {
+  leftAt?: string
+}
+
+/** Maps RPC former member row to FormerMember */
+function toFormerMember(m: RawFormerMember): FormerMember {
+  return {
+    ...toUser(m),
+    leftAt: m.leftAt ? new Date(m.leftAt) : new Date(0),
+  }
+}
+
+/** Raw group shape from RPC JSON */
+interface RawGroup {
+  id: string
+  name: string
+  code: string
+  createdBy?: string
+  remainderPolicy?: string
+  members?: unknown
+  formerMembers?: unknown
+}
+
 /** Maps RPC group object to Group */
-function toGroup(g: { id: string; name: string; code: string; createdBy?: string; members?: unknown }): Group {
+function toGroup(g: RawGroup): Group {
   const raw = Array.isArray(g.members) ? g.members : []
-  const members = raw.map((m) => toUser(m as RawMember))
+  const members = raw.map((m) => toGroupMember(m as RawMember))
+  const rawFormer = Array.isArray(g.formerMembers) ? g.formerMembers : []
   return {
     id: String(g.id),
     name: g.name,
     code: g.code,
     createdBy: g.createdBy ? String(g.createdBy) : undefined,
+    remainderPolicy: (g.remainderPolicy as RemainderPolicy | undefined) ?? 'round_robin',
     members,
+    formerMembers: rawFormer.map((m) => toFormerMember(m as RawFormerMember)),
   }
 }
 
@@ -72,7 +114,7 @@ export async function loadUserGroups(): Promise<Group[]> {
   }
   // RPC returns [] when user has no groups, or null; normalize to array
   const arr = Array.isArray(data) ? data : data != null ? [data] : []
-  return arr.map((g: { id: string; name: string; code: string; createdBy?: string; members?: unknown[] }) => toGroup(g))
+  return arr.map((g: RawGroup) => toGroup(g))
 }
 
 /**
@@ -110,19 +152,26 @@ export async function joinGroupByCode(code: string): Promise<Group | null> {
 }
 
 /**
- * Remove a member from a group. Caller must be the room creator (admin) or the member themselves (leave).
+ * Remove a member from a group, or leave it (memberUserId = self).
+ *
+ * Admins remove members; the owner removes admins too. The owner can't leave while others remain
+ * (hand over ownership first). Refused while the member's balance is not zero, unless an admin
+ * acknowledges it.
  *
  * @param groupId - Group id
- * @param memberUserId - User id to remove (must be self or caller must be creator)
- * @returns true if removed, false on error
+ * @param memberUserId - User id to remove
+ * @param acknowledgeBalance - Owner / admin only: remove even though they still owe / are owed money
+ * @returns true if removed, false on error (including an unsettled balance)
  */
 export async function removeMemberFromRoom(
   groupId: string,
-  memberUserId: string
+  memberUserId: string,
+  acknowledgeBalance = false
 ): Promise<boolean> {
   const { error } = await supabase.rpc('remove_member_from_group', {
     p_group_id: groupId,
     p_member_user_id: memberUserId,
+    p_acknowledge_balance: acknowledgeBalance,
   })
   if (error) {
     console.error('[group.service] removeMemberFromRoom error:', error)
@@ -132,7 +181,7 @@ export async function removeMemberFromRoom(
 }
 
 /**
- * Leave the current room (remove current user from group).
+ * Leave the current room (remove current user from group). Only allowed once settled up.
  *
  * @param groupId - Group id
  * @returns true if left, false on error
@@ -143,3 +192,79 @@ export async function leaveRoom(groupId: string): Promise<boolean> {
   if (!userId) return false
   return removeMemberFromRoom(groupId, userId)
 }
+
+/**
+ * Set who owes leftover paise in equal splits. Caller must be the owner or an admin.
+ *
+ * @param groupId - Group id
+ * @param policy - round_robin | payer | random
+ * @returns true if saved, false on error
+ */
+export async function setRemainderPolicy(
+  groupId: string,
+  policy: RemainderPolicy
+): Promise<boolean> {
+  const { error } = await supabase.rpc('set_remainder_policy', {
+    p_group_id: groupId,
+    p_policy: policy,
+  })
+  if (error) {
+    console.error('[group.service] setRemainderPolicy error:', error)
+    return false
+  }
+  return true
+}
+
+/**
+ * Make a member an admin. Caller must be the owner or an admin.
+ *
+ * @param groupId - Group id
+ * @param memberUserId - Member to promote (no-op if already admin or owner)
+ * @throws Error with the server's reason when refused
+ */
+export async function promoteMember(groupId: string, memberUserId: string): Promise<void> {
+  const { error } = await supabase.rpc('promote_member', {
+    p_group_id: groupId,
+    p_member_user_id: memberUserId,
+  })
+  if (error) {
+    console.error('[group.service] promoteMember error:', error)
+    throw new Error(error.message ?? 'Failed to make admin')
+  }
+}
+
+/**
+ * Turn an admin back into a member. Caller must be the owner, or the admin themselves (step down).
+ *
+ * @param groupId - Group id
+ * @param memberUserId - Admin to demote
+ * @throws Error with the server's reason when refused
+ */
+export async function demoteMember(groupId: string, memberUserId: string): Promise<void> {
+  const { error } = await supabase.rpc('demote_member', {
+    p_group_id: groupId,
+    p_member_user_id: memberUserId,
+  })
+  if (error) {
+    console.error('[group.service] demoteMember error:', error)
+    throw new Error(error.message ?? 'Failed to remove admin')
+  }
+}
+
+/**
+ * Hand the room to another member. Caller must be the owner; they stay on as an admin.
+ *
+ * @param groupId - Group id
+ * @param newOwnerId - Member who becomes the owner
+ * @throws Error with the server's reason when refused
+ */
+export async function transferOwnership(groupId: string, newOwnerId: string): Promise<void> {
+  const { error } = await supabase.rpc('transfer_group_ownership', {
+    p_group_id: groupId,
+    p_new_owner_id: newOwnerId,
+  })
+  if (error) {
+    console.error('[group.service] transferOwnership error:', error)
+    throw new Error(error.message ?? 'Failed to transfer ownership')
+  }
+}
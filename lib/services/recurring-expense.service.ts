@@ -0,0 +1,175 @@
+/**
+ * recurring-expense.service.ts - Supabase persistence for recurring expense templates
+ *
+ * Purpose: Create, list, pause/resume and delete templates (rent, Wi-Fi, maid)
+ * Responsibilities: Map domain RecurringExpense ↔ DB row
+ * Dependencies: lib/supabase/client, lib/types/expense.types, lib/utils/money,
+ *   expense.service (JSONB mappers)
+ *
+ * Instances are posted by the /api/cron route (post_due_recurring_expenses), not from here.
+ *
+ * @example
+ * ```ts
+ * const templates = await loadRecurringExpenses(roomId)
+ * const template = await createRecurringExpense(roomId, input)
+ * await setRecurringExpenseActive(template.id, false)
+ * ```
+ */
+
+import { supabase } from '@/lib/supabase/client'
+import { fromDateKey, toDateKey } from '@/lib/utils/date-keys'
+import { fromRupees, toRupees } from '@/lib/utils/money'
+import {
+  payersToRow,
+  rowToPayers,
+  rowToSplits,
+  splitsToRow,
+} from '@/lib/services/expense.service'
+import type {
+  CreateRecurringExpenseInput,
+  ExpenseCategory,
+  RecurringExpense,
+  RecurringFrequency,
+  User,
+} from '@/lib/types/expense.types'
+
+/** DB row shape (snake_case) */
+interface RecurringExpenseRow {
+  id: string
+  group_id: string
+  title: string
+  amount: number | string
+  category: string
+  paid_by: unknown
+  payers: unknown
+  split_type: string
+  splits: unknown
+  frequency: string
+  day_of_month: number
+  start_date: string
+  end_date: string | null
+  next_due_on: string
+  active: boolean
+  last_error: string | null
+  created_by: string
+}
+
+function rowToRecurringExpense(row: RecurringExpenseRow): RecurringExpense {
+  return {
+    id: row.id,
+    title: row.title,
+    amount: fromRupees(row.amount),
+    category: row.category as ExpenseCategory,
+    paidBy: row.paid_by as User,
+    payers: rowToPayers(row.payers),
+    splitType: row.split_type as RecurringExpense['splitType'],
+    splits: rowToSplits(row.splits),
+    frequency: row.frequency as RecurringFrequency,
+    dayOfMonth: row.day_of_month,
+    startDate: fromDateKey(row.start_date),
+    endDate: row.end_date ? fromDateKey(row.end_date) : undefined,
+    nextDueOn: fromDateKey(row.next_due_on),
+    active: row.active,
+    lastError: row.last_error ?? undefined,
+    createdBy: row.created_by,
+  }
+}
+
+/**
+ * Load all recurring templates for a group
+ *
+ * @param groupId - Room/group ID
+ * @returns Templates, next due first
+ */
+export async function loadRecurringExpenses(groupId: string): Promise<RecurringExpense[]> {
+  const { data } = await supabase
+    .from('recurring_expenses')
+    .select('*')
+    .eq('group_id', groupId)
+    .order('next_due_on', { ascending: true })
+    .throwOnError()
+
+  return (data ?? []).map((row) => rowToRecurringExpense(row as RecurringExpenseRow))
+}
+
+/**
+ * Create a recurring template
+ *
+ * create_recurring_expense checks the caller, payer, payers and participants are room members and
+ * the payments / splits add up to the amount in whole paise, like create_expense.
+ *
+ * @param groupId - Room/group ID
+ * @param input - Template (validated by caller too); nextDueOn is the first instance the job will post
+ * @returns Created RecurringExpense
+ * @throws If the template is rejected or can't be reloaded
+ */
+export async function createRecurringExpense(
+  groupId: string,
+  input: CreateRecurringExpenseInput
+): Promise<RecurringExpense> {
+  const { data: id } = await supabase
+    .rpc('create_recurring_expense', {
+      p_group_id: groupId,
+      p_template: {
+        title: input.title,
+        amount: toRupees(input.amount),
+        category: input.category,
+        paid_by: input.paidBy,
+        payers: payersToRow(input.payers),
+        split_type: input.splitType,
+        splits: splitsToRow(input.splits),
+        frequency: input.frequency,
+        day_of_month: input.dayOfMonth,
+        start_date: toDateKey(input.startDate),
+        end_date: input.endDate ? toDateKey(input.endDate) : null,
+        next_due_on: toDateKey(input.nextDueOn),
+      },
+    })
+    .throwOnError()
+
+  const { data } = await supabase
+    .from('recurring_expenses')
+    .select('*')
+    .eq('id', id as string)
+    .single()
+    .throwOnError()
+
+  return rowToRecurringExpense(data as RecurringExpenseRow)
+}
+
+/**
+ * Pause or resume a template (resuming clears the reason it was paused)
+ *
+ * Only whoever set it up, the payer or the room admin (set_recurring_expense_active RPC).
+ *
+ * @returns true if updated, false on error
+ */
+export async function setRecurringExpenseActive(id: string, active: boolean): Promise<boolean> {
+  const { error } = await supabase.rpc('set_recurring_expense_active', {
+    p_recurring_expense_id: id,
+    p_active: active,
+  })
+
+  if (error) {
+    console.error('[recurring-expense.service] setRecurringExpenseActive error:', error)
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Delete a template (already-posted expenses stay, untagged)
+ *
+ * @returns true if deleted, false on error
+ */
+export async function deleteRecurringExpense(id: string): Promise<boolean> {
+  const { error } = await supabase.from('recurring_expenses').delete().eq('id', id)
+
+  if (error) {
+    console.error('[recurring-expense.service] deleteRecurringExpense error:', error)
+    return false
+  }
+
+  return true
+}
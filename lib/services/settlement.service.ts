@@ -0,0 +1,103 @@
+/**
+ * settlement.service.ts - Supabase persistence for settlements
+ *
+ * Purpose: Record repayments between members; load a room's settlement history
+ * Responsibilities: Map domain Settlement ↔ DB row
+ * Dependencies: lib/supabase/client, lib/types/expense.types, lib/utils/money
+ *
+ * Data flow: AppContext calls these functions → Supabase → AppContext updates state
+ *
+ * @example
+ * ```ts
+ * const settlements = await loadSettlements(roomId)
+ * const created = await createSettlement(roomId, input)
+ * ```
+ */
+
+import { supabase } from '@/lib/supabase/client'
+import { fromRupees, toRupees } from '@/lib/utils/money'
+import type {
+  Settlement,
+  CreateSettlementInput,
+  SettlementMethod,
+} from '@/lib/types/expense.types'
+
+/** DB row shape (snake_case) */
+interface SettlementRow {
+  id: string
+  group_id: string
+  from_user_id: string
+  to_user_id: string
+  amount: number | string
+  settled_at: string
+  method: string
+  note: string | null
+  /** Null once the person who recorded it deleted their account */
+  created_by: string | null
+  created_at: string
+}
+
+/** Maps DB row → domain Settlement (rupees → paise) */
+function rowToSettlement(row: SettlementRow): Settlement {
+  return {
+    id: row.id,
+    fromUserId: row.from_user_id,
+    toUserId: row.to_user_id,
+    amount: fromRupees(row.amount),
+    settledAt: new Date(row.settled_at),
+    method: row.method as SettlementMethod,
+    note: row.note ?? undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+  }
+}
+
+/**
+ * Load all settlements for a group from Supabase
+ *
+ * @param groupId - Room/group ID to filter by
+ * @returns Array of Settlement (newest first)
+ */
+export async function loadSettlements(groupId: string): Promise<Settlement[]> {
+  const { data } = await supabase
+    .from('settlements')
+    .select('*')
+    .eq('group_id', groupId)
+    .order('settled_at', { ascending: false })
+    .throwOnError()
+
+  return (data ?? []).map((row) => rowToSettlement(row as SettlementRow))
+}
+
+/**
+ * Record a settlement in Supabase
+ *
+ * RLS only accepts rows where the caller is the payer or the receiver.
+ *
+ * @param groupId - Room/group ID
+ * @param input - Settlement input (validated by caller)
+ * @returns Created Settlement
+ */
+export async function createSettlement(
+  groupId: string,
+  input: CreateSettlementInput
+): Promise<Settlement> {
+  const row = {
+    group_id: groupId,
+    from_user_id: input.fromUserId,
+    to_user_id: input.toUserId,
+    amount: toRupees(input.amount),
+    settled_at: input.settledAt.toISOString(),
+    method: input.method,
+    note: input.note?.trim() || null,
+  }
+
+  const { data } = await supabase
+    .from('settlements')
+    .insert(row)
+    .select()
+    .single()
+    .throwOnError()
+
+  return rowToSettlement(data as SettlementRow)
+}
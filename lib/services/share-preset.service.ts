@@ -0,0 +1,100 @@
+/**
+ * share-preset.service.ts - Supabase persistence for shares-split presets
+ *
+ * Purpose: Save and load room-level default weights (e.g. rent by room size)
+ * Responsibilities: Map domain SharePreset ↔ DB row
+ * Dependencies: lib/supabase/client, lib/types/expense.types
+ *
+ * @example
+ * ```ts
+ * const presets = await loadSharePresets(roomId)
+ * const saved = await saveSharePreset(roomId, 'Rent', { 'user-1': 2, 'user-2': 1.5 })
+ * ```
+ */
+
+import { supabase } from '@/lib/supabase/client'
+import type { SharePreset } from '@/lib/types/expense.types'
+
+/** DB row shape (snake_case) */
+interface SharePresetRow {
+  id: string
+  group_id: string
+  name: string
+  weights: unknown
+}
+
+/** Maps DB row → domain SharePreset. Drops non-numeric and non-positive weights. */
+function rowToPreset(row: SharePresetRow): SharePreset {
+  const raw = (row.weights ?? {}) as Record<string, unknown>
+  const weights: Record<string, number> = {}
+  Object.entries(raw).forEach(([userId, w]) => {
+    const n = Number(w)
+    if (Number.isFinite(n) && n > 0) weights[userId] = n
+  })
+  return { id: row.id, name: row.name, weights }
+}
+
+/**
+ * Load all share presets for a group
+ *
+ * @param groupId - Room/group ID
+ * @returns Presets sorted by name
+ */
+export async function loadSharePresets(groupId: string): Promise<SharePreset[]> {
+  const { data } = await supabase
+    .from('share_presets')
+    .select('id, group_id, name, weights')
+    .eq('group_id', groupId)
+    .order('name', { ascending: true })
+    .throwOnError()
+
+  return (data ?? []).map((row) => rowToPreset(row as SharePresetRow))
+}
+
+/**
+ * Save (create or overwrite by name) a share preset for a group
+ *
+ * @param groupId - Room/group ID
+ * @param name - Preset name, unique within the room
+ * @param weights - userId → weight
+ * @returns Saved SharePreset
+ */
+export async function saveSharePreset(
+  groupId: string,
+  name: string,
+  weights: Record<string, number>
+): Promise<SharePreset> {
+  const { data } = await supabase
+    .from('share_presets')
+    .upsert(
+      {
+        group_id: groupId,
+        name: name.trim(),
+        weights,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'group_id,name' }
+    )
+    .select('id, group_id, name, weights')
+    .single()
+    .throwOnError()
+
+  return rowToPreset(data as SharePresetRow)
+}
+
+/**
+ * Delete a share preset
+ *
+ * @param id - Preset ID
+ * @returns true if deleted, false on error
+ */
+export async function deleteSharePreset(id: string): Promise<boolean> {
+  const { error } = await supabase.from('share_presets').delete().eq('id', id)
+
+  if (error) {
+    console.error('[share-preset.service] deleteSharePreset error:', error)
+    return false
+  }
+
+  return true
+}
@@ -1,24 +1,34 @@
 /**
  * expense.types.ts - Domain types for expense tracking (PRD-aligned)
  *
- * Purpose: Define Expense, Split, User, Group, and Balance types per PRD Section 5
+ * Purpose: Define Expense, Split, User, Group, Settlement, and Balance types per PRD Section 5
  * Responsibilities: Type safety, PRD data model compliance
  * Dependencies: None (pure types)
  *
+ * Every amount is Money (integer paise); build values with lib/utils/money.
+ *
  * @example
  * ```ts
  * const expense: Expense = {
  *   id: '1',
  *   title: 'Groceries',
- *   amount: 100,
+ *   amount: fromRupees(100), // 10000 paise
  *   paidBy: 'user-1',
  *   splitType: 'equal',
- *   splits: [{ userId: 'user-2', amount: 50 }],
+ *   splits: [{ userId: 'user-2', amount: fromRupees(50) }],
+ *   expenseDate: new Date(),
  *   createdAt: new Date()
  * }
  * ```
  */
 
+/**
+ * Money - An amount in integer paise (₹1 = 100 paise).
+ *
+ * Branded so a rupee float can't be passed where paise are expected; sums of Money are exact.
+ */
+export type Money = number & { readonly __unit: 'paise' }
+
 /** PRD Model 1: User - id, name, createdAt */
 export interface User {
   id: string
@@ -27,16 +37,46 @@ export interface User {
   createdAt?: Date
 }
 
-/** PRD Model 3: Group - id, name, members, createdBy (admin) */
+/** Someone who left (or was removed from) a room; kept so their history still shows their name */
+export interface FormerMember extends User {
+  leftAt: Date
+}
+
+/**
+ * GroupRole - What a member may manage in a room
+ * - owner: one per room; everything an admin can do, plus managing admins and handing over the room
+ * - admin: remove members, edit any expense, change room settings
+ * - member: their own expenses only
+ */
+export type GroupRole = 'owner' | 'admin' | 'member'
+
+/** A current room member and their role */
+export interface GroupMember extends User {
+  role: GroupRole
+}
+
+/** PRD Model 3: Group - id, name, members, createdBy (owner) */
 export interface Group {
   id: string
   name: string
   code: string
-  members: User[]
-  /** User id of the room creator (admin). Only admin can remove members. */
+  members: GroupMember[]
+  /** User id of the room owner (the creator until ownership is handed over) */
   createdBy?: string
+  /** Who gets leftover paise in equal splits (admin setting; round_robin when not loaded) */
+  remainderPolicy?: RemainderPolicy
+  /** People who left and have not rejoined (for names in history) */
+  formerMembers?: FormerMember[]
 }
 
+/**
+ * RemainderPolicy - Who owes the leftover paise when an equal split doesn't divide evenly
+ * - round_robin: members who have received the fewest extra paise so far (from stored splits)
+ * - payer: the payer absorbs all of it
+ * - random: a shuffle seeded by the expense id
+ */
+export type RemainderPolicy = 'round_robin' | 'payer' | 'random'
+
 /**
  * Split - One person's share of an expense.
  * PRD: "splits (array of userId + amount)"
@@ -46,34 +86,103 @@ export interface Group {
  */
 export interface Split {
   userId: string
-  amount: number
+  amount: Money
+  /** Percentage split only: this user's share in percent (all splits total 100) */
+  percentage?: number
+  /** Shares split only: this user's weight (e.g. 2 of 2:1.5:1) */
+  shares?: number
+}
+
+/**
+ * Payment - How much one payer put toward an expense.
+ *
+ * Multi-payer expenses list every payer; amounts sum to expense.amount.
+ */
+export interface Payment {
+  userId: string
+  amount: Money
 }
 
 /**
  * SplitType - How the expense is divided.
- * PRD enum: equal | custom
+ * PRD enum: equal | custom, plus percentage (amounts derived from each share in %)
+ * and shares (amounts proportional to per-member weights)
+ * and itemized (amounts derived from receipt line items plus charges)
  */
-export type SplitType = 'equal' | 'custom'
+export type SplitType = 'equal' | 'custom' | 'percentage' | 'shares' | 'itemized'
+
+/**
+ * LineItem - One receipt line in an itemized expense.
+ *
+ * The item amount is shared equally by its participants.
+ */
+export interface LineItem {
+  name: string
+  amount: Money
+  participantIds: string[]
+}
+
+/**
+ * ItemizedCharges - Bill-level extras on an itemized expense.
+ *
+ * Each charge is spread over people in proportion to their item subtotal.
+ */
+export interface ItemizedCharges {
+  tax: Money
+  serviceCharge: Money
+  tip: Money
+}
+
+/** Built-in expense categories ('other' for anything else, and for expenses added before categories) */
+export type ExpenseCategory =
+  | 'rent'
+  | 'utilities'
+  | 'groceries'
+  | 'food'
+  | 'travel'
+  | 'household'
+  | 'other'
 
 /**
  * Expense - PRD Model 2
  *
  * Fields:
- * - id, title, amount, paidBy (userId), splitType, splits, createdAt
+ * - id, title, amount, paidBy (userId), category, splitType, splits, expenseDate, createdAt
+ * - expenseDate is when it happened; createdAt is when it was logged
  *
  * Balance semantics:
- * - paidBy paid the full amount
+ * - paidBy paid the full amount (single payer), or
+ * - payers[] each paid their amount (multi-payer; paidBy is the primary payer)
  * - splits define who owes what (each split.userId owes split.amount)
  * - Sum(splits[].amount) must equal amount
+ * - Itemized: amount = sum(items) + charges, splits derived from items
  */
 export interface Expense {
   id: string
   title: string
-  amount: number
+  amount: Money
   paidBy: User
+  /** Multi-payer only: every payer and what they paid (sums to amount). Absent = paidBy paid it all. */
+  payers?: Payment[]
+  /** User id of whoever logged the expense (may differ from paidBy); set server-side */
+  enteredBy?: string
+  /** Calendar day the expense happened (local midnight); may be earlier than createdAt */
+  expenseDate: Date
+  category: ExpenseCategory
   splitType: SplitType
   splits: Split[]
+  /** Itemized split only: receipt lines the splits were derived from */
+  items?: LineItem[]
+  /** Itemized split only: tax / service charge / tip on top of items */
+  charges?: ItemizedCharges
   createdAt: Date
+  /** Last edit time; absent if never edited */
+  updatedAt?: Date
+  /** Trash only: when and by whom the expense was deleted */
+  deletedAt?: Date
+  deletedBy?: string
+  /** Set when the expense was posted from a recurring template */
+  recurringExpenseId?: string
 }
 
 /**
@@ -84,7 +193,194 @@ export interface Expense {
  * - Negative: user owes money
  * - Zero: settled
  */
-export type Balances = Record<string, number>
+export type Balances = Record<string, Money>
+
+/**
+ * SettlementTransfer - One suggested payment in a settle-up plan.
+ *
+ * fromUserId pays toUserId this amount. Applying every transfer in a plan
+ * brings all balances to zero.
+ */
+export interface SettlementTransfer {
+  fromUserId: string
+  toUserId: string
+  amount: Money
+}
+
+/**
+ * SharePreset - Saved per-member weights for shares splits (room-level default).
+ *
+ * weights[userId] = that member's weight; members missing from the map get 0.
+ */
+export interface SharePreset {
+  id: string
+  name: string
+  weights: Record<string, number>
+}
+
+/**
+ * SettlementMethod - How a settlement payment was made.
+ */
+export type SettlementMethod = 'cash' | 'upi' | 'bank_transfer' | 'other'
+
+/**
+ * Settlement - A recorded repayment between two members.
+ *
+ * Balance semantics:
+ * - fromUserId paid toUserId the amount outside the app
+ * - fromUserId's balance goes up by amount (they owe less / are owed more)
+ * - toUserId's balance goes down by amount
+ * - Expenses are never deleted to settle up; history stays intact
+ */
+export interface Settlement {
+  id: string
+  fromUserId: string
+  toUserId: string
+  amount: Money
+  /** When the payment happened */
+  settledAt: Date
+  method: SettlementMethod
+  note?: string
+  /** User who recorded the settlement */
+  createdBy?: string
+  createdAt: Date
+}
+
+/** Input for recording a settlement (id, createdBy and createdAt are generated) */
+export type CreateSettlementInput = Omit<Settlement, 'id' | 'createdBy' | 'createdAt'>
+
+/**
+ * Input for creating an expense (enteredBy and createdAt are generated).
+ * id is generated too unless the client picked one (it seeds the random remainder policy).
+ */
+export type CreateExpenseInput = Omit<
+  Expense,
+  'id' | 'enteredBy' | 'createdAt' | 'updatedAt' | 'deletedAt' | 'deletedBy'
+> & { id?: string }
+
+/** Expense fields an edit can change (same shape as a create, minus the id) */
+export type UpdateExpenseInput = Omit<CreateExpenseInput, 'id'>
+
+/** Why the database rejected an expense create / edit (create_expense / update_expense RPCs) */
+export type ExpenseWriteErrorCode =
+  | 'not_authenticated'
+  | 'not_member'
+  | 'not_found'
+  | 'not_allowed'
+  | 'invalid_title'
+  | 'invalid_amount'
+  | 'invalid_split_type'
+  | 'invalid_payers'
+  | 'invalid_splits'
+  | 'invalid_items'
+  | 'payer_not_member'
+  | 'participant_not_member'
+  | 'payer_total_mismatch'
+  | 'split_total_mismatch'
+  | 'items_total_mismatch'
+  | 'unknown'
+
+/** A rejected expense write: code for the app, message for the user */
+export interface ExpenseWriteError {
+  code: ExpenseWriteErrorCode
+  message: string
+}
+
+/** Which part of an expense an edit touched */
+export type ExpenseRevisionField =
+  | 'title'
+  | 'amount'
+  | 'expense_date'
+  | 'category'
+  | 'paid_by'
+  | 'splits'
+
+/**
+ * ExpenseRevision - One edit of an expense (audit history)
+ *
+ * previous is the expense as it was before this edit; the current version is the expense itself.
+ */
+export interface ExpenseRevision {
+  id: string
+  expenseId: string
+  /** User who made the edit */
+  revisedBy?: string
+  revisedAt: Date
+  changedFields: ExpenseRevisionField[]
+  previous: Expense
+}
+
+/**
+ * When a budget's leftover (or overspend) stops carrying into the next month
+ * - monthly: every month starts fresh (no carry-over)
+ * - quarterly / yearly: carries within the calendar quarter / year
+ * - never: always carries
+ */
+export type BudgetResetSchedule = 'monthly' | 'quarterly' | 'yearly' | 'never'
+
+/**
+ * CategoryBudget - Room-level monthly cap for one category
+ *
+ * Applies from startsOn (first day of a month) until a later budget for the same
+ * category replaces it. amount 0 means no budget from that month on.
+ */
+export interface CategoryBudget {
+  id: string
+  category: ExpenseCategory
+  /** Monthly cap (0 = no budget) */
+  amount: Money
+  startsOn: Date
+  resetSchedule: BudgetResetSchedule
+}
+
+/** Percent-of-budget levels that raise a warning */
+export type BudgetAlertThreshold = 80 | 100
+
+/** A threshold a category crossed in a month (stored once per room, category, month, threshold) */
+export interface BudgetAlert {
+  id: string
+  category: ExpenseCategory
+  /** 'YYYY-MM' */
+  monthKey: string
+  threshold: BudgetAlertThreshold
+  createdBy?: string
+  createdAt: Date
+}
+
+/** How often a recurring expense repeats */
+export type RecurringFrequency = 'monthly' | 'quarterly' | 'yearly'
+
+/**
+ * RecurringExpense - Template that posts the same expense on a schedule (rent, Wi-Fi, maid)
+ *
+ * Posted instances are normal expenses tagged with recurringExpenseId.
+ * Equal splits are re-split for each instance, so the room's remainder policy applies.
+ * dayOfMonth past the end of a month falls on its last day (31 → Feb 28/29).
+ */
+export interface RecurringExpense {
+  id: string
+  title: string
+  amount: Money
+  category: ExpenseCategory
+  paidBy: User
+  payers?: Payment[]
+  splitType: Exclude<SplitType, 'itemized'>
+  splits: Split[]
+  frequency: RecurringFrequency
+  dayOfMonth: number
+  startDate: Date
+  /** Last day an instance may fall on; absent = repeats until paused or deleted */
+  endDate?: Date
+  /** Next instance to post */
+  nextDueOn: Date
+  active: boolean
+  /** Why posting paused this template, if it did */
+  lastError?: string
+  createdBy?: string
+}
 
-/** Input for creating an expense (id and createdAt are generated) */
-export type CreateExpenseInput = Omit<Expense, 'id' | 'createdAt'>
+/** Input for creating a template (id, active, lastError and createdBy are generated) */
+export type CreateRecurringExpenseInput = Omit<
+  RecurringExpense,
+  'id' | 'active' | 'lastError' | 'createdBy'
+>
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { Expense, Settlement } from '@/lib/types/expense.types'
+import { calculateBalances, findUnbalancedExpenses } from '@/lib/utils/balance-calculator'
+import { paise, sumMoney } from '@/lib/utils/money'
+
+const alice = { id: 'alice', name: 'Alice' }
+const bob = { id: 'bob', name: 'Bob' }
+const carol = { id: 'carol', name: 'Carol' }
+
+function expense(overrides: Partial<Expense> & Pick<Expense, 'id' | 'amount' | 'splits'>): Expense {
+  return {
+    title: 'Groceries',
+    paidBy: alice,
+    expenseDate: new Date(2025, 0, 15),
+    category: 'groceries',
+    splitType: 'custom',
+    createdAt: new Date(2025, 0, 15),
+    ...overrides,
+  }
+}
+
+describe('calculateBalances', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('nets to zero for balanced expenses and settlements', () => {
+    const expenses = [
+      expense({
+        id: 'e1',
+        amount: paise(10000),
+        splits: [
+          { userId: 'alice', amount: paise(3334) },
+          { userId: 'bob', amount: paise(3333) },
+          { userId: 'carol', amount: paise(3333) },
+        ],
+      }),
+    ]
+    const settlements: Settlement[] = [
+      {
+        id: 's1',
+        fromUserId: 'bob',
+        toUserId: 'alice',
+        amount: paise(3333),
+        settledAt: new Date(2025, 0, 16),
+        method: 'upi',
+        createdAt: new Date(2025, 0, 16),
+      },
+    ]
+
+    const balances = calculateBalances(expenses, ['alice', 'bob', 'carol'], settlements)
+
+    expect(balances).toEqual({ alice: 3333, bob: 0, carol: -3333 })
+    expect(sumMoney(Object.values(balances))).toBe(0)
+  })
+
+  it('warns instead of throwing when a legacy expense does not add up', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const expenses = [
+      // ₹100 split as 3 × ₹33.33: a paisa short
+      expense({
+        id: 'legacy',
+        amount: paise(10000),
+        splits: [
+          { userId: 'alice', amount: paise(3333) },
+          { userId: 'bob', amount: paise(3333) },
+          { userId: 'carol', amount: paise(3333) },
+        ],
+      }),
+      expense({
+        id: 'ok',
+        amount: paise(600),
+        paidBy: bob,
+        splits: [
+          { userId: 'alice', amount: paise(300) },
+          { userId: 'bob', amount: paise(300) },
+        ],
+      }),
+    ]
+
+    const balances = calculateBalances(expenses, ['alice', 'bob', 'carol'])
+
+    expect(balances).toEqual({ alice: 6367, bob: -3033, carol: -3333 })
+    expect(warn).toHaveBeenCalledTimes(1)
+    expect(warn.mock.calls[0][1]).toEqual([{ expenseId: 'legacy', difference: 1 }])
+  })
+})
+
+describe('findUnbalancedExpenses', () => {
+  it('reports paid minus owed for multi-payer expenses', () => {
+    const expenses = [
+      expense({
+        id: 'over',
+        amount: paise(5000),
+        payers: [
+          { userId: 'alice', amount: paise(2000) },
+          { userId: 'carol', amount: paise(3000) },
+        ],
+        splits: [
+          { userId: 'alice', amount: paise(2500) },
+          { userId: 'bob', amount: paise(2600) },
+        ],
+      }),
+    ]
+
+    expect(findUnbalancedExpenses(expenses)).toEqual([{ expenseId: 'over', difference: -100 }])
+  })
+
+  it('skips balanced expenses and expenses without a payer', () => {
+    const expenses = [
+      expense({
+        id: 'balanced',
+        amount: paise(200),
+        splits: [
+          { userId: 'alice', amount: paise(100) },
+          { userId: 'carol', amount: paise(100) },
+        ],
+      }),
+      expense({ id: 'no-payer', amount: paise(200), paidBy: { ...carol, id: '' }, splits: [] }),
+    ]
+
+    expect(findUnbalancedExpenses(expenses)).toEqual([])
+  })
+})
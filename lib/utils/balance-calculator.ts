@@ -1,150 +1,527 @@
 /**
  * balance-calculator.ts - Net balance calculation (PRD Rule 2)
  *
- * Purpose: Compute who owes whom from expenses
- * Responsibilities: Equal split, custom split, correct payer handling
- * Dependencies: lib/types/expense.types
+ * Purpose: Compute who owes whom from expenses and recorded settlements
+ * Responsibilities: Equal split (with the room remainder policy), custom split, correct payer handling, settlements
+ * Dependencies: lib/types/expense.types, lib/utils/date-keys, lib/utils/money
+ *
+ * All amounts are Money (integer paise), so every sum below is exact.
  *
  * PRD Rule 2: "Balances are calculated as total paid minus total owed per user"
  *
  * Math:
- * - totalPaid[userId] = sum of expense.amount where expense.paidBy.id === userId
+ * - totalPaid[userId] = sum of what userId paid (expense.amount for single payer, their payers[] amount otherwise)
  * - totalOwed[userId] = sum of split.amount where split.userId === userId
  * - balance[userId] = totalPaid[userId] - totalOwed[userId]
+ * - Settlement from A to B: balance[A] += amount, balance[B] -= amount
  * - Positive balance = user is owed money (paid more than share)
  * - Negative balance = user owes money
+ * - Balances sum to exactly zero: each expense adds sum(payers) and removes sum(splits), both
+ *   equal to its amount (validation), and each settlement adds and removes the same amount.
+ *   calculateBalances checks this and logs the expenses that don't add up (findUnbalancedExpenses)
  *
  * @example
  * ```ts
- * const balances = calculateBalances(expenses, memberIds)
- * // { 'user-1': 50, 'user-2': -50 }
+ * const balances = calculateBalances(expenses, memberIds, settlements)
+ * // { 'user-1': 5000, 'user-2': -5000 } (paise)
+ * const endOfJanuary = calculateBalancesAsOf(expenses, memberIds, settlements, new Date(2025, 0, 31))
  * ```
  */
 
-import type { Expense, Balances, Split } from '@/lib/types/expense.types'
+import type {
+  Expense,
+  Balances,
+  ItemizedCharges,
+  LineItem,
+  Money,
+  Payment,
+  RemainderPolicy,
+  Settlement,
+  Split,
+} from '@/lib/types/expense.types'
+import { toDateKey } from '@/lib/utils/date-keys'
+import {
+  ZERO_MONEY,
+  addMoney,
+  allocateMoney,
+  negateMoney,
+  paise,
+  subtractMoney,
+  sumMoney,
+} from '@/lib/utils/money'
 
-/** Round to 2 decimals so breakdown and balances match display (avoids float drift from equal split). */
-function round2(n: number): number {
-  return Math.round(n * 100) / 100
+/** Room remainder policy plus what it needs to pick who owes the leftover paise */
+export interface RemainderOptions {
+  policy: RemainderPolicy
+  /** Who paid (payer policy) */
+  payerId?: string
+  /** Expense id (random policy seed) */
+  expenseId?: string
+  /** Extra paise received so far, from getRemainderTally (round-robin rotation state) */
+  tally?: Record<string, number>
+}
+
+/**
+ * Extra paise each member has owed from equal splits so far (the round-robin state).
+ *
+ * Read back from the stored splits, so the same expenses always give the same tally:
+ * a share above the smallest share of its expense counts as that many extra paise.
+ *
+ * @param expenses - Room expenses (leave out the one being edited)
+ * @returns userId → extra paise
+ */
+export function getRemainderTally(expenses: Expense[]): Record<string, number> {
+  const tally: Record<string, number> = {}
+  expenses.forEach((expense) => {
+    if (expense.splitType !== 'equal' || expense.splits.length === 0) return
+    const base = Math.min(...expense.splits.map((s) => s.amount))
+    expense.splits.forEach((split) => {
+      if (split.amount > base) tally[split.userId] = (tally[split.userId] ?? 0) + split.amount - base
+    })
+  })
+  return tally
+}
+
+/** 32-bit FNV-1a hash of a string (seed for the random policy) */
+function hashSeed(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/** Deterministic PRNG (mulberry32): same seed → same sequence in [0, 1) */
+function seededRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Extra paise per participant (by index) for an equal split's remainder.
+ *
+ * - No options: first participants in list order (one paisa each)
+ * - round_robin: fewest extra paise in the tally first, ties in list order
+ * - payer: the payer takes the whole remainder; round-robin if they are not splitting
+ * - random: Fisher-Yates shuffle seeded by the expense id; list order without one
+ */
+function distributeRemainder(
+  participantIds: string[],
+  remainder: number,
+  options?: RemainderOptions
+): number[] {
+  const extra = participantIds.map(() => 0)
+  if (remainder === 0) return extra
+
+  const payerIndex = options?.payerId ? participantIds.indexOf(options.payerId) : -1
+  if (options?.policy === 'payer' && payerIndex >= 0) {
+    extra[payerIndex] = remainder
+    return extra
+  }
+
+  let order = participantIds.map((_, i) => i)
+  if (options?.policy === 'random' && options.expenseId) {
+    const random = seededRandom(hashSeed(options.expenseId))
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1))
+      ;[order[i], order[j]] = [order[j], order[i]]
+    }
+  } else if (options && options.policy !== 'random') {
+    const tally = options.tally ?? {}
+    order = order.sort(
+      (a, b) => (tally[participantIds[a]] ?? 0) - (tally[participantIds[b]] ?? 0) || a - b
+    )
+  }
+  order.slice(0, remainder).forEach((i) => {
+    extra[i] = 1
+  })
+  return extra
 }
 
 /**
  * Builds equal splits for an expense (equal split mode)
  *
- * Each participant owes the same share. Uses integer cents and distributes
- * remainder so sum(splits) equals amount exactly (no floating-point drift).
+ * Each participant owes the same share in whole paise; the remainder is
+ * distributed so sum(splits) equals amount exactly.
+ * The room's remainder policy decides who owes the leftover paise.
  *
  * @param amount - Total expense amount
  * @param participantIds - User IDs who share the expense
+ * @param remainder - Remainder policy (omit for list order)
  * @returns Array of Split; sum of amounts equals total
  */
-export function buildEqualSplits(amount: number, participantIds: string[]): Split[] {
+export function buildEqualSplits(
+  amount: Money,
+  participantIds: string[],
+  remainder?: RemainderOptions
+): Split[] {
   const n = participantIds.length
   if (n === 0) return []
-  const totalCents = Math.round(amount * 100)
-  const shareCents = Math.floor(totalCents / n)
-  const remainder = totalCents - shareCents * n
-  return participantIds.map((userId, i) => {
-    const cents = shareCents + (i < remainder ? 1 : 0)
-    return { userId, amount: cents / 100 }
+  const share = Math.floor(amount / n)
+  const extra = distributeRemainder(participantIds, amount - share * n, remainder)
+  return participantIds.map((userId, i) => ({ userId, amount: paise(share + extra[i]) }))
+}
+
+/**
+ * Builds percentage splits for an expense (percentage split mode)
+ *
+ * Each participant owes their percentage of the amount, allocated in whole
+ * paise so sum(splits) equals amount exactly; leftover paise are assigned
+ * deterministically (largest fractional remainder, then participant order).
+ *
+ * @param amount - Total expense amount
+ * @param shares - userId + percentage per participant (percentages should total 100)
+ * @returns Array of Split with percentage kept alongside the computed amount
+ */
+export function buildPercentageSplits(
+  amount: Money,
+  shares: Array<{ userId: string; percentage: number }>
+): Split[] {
+  if (shares.length === 0) return []
+  // Percentages are weights out of 100; scale so a short total (e.g. 90%) is not stretched to 100%
+  const totalPercent = shares.reduce((acc, s) => acc + s.percentage, 0)
+  const allocated = paise(Math.round((amount * totalPercent) / 100))
+  const amounts = allocateMoney(allocated, shares.map((s) => s.percentage))
+  return shares.map((s, i) => ({
+    userId: s.userId,
+    amount: amounts[i],
+    percentage: s.percentage,
+  }))
+}
+
+/**
+ * Builds shares splits for an expense (shares split mode)
+ *
+ * Each participant owes amount × weight / totalWeight (e.g. rent by room size 2:1.5:1),
+ * allocated in whole paise so sum(splits) equals amount exactly.
+ * Participants with weight 0 are left out.
+ *
+ * @param amount - Total expense amount
+ * @param weights - userId + weight per participant
+ * @returns Array of Split with the weight kept alongside the computed amount
+ */
+export function buildShareSplits(
+  amount: Money,
+  weights: Array<{ userId: string; shares: number }>
+): Split[] {
+  const active = weights.filter((w) => w.shares > 0)
+  if (active.length === 0) return []
+  const amounts = allocateMoney(amount, active.map((w) => w.shares))
+  return active.map((w, i) => ({
+    userId: w.userId,
+    amount: amounts[i],
+    shares: w.shares,
+  }))
+}
+
+/**
+ * Builds itemized splits for an expense (itemized receipt mode)
+ *
+ * 1. Each item is shared equally by its participants (paisa-exact per item)
+ * 2. Tax + service charge + tip are spread in proportion to each person's item subtotal
+ * 3. amount = sum(items) + charges; sum(splits) equals amount exactly
+ *
+ * Participants appear in order of first appearance across items, which also
+ * decides who receives leftover paise on ties.
+ *
+ * @param items - Receipt lines with amount and participants
+ * @param charges - Tax / service charge / tip for the whole bill
+ * @returns Total amount and splits derived from the items
+ */
+export function buildItemizedSplits(
+  items: LineItem[],
+  charges: ItemizedCharges
+): { amount: Money; splits: Split[] } {
+  const subtotals = new Map<string, Money>()
+  items.forEach((item) => {
+    const participants = item.participantIds.filter((id, i, arr) => arr.indexOf(id) === i)
+    if (participants.length === 0) return
+    const shares = allocateMoney(item.amount, participants.map(() => 1))
+    participants.forEach((userId, i) => {
+      subtotals.set(userId, addMoney(subtotals.get(userId) ?? ZERO_MONEY, shares[i]))
+    })
   })
+
+  const userIds = Array.from(subtotals.keys())
+  const subtotalAmounts = userIds.map((id) => subtotals.get(id) ?? ZERO_MONEY)
+  const chargeTotal = sumMoney([charges.tax, charges.serviceCharge, charges.tip])
+  const chargeShares = allocateMoney(chargeTotal, subtotalAmounts)
+
+  const splits = userIds.map((userId, i) => ({
+    userId,
+    amount: addMoney(subtotalAmounts[i], chargeShares[i]),
+  }))
+  const amount = addMoney(sumMoney(subtotalAmounts), userIds.length > 0 ? chargeTotal : ZERO_MONEY)
+  return { amount, splits }
+}
+
+/**
+ * Who paid an expense and how much each.
+ *
+ * Single-payer expenses (no payers[]) resolve to paidBy paying the full amount,
+ * so rows saved before multi-payer support keep working.
+ *
+ * @param expense - Expense to read payers from
+ * @returns Payments; empty if the expense has no payer
+ */
+export function getPayers(expense: Expense): Payment[] {
+  if (expense.payers && expense.payers.length > 0) return expense.payers
+  const payerId = expense.paidBy?.id
+  return payerId ? [{ userId: payerId, amount: expense.amount }] : []
 }
 
 /**
  * Calculates net balances for all group members (PRD Rule 2)
  *
  * For each user:
- * - totalPaid = sum of amounts they paid (expense.paidBy.id === userId)
+ * - totalPaid = sum of amounts they paid (every entry in getPayers(expense))
  * - totalOwed = sum of their split amounts across all expenses
  * - balance = totalPaid - totalOwed
  *
  * Equal split: splits define equal shares per participant
  * Custom split: splits define explicit amounts per participant
- * Payer handling: payer's totalPaid includes full amount; payer's totalOwed
+ * Percentage / shares / itemized split: splits carry amounts already derived at creation
+ * Payer handling: each payer's totalPaid includes what they paid; payer's totalOwed
  *   includes their share from splits (if they appear in splits)
+ * Settlements: the payer's balance rises and the receiver's falls by the amount
  *
  * @param expenses - All expenses in the group
  * @param memberIds - IDs of all group members (to ensure zero balance for non-participants)
- * @returns Record of userId -> net balance (positive = owed, negative = owes)
+ * @param settlements - Recorded repayments between members
+ * @returns Record of userId -> net balance (positive = owed, negative = owes). If an expense's
+ *   payers and splits differ (legacy data), the balances don't sum to zero and a warning names it
  */
 export function calculateBalances(
   expenses: Expense[],
-  memberIds: string[]
+  memberIds: string[],
+  settlements: Settlement[] = []
 ): Balances {
   const balances: Balances = {}
+  const credit = (userId: string, amount: Money) => {
+    balances[userId] = addMoney(balances[userId] ?? ZERO_MONEY, amount)
+  }
+  const debit = (userId: string, amount: Money) => {
+    balances[userId] = subtractMoney(balances[userId] ?? ZERO_MONEY, amount)
+  }
 
   // Initialize all members to zero
   memberIds.forEach((id) => {
-    balances[id] = 0
+    balances[id] = ZERO_MONEY
   })
 
   expenses.forEach((expense) => {
-    const payerId = expense.paidBy?.id
-    if (!payerId) return
-    const amount = round2(expense.amount)
+    const payers = getPayers(expense)
+    if (payers.length === 0) return
 
-    // Step 1: Payer paid the full amount → increases their balance
-    balances[payerId] = round2((balances[payerId] ?? 0) + amount)
+    // Step 1: Each payer paid their amount → increases their balance
+    payers.forEach((payer) => credit(payer.userId, payer.amount))
 
     // Step 2: Each person in splits owes their amount → decreases their balance
-    expense.splits.forEach((split) => {
-      const oweAmount = round2(split.amount)
-      balances[split.userId] = round2((balances[split.userId] ?? 0) - oweAmount)
-    })
+    expense.splits.forEach((split) => debit(split.userId, split.amount))
   })
 
+  settlements.forEach((settlement) => {
+    credit(settlement.fromUserId, settlement.amount)
+    debit(settlement.toUserId, settlement.amount)
+  })
+
+  // Every paisa paid is owed by someone, so the room nets to zero; runs in render paths, so
+  // a mismatch is reported rather than thrown
+  const net = sumMoney(Object.values(balances))
+  if (net !== 0) {
+    console.warn(
+      `[balance-calculator] Balances are off by ${net} paise; unbalanced expenses:`,
+      findUnbalancedExpenses(expenses)
+    )
+  }
+
   return balances
 }
 
+/** An expense whose payments and splits add up to different totals */
+export interface UnbalancedExpense {
+  expenseId: string
+  /** Paid minus owed (positive: the splits fall short) */
+  difference: Money
+}
+
+/**
+ * Expenses whose payers and splits don't add up to the same total
+ *
+ * Validation keeps new expenses balanced; this finds legacy rows that would make the room's
+ * balances miss zero.
+ *
+ * @param expenses - Expenses to check
+ * @returns One entry per unbalanced expense, in input order
+ */
+export function findUnbalancedExpenses(expenses: Expense[]): UnbalancedExpense[] {
+  return expenses
+    .filter((e) => getPayers(e).length > 0)
+    .map((e) => ({
+      expenseId: e.id,
+      difference: subtractMoney(
+        sumMoney(getPayers(e).map((p) => p.amount)),
+        sumMoney(e.splits.map((s) => s.amount))
+      ),
+    }))
+    .filter((u) => u.difference !== 0)
+}
+
+/**
+ * Net balances as they stood at the end of a calendar day
+ *
+ * Counts expenses dated on or before that day and settlements made on or before it,
+ * so "what did I owe at the end of January?" is calculateBalancesAsOf(..., Jan 31).
+ *
+ * @param expenses - All expenses in the group
+ * @param memberIds - IDs of all group members
+ * @param settlements - Recorded repayments between members
+ * @param asOf - Any time on the last day to include (local calendar day)
+ * @returns Record of userId -> net balance at the end of that day
+ */
+export function calculateBalancesAsOf(
+  expenses: Expense[],
+  memberIds: string[],
+  settlements: Settlement[],
+  asOf: Date
+): Balances {
+  const lastDay = toDateKey(asOf)
+  return calculateBalances(
+    expenses.filter((e) => toDateKey(e.expenseDate) <= lastDay),
+    memberIds,
+    settlements.filter((s) => toDateKey(s.settledAt) <= lastDay)
+  )
+}
+
+/** fromUserId owes toUserId this amount because of one expense */
+export interface ExpenseDebt {
+  fromUserId: string
+  toUserId: string
+  amount: Money
+}
+
+/**
+ * Who owes whom from one expense.
+ *
+ * Each split is owed to the payers in proportion to what they paid (paisa-exact);
+ * the part of a split a payer owes themselves is left out.
+ *
+ * @param expense - Expense to break down
+ * @returns Debts from split members to payers (zero amounts left out)
+ */
+export function getExpenseDebts(expense: Expense): ExpenseDebt[] {
+  const payers = getPayers(expense)
+  if (payers.length === 0) return []
+  const payerAmounts = payers.map((p) => p.amount)
+  const debts: ExpenseDebt[] = []
+  expense.splits.forEach((split) => {
+    const owedAmounts = allocateMoney(split.amount, payerAmounts)
+    payers.forEach((payer, i) => {
+      if (owedAmounts[i] === 0 || payer.userId === split.userId) return
+      debts.push({ fromUserId: split.userId, toUserId: payer.userId, amount: owedAmounts[i] })
+    })
+  })
+  return debts
+}
+
+/**
+ * What otherUserId owes userId from one expense (negative = userId owes them)
+ */
+export function getPairwiseExpenseAmount(
+  expense: Expense,
+  userId: string,
+  otherUserId: string
+): Money {
+  return getExpenseDebts(expense).reduce((net, debt) => {
+    if (debt.fromUserId === otherUserId && debt.toUserId === userId) return addMoney(net, debt.amount)
+    if (debt.fromUserId === userId && debt.toUserId === otherUserId) return subtractMoney(net, debt.amount)
+    return net
+  }, ZERO_MONEY)
+}
+
+/**
+ * What otherUserId owes userId from one settlement (negative = userId owes them).
+ * Paying someone raises what they owe you back; being paid lowers it.
+ */
+export function getPairwiseSettlementAmount(
+  settlement: Settlement,
+  userId: string,
+  otherUserId: string
+): Money {
+  if (settlement.fromUserId === userId && settlement.toUserId === otherUserId) return settlement.amount
+  if (settlement.fromUserId === otherUserId && settlement.toUserId === userId) {
+    return negateMoney(settlement.amount)
+  }
+  return ZERO_MONEY
+}
+
 /**
  * Per-person settlement breakdown for one user (for "You give" / "You get").
- * - youGive[otherUserId] = how much current user owes that person (expenses they paid where current user had a split).
- * - youGet[otherUserId] = how much that person owes current user (expenses current user paid where they had a split).
- * Uses round2 so equal-split and stored amounts show consistently in the breakdown.
+ * Debts are netted per person: if you owe Ravi ₹500 and he owes you ₹300, you give him ₹200.
+ * - youGive = people the current user owes, net of what they owe back
+ * - youGet = people who owe the current user, net of what they are owed back
+ * With several payers, each split is owed to the payers in proportion to what they paid (paisa-exact).
+ * Settlements count towards the pair they were made between.
  */
 export function getSettlementBreakdown(
   expenses: Expense[],
-  currentUserId: string
+  currentUserId: string,
+  settlements: Settlement[] = []
 ): {
-  totalOwed: number
-  totalPaid: number
-  getBack: number
-  youGive: Array<{ userId: string; amount: number }>
-  youGet: Array<{ userId: string; amount: number }>
+  totalOwed: Money
+  totalPaid: Money
+  getBack: Money
+  youGive: Array<{ userId: string; amount: Money }>
+  youGet: Array<{ userId: string; amount: Money }>
 } {
-  let totalOwed = 0
-  let totalPaid = 0
-  const giveMap: Record<string, number> = {}
-  const getMap: Record<string, number> = {}
+  let totalOwed = ZERO_MONEY
+  let totalPaid = ZERO_MONEY
+  // userId -> what they owe the current user (negative = current user owes them)
+  const netMap: Record<string, Money> = {}
+  const add = (userId: string, amount: Money) => {
+    netMap[userId] = addMoney(netMap[userId] ?? ZERO_MONEY, amount)
+  }
 
   expenses.forEach((expense) => {
-    const payerId = expense.paidBy?.id
-    if (!payerId) return
     expense.splits.forEach((split) => {
-      const amt = round2(split.amount)
-      if (split.userId === currentUserId) {
-        totalOwed += amt
-        if (payerId !== currentUserId) {
-          giveMap[payerId] = round2((giveMap[payerId] ?? 0) + amt)
-        }
-      }
-      if (payerId === currentUserId && split.userId !== currentUserId) {
-        getMap[split.userId] = round2((getMap[split.userId] ?? 0) + amt)
-      }
+      if (split.userId === currentUserId) totalOwed = addMoney(totalOwed, split.amount)
+    })
+    getPayers(expense).forEach((payer) => {
+      if (payer.userId === currentUserId) totalPaid = addMoney(totalPaid, payer.amount)
     })
-    if (payerId === currentUserId) totalPaid += round2(expense.amount)
+    getExpenseDebts(expense).forEach((debt) => {
+      if (debt.fromUserId === currentUserId) add(debt.toUserId, negateMoney(debt.amount))
+      if (debt.toUserId === currentUserId) add(debt.fromUserId, debt.amount)
+    })
+  })
+
+  let settledNet = ZERO_MONEY
+  settlements.forEach((settlement) => {
+    if (settlement.fromUserId === currentUserId) {
+      settledNet = addMoney(settledNet, settlement.amount)
+      add(settlement.toUserId, settlement.amount)
+    } else if (settlement.toUserId === currentUserId) {
+      settledNet = subtractMoney(settledNet, settlement.amount)
+      add(settlement.fromUserId, negateMoney(settlement.amount))
+    }
   })
 
-  const youGive = Object.entries(giveMap)
-    .filter(([, amt]) => amt > 0)
-    .map(([userId, amount]) => ({ userId, amount: round2(amount) }))
-  const youGet = Object.entries(getMap)
-    .filter(([, amt]) => amt > 0)
-    .map(([userId, amount]) => ({ userId, amount: round2(amount) }))
+  const entries = Object.entries(netMap)
+  const youGive = entries
+    .filter(([, amount]) => amount < 0)
+    .map(([userId, amount]) => ({ userId, amount: negateMoney(amount) }))
+  const youGet = entries
+    .filter(([, amount]) => amount > 0)
+    .map(([userId, amount]) => ({ userId, amount }))
 
-  totalOwed = round2(totalOwed)
-  totalPaid = round2(totalPaid)
-  const getBack = round2(Math.max(0, totalPaid - totalOwed))
+  const net = addMoney(subtractMoney(totalPaid, totalOwed), settledNet)
+  const getBack = net > 0 ? net : ZERO_MONEY
 
   return { totalOwed, totalPaid, getBack, youGive, youGet }
 }
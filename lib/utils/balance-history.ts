@@ -0,0 +1,78 @@
+/**
+ * balance-history.ts - Per-member balance over time (balance history chart)
+ *
+ * Purpose: How each member's balance moved, day by day, for the stats view
+ * Responsibilities: One point per day with activity; running balances using calculateBalances rules
+ * Dependencies: lib/types/expense.types, lib/utils/balance-calculator, lib/utils/date-keys,
+ *   lib/utils/money
+ *
+ * Each point is the balance at the end of that day, so the last point equals the current
+ * balances and any point equals calculateBalancesAsOf for its day.
+ *
+ * @example
+ * ```ts
+ * const history = getBalanceHistory(expenses, settlements, memberIds)
+ * // [{ dateKey: '2025-01-03', date, balances: { 'user-1': 5000, 'user-2': -5000 } }, ...]
+ * ```
+ */
+
+import type { Balances, Expense, Settlement } from '@/lib/types/expense.types'
+import { calculateBalances } from '@/lib/utils/balance-calculator'
+import { fromDateKey, toDateKey } from '@/lib/utils/date-keys'
+import { ZERO_MONEY, addMoney } from '@/lib/utils/money'
+
+export interface BalanceHistoryPoint {
+  /** 'YYYY-MM-DD' */
+  dateKey: string
+  /** Local midnight of that day */
+  date: Date
+  /** Every member's balance at the end of the day */
+  balances: Balances
+}
+
+/**
+ * Running balances, one point per day that has an expense or settlement (oldest first)
+ *
+ * @param expenses - Room expenses (trash excluded)
+ * @param settlements - Room settlements
+ * @param memberIds - Current room members (always present in each point)
+ * @returns Points in date order; empty when there is no activity
+ */
+export function getBalanceHistory(
+  expenses: Expense[],
+  settlements: Settlement[],
+  memberIds: string[]
+): BalanceHistoryPoint[] {
+  const expensesByDay = new Map<string, Expense[]>()
+  expenses.forEach((e) => {
+    const key = toDateKey(e.expenseDate)
+    expensesByDay.set(key, [...(expensesByDay.get(key) ?? []), e])
+  })
+  const settlementsByDay = new Map<string, Settlement[]>()
+  settlements.forEach((s) => {
+    const key = toDateKey(s.settledAt)
+    settlementsByDay.set(key, [...(settlementsByDay.get(key) ?? []), s])
+  })
+
+  const dayKeys = [...new Set([...expensesByDay.keys(), ...settlementsByDay.keys()])].sort()
+  // Former members who still show up in the records keep a line of their own
+  const userIds = [
+    ...memberIds,
+    ...Object.keys(calculateBalances(expenses, [], settlements)).filter(
+      (id) => !memberIds.includes(id)
+    ),
+  ]
+
+  let running: Balances = Object.fromEntries(userIds.map((id) => [id, ZERO_MONEY]))
+  return dayKeys.map((dateKey) => {
+    const change = calculateBalances(
+      expensesByDay.get(dateKey) ?? [],
+      [],
+      settlementsByDay.get(dateKey) ?? []
+    )
+    running = Object.fromEntries(
+      userIds.map((id) => [id, addMoney(running[id], change[id] ?? ZERO_MONEY)])
+    )
+    return { dateKey, date: fromDateKey(dateKey), balances: running }
+  })
+}
@@ -0,0 +1,151 @@
+/**
+ * budget-calculator.ts - Monthly category budget progress and threshold crossings
+ *
+ * Purpose: How much of each category budget is used in a month, including carry-over
+ * Responsibilities: Resolve the budget in effect for a month; carry leftover within the
+ *   reset cycle
+ * Dependencies: lib/types/expense.types, lib/utils/date-keys, lib/utils/money
+ *
+ * Carry-over: within a reset cycle each month's available = its budget + what was left
+ * (or overspent) last month. The cycle restarts at the start of every month (monthly),
+ * calendar quarter (quarterly), calendar year (yearly), or never.
+ * Spend is room spend (full expense amounts) by expense date.
+ * The database applies the same rules (category_budget_available) to raise 80% / 100% alerts.
+ *
+ * @example
+ * ```ts
+ * const statuses = getBudgetStatuses(budgets, expenses, '2025-02')
+ * ```
+ */
+
+import type {
+  CategoryBudget,
+  Expense,
+  ExpenseCategory,
+  Money,
+} from '@/lib/types/expense.types'
+import { toMonthKey } from '@/lib/utils/date-keys'
+import { ZERO_MONEY, addMoney, subtractMoney } from '@/lib/utils/money'
+
+export interface BudgetStatus {
+  category: ExpenseCategory
+  /** Budget set for this month */
+  budget: Money
+  /** Leftover (+) or overspend (−) carried in from earlier months of the cycle */
+  carriedOver: Money
+  /** budget + carriedOver */
+  available: Money
+  spent: Money
+  /** spent / available × 100 (Infinity when nothing is available but something was spent) */
+  percent: number
+}
+
+/** 'YYYY-MM' → month index since year 0 (for stepping months) */
+function monthIndex(monthKey: string): number {
+  const [y, m] = monthKey.split('-').map(Number)
+  return y * 12 + (m - 1)
+}
+
+function monthKeyFromIndex(index: number): string {
+  const y = Math.floor(index / 12)
+  const m = (index % 12) + 1
+  return `${y}-${String(m).padStart(2, '0')}`
+}
+
+/** Budget row in effect for a category in a month (latest startsOn on or before it) */
+export function budgetInEffect(
+  budgets: CategoryBudget[],
+  category: ExpenseCategory,
+  monthKey: string
+): CategoryBudget | undefined {
+  return budgets
+    .filter((b) => b.category === category && toMonthKey(b.startsOn) <= monthKey)
+    .sort((a, b) => b.startsOn.getTime() - a.startsOn.getTime())[0]
+}
+
+/** First month index of the reset cycle that contains `index` */
+function cycleStartIndex(budget: CategoryBudget, index: number, firstBudgetIndex: number): number {
+  switch (budget.resetSchedule) {
+    case 'monthly':
+      return index
+    case 'quarterly':
+      return Math.max(firstBudgetIndex, index - (index % 3))
+    case 'yearly':
+      return Math.max(firstBudgetIndex, index - (index % 12))
+    case 'never':
+      return firstBudgetIndex
+  }
+}
+
+/** Spend per month for one category */
+function spentByMonth(expenses: Expense[], category: ExpenseCategory): Map<string, Money> {
+  const byMonth = new Map<string, Money>()
+  expenses.forEach((e) => {
+    if (e.category !== category) return
+    const key = toMonthKey(e.expenseDate)
+    byMonth.set(key, addMoney(byMonth.get(key) ?? ZERO_MONEY, e.amount))
+  })
+  return byMonth
+}
+
+/**
+ * Budget status for one category in one month
+ *
+ * @returns null when the category has no budget (or a 0 budget) that month
+ */
+export function getBudgetStatus(
+  budgets: CategoryBudget[],
+  expenses: Expense[],
+  category: ExpenseCategory,
+  monthKey: string
+): BudgetStatus | null {
+  const current = budgetInEffect(budgets, category, monthKey)
+  if (!current || current.amount <= 0) return null
+
+  const categoryBudgets = budgets.filter((b) => b.category === category)
+  const firstBudgetIndex = Math.min(...categoryBudgets.map((b) => monthIndex(toMonthKey(b.startsOn))))
+  const index = monthIndex(monthKey)
+  const spentPerMonth = spentByMonth(expenses, category)
+
+  // Carry leftover from the start of the cycle up to last month
+  let carriedOver = ZERO_MONEY
+  for (let i = cycleStartIndex(current, index, firstBudgetIndex); i < index; i++) {
+    const key = monthKeyFromIndex(i)
+    const budget = budgetInEffect(budgets, category, key)
+    carriedOver = addMoney(
+      carriedOver,
+      subtractMoney(budget?.amount ?? ZERO_MONEY, spentPerMonth.get(key) ?? ZERO_MONEY)
+    )
+  }
+
+  const available = addMoney(current.amount, carriedOver)
+  const spent = spentPerMonth.get(monthKey) ?? ZERO_MONEY
+  const percent = available > 0 ? (spent / available) * 100 : spent > 0 ? Infinity : 0
+
+  return {
+    category,
+    budget: current.amount,
+    carriedOver,
+    available,
+    spent,
+    percent,
+  }
+}
+
+/**
+ * Status of every budgeted category in a month
+ *
+ * @param budgets - Room budgets (all months)
+ * @param expenses - Room expenses (trash excluded)
+ * @param monthKey - 'YYYY-MM'
+ */
+export function getBudgetStatuses(
+  budgets: CategoryBudget[],
+  expenses: Expense[],
+  monthKey: string
+): BudgetStatus[] {
+  const categories = [...new Set(budgets.map((b) => b.category))]
+  return categories
+    .map((category) => getBudgetStatus(budgets, expenses, category, monthKey))
+    .filter((s): s is BudgetStatus => s !== null)
+}
@@ -0,0 +1,43 @@
+/**
+ * category-totals.ts - Per-category spend for a month
+ *
+ * Purpose: Answer "how much did we spend on groceries vs. eating out this month"
+ * Responsibilities: Filter expenses by expense date month; sum amounts per category
+ * Dependencies: lib/types/expense.types, lib/utils/date-keys, lib/utils/money
+ *
+ * Totals are room spend (full expense amounts), not any one member's share.
+ */
+
+import type { Expense, ExpenseCategory, Money } from '@/lib/types/expense.types'
+import { toMonthKey } from '@/lib/utils/date-keys'
+import { ZERO_MONEY, addMoney } from '@/lib/utils/money'
+
+export interface CategoryTotal {
+  category: ExpenseCategory
+  total: Money
+  count: number
+}
+
+/**
+ * Totals per category for the month containing `month`, largest first
+ *
+ * @param expenses - Room expenses (trash excluded)
+ * @param month - Any day in the month to total
+ * @returns Categories with at least one expense that month
+ */
+export function getCategoryTotals(expenses: Expense[], month: Date): CategoryTotal[] {
+  const monthKey = toMonthKey(month)
+  const byCategory = new Map<ExpenseCategory, { total: Money; count: number }>()
+
+  expenses.forEach((expense) => {
+    if (toMonthKey(expense.expenseDate) !== monthKey) return
+    const entry = byCategory.get(expense.category) ?? { total: ZERO_MONEY, count: 0 }
+    entry.total = addMoney(entry.total, expense.amount)
+    entry.count += 1
+    byCategory.set(expense.category, entry)
+  })
+
+  return [...byCategory.entries()]
+    .map(([category, { total, count }]) => ({ category, total, count }))
+    .sort((a, b) => b.total - a.total)
+}
@@ -0,0 +1,41 @@
+/**
+ * date-keys.ts - Calendar-day helpers for expense dates
+ *
+ * Purpose: Convert between local calendar days and 'YYYY-MM-DD' keys; month keys for grouping
+ * Responsibilities: Timezone-safe round-trip for Postgres `date` columns
+ * Dependencies: None
+ *
+ * `new Date('2025-02-04')` parses as UTC midnight, which shows as the previous
+ * day west of UTC. These helpers always read and write the local calendar day.
+ *
+ * @example
+ * ```ts
+ * toDateKey(new Date(2025, 1, 4)) // '2025-02-04'
+ * fromDateKey('2025-02-04')        // local midnight, Feb 4 2025
+ * toMonthKey(new Date(2025, 1, 4)) // '2025-02'
+ * ```
+ */
+
+/** Local calendar day → 'YYYY-MM-DD' */
+export function toDateKey(date: Date): string {
+  const y = date.getFullYear()
+  const m = String(date.getMonth() + 1).padStart(2, '0')
+  const d = String(date.getDate()).padStart(2, '0')
+  return `${y}-${m}-${d}`
+}
+
+/** 'YYYY-MM-DD' (or a full ISO timestamp) → Date at local midnight of that calendar day */
+export function fromDateKey(key: string): Date {
+  const [y, m, d] = key.slice(0, 10).split('-').map(Number)
+  return new Date(y, m - 1, d)
+}
+
+/** Local calendar month → 'YYYY-MM' */
+export function toMonthKey(date: Date): string {
+  return toDateKey(date).slice(0, 7)
+}
+
+/** First day (local midnight) of the month `offset` months from `date` */
+export function startOfMonthOffset(date: Date, offset: number): Date {
+  return new Date(date.getFullYear(), date.getMonth() + offset, 1)
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import type { CreateExpenseInput, Expense, GroupMember } from '@/lib/types/expense.types'
+import { validateExpenseForRoom } from '@/lib/utils/expense-validation'
+import { paise } from '@/lib/utils/money'
+
+const alice: GroupMember = { id: 'alice', name: 'Alice', role: 'owner' }
+const bob: GroupMember = { id: 'bob', name: 'Bob', role: 'member' }
+/** Left the room after the expense was added */
+const carol = { id: 'carol', name: 'Carol' }
+
+const room = { members: [alice, bob] }
+
+function input(overrides: Partial<CreateExpenseInput> = {}): CreateExpenseInput {
+  return {
+    title: 'Dinner',
+    amount: paise(9000),
+    paidBy: alice,
+    expenseDate: new Date(2025, 0, 15),
+    category: 'food',
+    splitType: 'custom',
+    splits: [
+      { userId: 'alice', amount: paise(3000) },
+      { userId: 'bob', amount: paise(3000) },
+      { userId: 'carol', amount: paise(3000) },
+    ],
+    ...overrides,
+  }
+}
+
+function existing(overrides: Partial<Expense> = {}): Expense {
+  return { ...input(), id: 'e1', createdAt: new Date(2025, 0, 15), ...overrides }
+}
+
+describe('validateExpenseForRoom', () => {
+  it('accepts an expense between current members', () => {
+    const result = validateExpenseForRoom(
+      input({
+        splits: [
+          { userId: 'alice', amount: paise(4500) },
+          { userId: 'bob', amount: paise(4500) },
+        ],
+      }),
+      room
+    )
+
+    expect(result).toEqual({ valid: true })
+  })
+
+  it('rejects a new expense shared with someone who has left', () => {
+    expect(validateExpenseForRoom(input(), room)).toEqual({
+      valid: false,
+      error: 'Everyone in the split must be a member of this room',
+    })
+  })
+
+  it('rejects a new expense paid by someone who has left', () => {
+    expect(validateExpenseForRoom(input({ paidBy: carol }), room)).toEqual({
+      valid: false,
+      error: 'Payer must be a member of this room',
+    })
+  })
+
+  it('lets an edit keep a participant who has left', () => {
+    const edit = input({ title: 'Dinner at Carol’s' })
+
+    expect(validateExpenseForRoom(edit, room, existing())).toEqual({ valid: true })
+  })
+
+  it('lets an edit keep a payer who has left', () => {
+    const before = existing({ paidBy: carol })
+
+    expect(validateExpenseForRoom(input({ paidBy: carol }), room, before)).toEqual({ valid: true })
+  })
+
+  it('lets an edit keep a payer who has left among several payers', () => {
+    const payers = [
+      { userId: 'alice', amount: paise(4000) },
+      { userId: 'carol', amount: paise(5000) },
+    ]
+    const before = existing({ payers })
+
+    expect(validateExpenseForRoom(input({ payers }), room, before)).toEqual({ valid: true })
+  })
+
+  it('does not let an edit add someone who has left', () => {
+    const before = existing({
+      splits: [
+        { userId: 'alice', amount: paise(4500) },
+        { userId: 'bob', amount: paise(4500) },
+      ],
+    })
+
+    expect(validateExpenseForRoom(input(), room, before)).toEqual({
+      valid: false,
+      error: 'Everyone in the split must be a member of this room',
+    })
+  })
+})
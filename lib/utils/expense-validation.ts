@@ -3,16 +3,25 @@
  *
  * Purpose: Enforce PRD edge case handling (Section 7)
  * Responsibilities: Validate amounts, empty expense, split totals
- * Dependencies: lib/types/expense.types
+ * Dependencies: lib/types/expense.types, lib/utils/money
+ *
+ * Amounts are Money (integer paise), so totals must match exactly — not "within a paisa".
  *
  * Edge cases handled:
  * - Empty expense (no amount)
  * - Negative amounts
  * - Custom split mismatch (sum !== total)
+ * - Percentage split not totalling 100%
+ * - Shares split without a positive weight
+ * - Multi-payer amounts that don't sum to the total
+ * - Payers who are not room members (an edit may keep payers and participants who have left)
+ * - Equal split with no participants, uneven shares, or participants outside the room
+ * - Itemized split with empty items, items without participants, or totals that don't add up
+ * - Settlement to self / non-positive settlement
  *
  * @example
  * ```ts
- * const result = validateExpenseInput({ amount: 100, splits: [...] })
+ * const result = validateExpenseInput({ amount: fromRupees(100), splits: [...] })
  * if (!result.valid) {
  *   toast.error(result.error)
  *   return
@@ -20,10 +29,21 @@
  * ```
  */
 
-import type { Split } from '@/lib/types/expense.types'
+import type {
+  CreateExpenseInput,
+  Expense,
+  Group,
+  ItemizedCharges,
+  LineItem,
+  Money,
+  Payment,
+  Split,
+  SplitType,
+} from '@/lib/types/expense.types'
+import { ZERO_MONEY, formatRupees, sumMoney } from '@/lib/utils/money'
 
-/** Tolerance for float comparison (split sum vs amount) */
-const FLOAT_EPSILON = 0.01
+/** Tolerance for percentage totals (e.g. 33.33 + 33.33 + 33.34) */
+const PERCENT_EPSILON = 0.001
 
 /**
  * Validates expense amount (PRD: prevent negative values)
@@ -31,11 +51,11 @@ const FLOAT_EPSILON = 0.01
  * @param amount - Raw amount value
  * @returns Object with valid flag and optional error message
  */
-export function validateAmount(amount: number): { valid: boolean; error?: string } {
+export function validateAmount(amount: Money): { valid: boolean; error?: string } {
   if (amount <= 0) {
     return { valid: false, error: 'Amount must be greater than zero' }
   }
-  if (!Number.isFinite(amount)) {
+  if (!Number.isSafeInteger(amount)) {
     return { valid: false, error: 'Amount must be a valid number' }
   }
   return { valid: true }
@@ -49,7 +69,7 @@ export function validateAmount(amount: number): { valid: boolean; error?: string
  * @returns Object with valid flag and optional error message
  */
 export function validateNotEmpty(
-  amount: number,
+  amount: Money,
   title?: string
 ): { valid: boolean; error?: string } {
   if (amount === 0 || amount === undefined || amount === null) {
@@ -61,7 +81,7 @@ export function validateNotEmpty(
 /**
  * Validates custom split totals (PRD Edge Case 1)
  *
- * Splits must sum to the total amount (within float tolerance).
+ * Splits must sum to the total amount exactly (to the paisa).
  * Prevents save when custom split doesn't equal total.
  *
  * @param amount - Total expense amount
@@ -69,16 +89,15 @@ export function validateNotEmpty(
  * @returns Object with valid flag and optional error message
  */
 export function validateSplitTotals(
-  amount: number,
+  amount: Money,
   splits: Split[]
 ): { valid: boolean; error?: string } {
-  const sum = splits.reduce((acc, s) => acc + s.amount, 0)
-  const diff = Math.abs(sum - amount)
+  const sum = sumMoney(splits.map((s) => s.amount))
 
-  if (diff > FLOAT_EPSILON) {
+  if (sum !== amount) {
     return {
       valid: false,
-      error: `Split total (₹${sum.toFixed(2)}) must equal expense amount (₹${amount.toFixed(2)})`,
+      error: `Split total (₹${formatRupees(sum)}) must equal expense amount (₹${formatRupees(amount)})`,
     }
   }
 
@@ -91,23 +110,192 @@ export function validateSplitTotals(
   return { valid: true }
 }
 
+/**
+ * Validates percentage split shares
+ *
+ * Every split must carry a non-negative percentage and together they must total 100.
+ *
+ * @param splits - Array of { userId, amount, percentage }
+ * @returns Object with valid flag and optional error message
+ */
+export function validatePercentages(splits: Split[]): { valid: boolean; error?: string } {
+  if (splits.length === 0) {
+    return { valid: false, error: 'Add at least one person to the split' }
+  }
+  if (splits.some((s) => s.percentage === undefined || !Number.isFinite(s.percentage))) {
+    return { valid: false, error: 'Every person in a percentage split needs a percentage' }
+  }
+  if (splits.some((s) => (s.percentage ?? 0) < 0)) {
+    return { valid: false, error: 'Percentages cannot be negative' }
+  }
+  const total = splits.reduce((acc, s) => acc + (s.percentage ?? 0), 0)
+  if (Math.abs(total - 100) > PERCENT_EPSILON) {
+    return {
+      valid: false,
+      error: `Percentages must total 100% (currently ${Number(total.toFixed(2))}%)`,
+    }
+  }
+  return { valid: true }
+}
+
+/**
+ * Validates shares split weights
+ *
+ * Every split must carry a positive, finite weight.
+ *
+ * @param splits - Array of { userId, amount, shares }
+ * @returns Object with valid flag and optional error message
+ */
+export function validateShareWeights(splits: Split[]): { valid: boolean; error?: string } {
+  if (splits.length === 0) {
+    return { valid: false, error: 'Give at least one person a share' }
+  }
+  if (splits.some((s) => s.shares === undefined || !Number.isFinite(s.shares) || s.shares <= 0)) {
+    return { valid: false, error: 'Every person in a shares split needs a weight above zero' }
+  }
+  return { valid: true }
+}
+
+/**
+ * Validates itemized receipt lines and charges
+ *
+ * - At least one item; every item has a positive amount and at least one participant
+ * - Tax, service charge and tip are non-negative
+ * - Items + charges equal the expense amount
+ *
+ * @param amount - Total expense amount
+ * @param items - Receipt lines
+ * @param charges - Tax / service charge / tip
+ * @returns Object with valid flag and optional error message
+ */
+export function validateItemized(
+  amount: Money,
+  items: LineItem[] | undefined,
+  charges: ItemizedCharges | undefined
+): { valid: boolean; error?: string } {
+  if (!items || items.length === 0) {
+    return { valid: false, error: 'Add at least one item' }
+  }
+  const badAmount = items.find((item) => !(item.amount > 0) || !Number.isSafeInteger(item.amount))
+  if (badAmount) {
+    return { valid: false, error: `Item "${badAmount.name || 'Untitled'}" needs an amount above zero` }
+  }
+  const noParticipants = items.find((item) => item.participantIds.length === 0)
+  if (noParticipants) {
+    return { valid: false, error: `Pick who shared "${noParticipants.name || 'Untitled'}"` }
+  }
+  const extras = charges ?? { tax: ZERO_MONEY, serviceCharge: ZERO_MONEY, tip: ZERO_MONEY }
+  if (extras.tax < 0 || extras.serviceCharge < 0 || extras.tip < 0) {
+    return { valid: false, error: 'Tax, service charge and tip cannot be negative' }
+  }
+  const total = sumMoney([
+    ...items.map((item) => item.amount),
+    extras.tax,
+    extras.serviceCharge,
+    extras.tip,
+  ])
+  if (total !== amount) {
+    return {
+      valid: false,
+      error: `Items and charges (₹${formatRupees(total)}) must equal expense amount (₹${formatRupees(amount)})`,
+    }
+  }
+  return { valid: true }
+}
+
+/**
+ * Validates multi-payer amounts
+ *
+ * - At least one payer, each paying a positive amount, no payer listed twice
+ * - Payments sum to the expense amount
+ *
+ * @param amount - Total expense amount
+ * @param payers - Array of { userId, amount }
+ * @returns Object with valid flag and optional error message
+ */
+export function validatePayers(amount: Money, payers: Payment[]): { valid: boolean; error?: string } {
+  if (payers.length === 0) {
+    return { valid: false, error: 'Choose who paid' }
+  }
+  if (payers.some((p) => !(p.amount > 0) || !Number.isSafeInteger(p.amount))) {
+    return { valid: false, error: 'Each payer must pay more than zero' }
+  }
+  if (new Set(payers.map((p) => p.userId)).size !== payers.length) {
+    return { valid: false, error: 'A payer is listed more than once' }
+  }
+  const sum = sumMoney(payers.map((p) => p.amount))
+  if (sum !== amount) {
+    return {
+      valid: false,
+      error: `Payments (₹${formatRupees(sum)}) must equal expense amount (₹${formatRupees(amount)})`,
+    }
+  }
+  return { valid: true }
+}
+
+/**
+ * Validates equal split participants
+ *
+ * - At least one participant, none listed twice
+ * - Shares differ by at most one paisa (remainder distribution) and sum to the amount,
+ *   or the payer alone owes the whole remainder (payer-absorbs policy)
+ *
+ * @param amount - Total expense amount
+ * @param splits - Equal splits (one per participant)
+ * @param payerId - Who paid (allowed to absorb the remainder)
+ * @returns Object with valid flag and optional error message
+ */
+export function validateEqualSplits(
+  amount: Money,
+  splits: Split[],
+  payerId?: string
+): { valid: boolean; error?: string } {
+  if (splits.length === 0) {
+    return { valid: false, error: 'Choose at least one person to split with' }
+  }
+  if (new Set(splits.map((s) => s.userId)).size !== splits.length) {
+    return { valid: false, error: 'A participant is listed more than once' }
+  }
+  const amounts = splits.map((s) => s.amount)
+  const others = splits.filter((s) => s.userId !== payerId).map((s) => s.amount)
+  const payerAmount = splits.find((s) => s.userId === payerId)?.amount
+  const payerAbsorbs =
+    payerAmount !== undefined &&
+    others.every((a) => a === others[0]) &&
+    payerAmount - (others[0] ?? payerAmount) >= 0 &&
+    payerAmount - (others[0] ?? payerAmount) < splits.length
+  if (Math.max(...amounts) - Math.min(...amounts) > 1 && !payerAbsorbs) {
+    return { valid: false, error: 'Equal split shares must be equal' }
+  }
+  return validateSplitTotals(amount, splits)
+}
+
 /**
  * Combined validation for expense creation
  *
  * Runs all validations in order:
  * 1. Not empty
  * 2. Positive amount
- * 3. Split totals (for custom split)
+ * 3. Equal shares (for equal split) / percentages total 100 (for percentage split) / positive weights (for shares split) /
+ *    items and charges (for itemized split)
+ * 4. Split totals (for custom, percentage, shares and itemized split)
+ * 5. Payer totals (for multi-payer expenses)
+ * 6. Payers and split participants are room members (when memberIds is given)
  *
  * @param params - Expense input params
  * @returns Object with valid flag and first error message if invalid
  */
 export function validateExpenseInput(params: {
-  amount: number
-  splitType: 'equal' | 'custom'
+  amount: Money
+  splitType: SplitType
   splits: Split[]
+  items?: LineItem[]
+  charges?: ItemizedCharges
+  payers?: Payment[]
+  paidById?: string
+  memberIds?: string[]
 }): { valid: boolean; error?: string } {
-  const { amount, splitType, splits } = params
+  const { amount, splitType, splits, items, charges, payers, paidById, memberIds } = params
 
   const notEmpty = validateNotEmpty(amount)
   if (!notEmpty.valid) return notEmpty
@@ -115,10 +303,109 @@ export function validateExpenseInput(params: {
   const amountOk = validateAmount(amount)
   if (!amountOk.valid) return amountOk
 
-  if (splitType === 'custom') {
+  if (splitType === 'equal') {
+    const equalOk = validateEqualSplits(amount, splits, paidById)
+    if (!equalOk.valid) return equalOk
+  }
+
+  if (splitType === 'percentage') {
+    const percentagesOk = validatePercentages(splits)
+    if (!percentagesOk.valid) return percentagesOk
+  }
+
+  if (splitType === 'shares') {
+    const weightsOk = validateShareWeights(splits)
+    if (!weightsOk.valid) return weightsOk
+  }
+
+  if (splitType === 'itemized') {
+    const itemsOk = validateItemized(amount, items, charges)
+    if (!itemsOk.valid) return itemsOk
+  }
+
+  if (splitType !== 'equal') {
     const splitsOk = validateSplitTotals(amount, splits)
     if (!splitsOk.valid) return splitsOk
   }
 
+  if (payers && payers.length > 0) {
+    const payersOk = validatePayers(amount, payers)
+    if (!payersOk.valid) return payersOk
+  }
+
+  if (memberIds) {
+    const payerIds = [...(paidById ? [paidById] : []), ...(payers ?? []).map((p) => p.userId)]
+    if (payerIds.some((id) => !memberIds.includes(id))) {
+      return { valid: false, error: 'Payer must be a member of this room' }
+    }
+    if (splits.some((s) => !memberIds.includes(s.userId))) {
+      return { valid: false, error: 'Everyone in the split must be a member of this room' }
+    }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Combined validation for an expense create / edit against the room's members
+ *
+ * An edit may keep the payer(s) and participants it already had, even if they have left the room
+ * (update_expense allows the same).
+ *
+ * @param input - Expense as entered
+ * @param room - Room the expense belongs to (current members)
+ * @param existing - The expense being edited, if any
+ * @returns Object with valid flag and first error message if invalid
+ */
+export function validateExpenseForRoom(
+  input: CreateExpenseInput,
+  room: Pick<Group, 'members'>,
+  existing?: Expense
+): { valid: boolean; error?: string } {
+  const keptIds = existing
+    ? [
+        existing.paidBy.id,
+        ...(existing.payers ?? []).map((p) => p.userId),
+        ...existing.splits.map((s) => s.userId),
+      ]
+    : []
+  return validateExpenseInput({
+    amount: input.amount,
+    splitType: input.splitType,
+    splits: input.splits,
+    items: input.items,
+    charges: input.charges,
+    payers: input.payers,
+    paidById: input.paidBy.id,
+    memberIds: [...room.members.map((m) => m.id), ...keptIds],
+  })
+}
+
+/**
+ * Validation for recording a settlement
+ *
+ * 1. Positive amount
+ * 2. Payer and receiver are different people
+ *
+ * @param params - Settlement input params
+ * @returns Object with valid flag and first error message if invalid
+ */
+export function validateSettlementInput(params: {
+  amount: Money
+  fromUserId: string
+  toUserId: string
+}): { valid: boolean; error?: string } {
+  const { amount, fromUserId, toUserId } = params
+
+  const amountOk = validateAmount(amount)
+  if (!amountOk.valid) return amountOk
+
+  if (!fromUserId || !toUserId) {
+    return { valid: false, error: 'Choose who paid whom' }
+  }
+  if (fromUserId === toUserId) {
+    return { valid: false, error: 'A settlement needs two different people' }
+  }
+
   return { valid: true }
 }
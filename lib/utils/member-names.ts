@@ -0,0 +1,26 @@
+/**
+ * member-names.ts - Display names for current and former room members
+ *
+ * Purpose: Name everyone who appears in a room's history, including people who left
+ * Responsibilities: Look up current members first, then former members (marked "left")
+ * Dependencies: lib/types/expense.types
+ *
+ * @example
+ * ```ts
+ * memberName(room, 'user-2')  // 'Ravi'
+ * memberName(room, 'user-9')  // 'Asha (left)'
+ * ```
+ */
+
+import type { Group } from '@/lib/types/expense.types'
+
+/** Name of a current member, "Name (left)" for a former member, else 'Unknown' */
+export function memberName(
+  room: Pick<Group, 'members' | 'formerMembers'> | null | undefined,
+  userId: string
+): string {
+  const member = room?.members.find((m) => m.id === userId)
+  if (member) return member.name
+  const former = room?.formerMembers?.find((m) => m.id === userId)
+  return former ? `${former.name} (left)` : 'Unknown'
+}
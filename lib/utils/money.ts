@@ -0,0 +1,92 @@
+/**
+ * money.ts - Integer-paise Money helpers
+ *
+ * Purpose: One exact representation for every rupee amount in the app
+ * Responsibilities: Build Money from paise / rupees / user input; add, subtract, allocate;
+ *   convert back to rupees for the database and display
+ * Dependencies: lib/types/expense.types
+ *
+ * Money is integer paise (₹1 = 100), so sums and differences are exact: a split either
+ * equals its expense or it doesn't. Rupees only exist at the edges — form inputs, Supabase
+ * numeric columns / JSONB, and on-screen text.
+ *
+ * @example
+ * ```ts
+ * const amount = fromRupees('100')              // 10000
+ * const [a, b, c] = allocateMoney(amount, [1, 1, 1]) // 3334, 3333, 3333
+ * formatRupees(addMoney(a, b))                  // '66.67'
+ * toRupees(amount)                              // 100 (for the DB)
+ * ```
+ */
+
+import type { Money } from '@/lib/types/expense.types'
+
+export const ZERO_MONEY = 0 as Money
+
+/** Integer paise → Money (throws on fractions of a paisa, which would break exact sums) */
+export function paise(value: number): Money {
+  if (!Number.isSafeInteger(value)) {
+    throw new RangeError(`Money must be a whole number of paise (got ${value})`)
+  }
+  return value as Money
+}
+
+/** Rupees (number, numeric column or input string) → Money, rounded to the nearest paisa; 0 if not a number */
+export function fromRupees(rupees: number | string | null | undefined): Money {
+  const value = typeof rupees === 'string' ? parseFloat(rupees) : Number(rupees ?? 0)
+  return Number.isFinite(value) ? paise(Math.round(value * 100)) : ZERO_MONEY
+}
+
+/** Money → rupees (for Supabase numeric columns, JSONB and charts) */
+export function toRupees(money: Money): number {
+  return money / 100
+}
+
+/** Money → '1234.50' (no currency sign; callers put ₹ where the design wants it) */
+export function formatRupees(money: Money, decimals = 2): string {
+  return toRupees(money).toFixed(decimals)
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  return (a + b) as Money
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  return (a - b) as Money
+}
+
+export function negateMoney(money: Money): Money {
+  return (0 - money) as Money
+}
+
+export function absMoney(money: Money): Money {
+  return Math.abs(money) as Money
+}
+
+export function sumMoney(amounts: Money[]): Money {
+  return amounts.reduce(addMoney, ZERO_MONEY)
+}
+
+/**
+ * Splits a total in proportion to weights (largest remainder method).
+ *
+ * Every share is floored, then the leftover paise go one each to the largest
+ * fractional remainders (ties: earlier participant first), so the result sums
+ * to total exactly and the same input always yields the same paise.
+ */
+export function allocateMoney(total: Money, weights: number[]): Money[] {
+  const totalWeight = weights.reduce((acc, w) => acc + w, 0)
+  if (weights.length === 0 || totalWeight <= 0) return weights.map(() => ZERO_MONEY)
+  const exact = weights.map((w) => (total * w) / totalWeight)
+  const shares = exact.map((c) => Math.floor(c))
+  let remainder = total - shares.reduce((acc, c) => acc + c, 0)
+
+  const order = exact
+    .map((c, i) => ({ i, fraction: c - Math.floor(c) }))
+    .sort((a, b) => b.fraction - a.fraction || a.i - b.i)
+  for (let k = 0; remainder > 0; k = (k + 1) % weights.length) {
+    shares[order[k].i] += 1
+    remainder -= 1
+  }
+  return shares.map(paise)
+}
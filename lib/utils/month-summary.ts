@@ -0,0 +1,107 @@
+/**
+ * month-summary.ts - Monthly totals for the month-grouped timeline (PRD Feature 3)
+ *
+ * Purpose: Month total spend and, per member, paid vs. owed and net change for the month
+ * Responsibilities: Group expenses/settlements by month; reuse balance rules for the net
+ * Dependencies: lib/types/expense.types, lib/utils/balance-calculator, lib/utils/date-keys,
+ *   lib/utils/money
+ *
+ * Expenses belong to the month of their expense date; settlements to the month they were made.
+ * net = paid − owed + settlements paid − settlements received (same rules as calculateBalances).
+ */
+
+import type { Expense, Money, Settlement } from '@/lib/types/expense.types'
+import { calculateBalances, getPayers } from '@/lib/utils/balance-calculator'
+import { toMonthKey, fromDateKey } from '@/lib/utils/date-keys'
+import { ZERO_MONEY, addMoney } from '@/lib/utils/money'
+
+export interface MemberMonthSummary {
+  userId: string
+  /** What they paid towards expenses this month */
+  paid: Money
+  /** Their share of this month's expenses */
+  owed: Money
+  /** Change in their balance over the month (settlements included) */
+  net: Money
+}
+
+export interface MonthSummary {
+  /** 'YYYY-MM' */
+  monthKey: string
+  /** First day of the month (local midnight) */
+  month: Date
+  /** Sum of expense amounts (room spend) */
+  total: Money
+  expenseCount: number
+  members: MemberMonthSummary[]
+}
+
+/** First day of the month for a 'YYYY-MM' key */
+export function monthFromKey(monthKey: string): Date {
+  return fromDateKey(`${monthKey}-01`)
+}
+
+/**
+ * Summary for one month
+ *
+ * @param monthKey - 'YYYY-MM'
+ * @param expenses - Room expenses (trash excluded)
+ * @param settlements - Room settlements
+ * @param memberIds - Current room members (always listed, even with no activity)
+ */
+export function getMonthSummary(
+  monthKey: string,
+  expenses: Expense[],
+  settlements: Settlement[],
+  memberIds: string[]
+): MonthSummary {
+  const monthExpenses = expenses.filter((e) => toMonthKey(e.expenseDate) === monthKey)
+  const monthSettlements = settlements.filter((s) => toMonthKey(s.settledAt) === monthKey)
+
+  const paid: Record<string, Money> = {}
+  const owed: Record<string, Money> = {}
+  let total = ZERO_MONEY
+  monthExpenses.forEach((expense) => {
+    total = addMoney(total, expense.amount)
+    getPayers(expense).forEach((p) => {
+      paid[p.userId] = addMoney(paid[p.userId] ?? ZERO_MONEY, p.amount)
+    })
+    expense.splits.forEach((sp) => {
+      owed[sp.userId] = addMoney(owed[sp.userId] ?? ZERO_MONEY, sp.amount)
+    })
+  })
+
+  const net = calculateBalances(monthExpenses, memberIds, monthSettlements)
+  // Former members who still show up in this month's records stay in the summary
+  const userIds = [
+    ...memberIds,
+    ...Object.keys(net).filter((id) => !memberIds.includes(id)),
+  ]
+
+  return {
+    monthKey,
+    month: monthFromKey(monthKey),
+    total,
+    expenseCount: monthExpenses.length,
+    members: userIds.map((userId) => ({
+      userId,
+      paid: paid[userId] ?? ZERO_MONEY,
+      owed: owed[userId] ?? ZERO_MONEY,
+      net: net[userId] ?? ZERO_MONEY,
+    })),
+  }
+}
+
+/**
+ * Months that have any expense or settlement, newest first
+ *
+ * @param expenses - Room expenses
+ * @param settlements - Room settlements
+ * @returns 'YYYY-MM' keys
+ */
+export function getActiveMonthKeys(expenses: Expense[], settlements: Settlement[]): string[] {
+  const keys = new Set<string>()
+  expenses.forEach((e) => keys.add(toMonthKey(e.expenseDate)))
+  settlements.forEach((s) => keys.add(toMonthKey(s.settledAt)))
+  return [...keys].sort((a, b) => b.localeCompare(a))
+}
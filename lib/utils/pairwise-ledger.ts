@@ -0,0 +1,89 @@
+/**
+ * pairwise-ledger.ts - Everything between two members, with a running balance
+ *
+ * Purpose: Drill-down behind one person in "You give" / "You get"
+ * Responsibilities: Pick the expenses and settlements that move money between the pair;
+ *   order them by date; keep a running net (same rules as getSettlementBreakdown)
+ * Dependencies: lib/types/expense.types, lib/utils/balance-calculator, lib/utils/money
+ *
+ * Amounts are from userId's side: positive = otherUserId owes userId more after the entry.
+ * The last entry's balance equals the netted youGive / youGet amount for that person.
+ *
+ * @example
+ * ```ts
+ * const ledger = getPairwiseLedger(expenses, settlements, me.id, ravi.id)
+ * // [{ kind: 'expense', amount: -50000, balance: -50000, ... },
+ * //  { kind: 'expense', amount: 30000, balance: -20000, ... }]  → you owe Ravi ₹200
+ * ```
+ */
+
+import type { Expense, Money, Settlement } from '@/lib/types/expense.types'
+import {
+  getPairwiseExpenseAmount,
+  getPairwiseSettlementAmount,
+} from '@/lib/utils/balance-calculator'
+import { ZERO_MONEY, addMoney } from '@/lib/utils/money'
+
+export type PairwiseLedgerEntry = {
+  id: string
+  /** Expense date or settlement date */
+  date: Date
+  /** What this entry adds to what otherUserId owes userId (negative = userId owes more) */
+  amount: Money
+  /** Net after this entry (positive = otherUserId owes userId) */
+  balance: Money
+} & ({ kind: 'expense'; expense: Expense } | { kind: 'settlement'; settlement: Settlement })
+
+/**
+ * Expenses and settlements between two members, oldest first, with a running balance
+ *
+ * @param expenses - Room expenses (trash excluded)
+ * @param settlements - Room settlements
+ * @param userId - Whose side the amounts are from (usually the current user)
+ * @param otherUserId - The other member
+ * @returns Entries that move money between the pair (expenses that net to zero are left out)
+ */
+export function getPairwiseLedger(
+  expenses: Expense[],
+  settlements: Settlement[],
+  userId: string,
+  otherUserId: string
+): PairwiseLedgerEntry[] {
+  const entries: PairwiseLedgerEntry[] = []
+  expenses.forEach((expense) => {
+    const amount = getPairwiseExpenseAmount(expense, userId, otherUserId)
+    if (amount === 0) return
+    entries.push({
+      kind: 'expense',
+      id: expense.id,
+      date: expense.expenseDate,
+      amount,
+      balance: ZERO_MONEY,
+      expense,
+    })
+  })
+  settlements.forEach((settlement) => {
+    const amount = getPairwiseSettlementAmount(settlement, userId, otherUserId)
+    if (amount === 0) return
+    entries.push({
+      kind: 'settlement',
+      id: settlement.id,
+      date: settlement.settledAt,
+      amount,
+      balance: ZERO_MONEY,
+      settlement,
+    })
+  })
+
+  // Same day: in the order they were entered
+  const createdAt = (entry: PairwiseLedgerEntry) =>
+    (entry.kind === 'expense' ? entry.expense.createdAt : entry.settlement.createdAt).getTime()
+  entries.sort((a, b) => a.date.getTime() - b.date.getTime() || createdAt(a) - createdAt(b))
+
+  let balance = ZERO_MONEY
+  entries.forEach((entry) => {
+    balance = addMoney(balance, entry.amount)
+    entry.balance = balance
+  })
+  return entries
+}
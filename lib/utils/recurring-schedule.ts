@@ -0,0 +1,55 @@
+/**
+ * recurring-schedule.ts - Due dates for recurring expense templates
+ *
+ * Purpose: Work out when a template posts next, and describe its schedule
+ * Responsibilities: Clamp day-of-month to short months; step by frequency
+ * Dependencies: lib/types/expense.types
+ *
+ * Mirrors recurring_due_date / recurring_next_due in supabase/migrations (the cron job
+ * uses the SQL versions; the app uses these when a template is created).
+ *
+ * @example
+ * ```ts
+ * recurringDueDate(new Date(2025, 1, 1), 31)                  // Feb 28 2025
+ * nextRecurringDueDate(new Date(2025, 0, 31), 'monthly', 31)  // Feb 28 2025
+ * ```
+ */
+
+import type { RecurringFrequency } from '@/lib/types/expense.types'
+
+const FREQUENCY_MONTHS: Record<RecurringFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+}
+
+/** Due day in the month containing `month`: dayOfMonth, or the month's last day if shorter */
+export function recurringDueDate(month: Date, dayOfMonth: number): Date {
+  const lastDay = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate()
+  return new Date(month.getFullYear(), month.getMonth(), Math.min(dayOfMonth, lastDay))
+}
+
+/** Due date one period after the instance due on `after` */
+export function nextRecurringDueDate(
+  after: Date,
+  frequency: RecurringFrequency,
+  dayOfMonth: number
+): Date {
+  const month = new Date(after.getFullYear(), after.getMonth() + FREQUENCY_MONTHS[frequency], 1)
+  return recurringDueDate(month, dayOfMonth)
+}
+
+/** e.g. "Monthly on the 5th", "Every 3 months on the 31st" */
+export function describeRecurrence(frequency: RecurringFrequency, dayOfMonth: number): string {
+  const suffix =
+    dayOfMonth % 10 === 1 && dayOfMonth !== 11
+      ? 'st'
+      : dayOfMonth % 10 === 2 && dayOfMonth !== 12
+        ? 'nd'
+        : dayOfMonth % 10 === 3 && dayOfMonth !== 13
+          ? 'rd'
+          : 'th'
+  const period =
+    frequency === 'monthly' ? 'Monthly' : frequency === 'quarterly' ? 'Every 3 months' : 'Yearly'
+  return `${period} on the ${dayOfMonth}${suffix}`
+}
@@ -0,0 +1,50 @@
+/**
+ * room-roles.ts - Who may manage a room
+ *
+ * Purpose: One place for the owner / admin / member checks the UI makes
+ * Responsibilities: Look up a member's role; answer "is admin" and "may remove / promote / demote"
+ * Dependencies: lib/types/expense.types
+ *
+ * Mirrors the database rules (is_group_admin, remove_member_from_group, promote_member,
+ * demote_member); the server enforces them, these only decide what to show.
+ *
+ * @example
+ * ```ts
+ * isRoomAdmin(room, user.id)            // owner or admin
+ * canRemoveMember(room, user.id, 'u-2') // admins remove members; the owner removes admins too
+ * ```
+ */
+
+import type { Group, GroupRole } from '@/lib/types/expense.types'
+
+type RoomRoles = Pick<Group, 'members' | 'createdBy'> | null | undefined
+
+/** A member's role; null when they are not a member. Falls back to createdBy when roles are missing */
+export function memberRole(room: RoomRoles, userId: string | undefined): GroupRole | null {
+  if (!room || !userId) return null
+  const member = room.members.find((m) => m.id === userId)
+  if (!member) return null
+  if (member.role) return member.role
+  return room.createdBy === userId ? 'owner' : 'member'
+}
+
+/** Owner of the room */
+export function isRoomOwner(room: RoomRoles, userId: string | undefined): boolean {
+  return memberRole(room, userId) === 'owner'
+}
+
+/** Owner or admin: may remove members, edit any expense and change room settings */
+export function isRoomAdmin(room: RoomRoles, userId: string | undefined): boolean {
+  const role = memberRole(room, userId)
+  return role === 'owner' || role === 'admin'
+}
+
+/** Someone else may be removed by an admin if they are a member, by the owner if they are an admin */
+export function canRemoveMember(room: RoomRoles, userId: string | undefined, memberId: string): boolean {
+  if (userId === memberId) return false
+  const role = memberRole(room, userId)
+  const memberRoleValue = memberRole(room, memberId)
+  if (memberRoleValue === 'member') return role === 'owner' || role === 'admin'
+  if (memberRoleValue === 'admin') return role === 'owner'
+  return false
+}
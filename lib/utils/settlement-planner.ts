@@ -0,0 +1,80 @@
+/**
+ * settlement-planner.ts - Minimal "who pays whom" plan from net balances
+ *
+ * Purpose: Turn a Balances map into the smallest practical set of transfers
+ * Responsibilities: Paisa-accurate matching of debtors to creditors
+ * Dependencies: lib/types/expense.types, lib/utils/money
+ *
+ * Math:
+ * - Balances are Money (integer paise), so every transfer is exact to the paisa
+ * - Pass 1: a debtor who owes exactly what a creditor is owed pays them directly
+ * - Pass 2: repeatedly match the largest debtor with the largest creditor
+ * - Each greedy step clears at least one person, so n people need at most n - 1 transfers
+ *
+ * @example
+ * ```ts
+ * const plan = planSettlements({ a: 15000, b: -5000, c: -10000 })
+ * // [{ fromUserId: 'c', toUserId: 'a', amount: 10000 }, { fromUserId: 'b', toUserId: 'a', amount: 5000 }]
+ * ```
+ */
+
+import type { Balances, SettlementTransfer } from '@/lib/types/expense.types'
+import { paise } from '@/lib/utils/money'
+
+/** One side of the plan: user id and remaining paise to pay or receive (always positive). */
+interface Party {
+  userId: string
+  cents: number
+}
+
+/** Largest amount first; ties broken by userId so the plan is deterministic. */
+function byCentsDesc(a: Party, b: Party): number {
+  return b.cents - a.cents || a.userId.localeCompare(b.userId)
+}
+
+/**
+ * Builds the settle-up plan for a room.
+ *
+ * @param balances - Net balance per user (positive = owed, negative = owes)
+ * @returns Transfers (payer → receiver) that settle every balance; empty when all settled
+ */
+export function planSettlements(balances: Balances): SettlementTransfer[] {
+  const debtors: Party[] = []
+  const creditors: Party[] = []
+
+  Object.entries(balances).forEach(([userId, balance]) => {
+    if (balance < 0) debtors.push({ userId, cents: -balance })
+    if (balance > 0) creditors.push({ userId, cents: balance })
+  })
+
+  const transfers: SettlementTransfer[] = []
+  const pay = (debtor: Party, creditor: Party, cents: number) => {
+    transfers.push({ fromUserId: debtor.userId, toUserId: creditor.userId, amount: paise(cents) })
+    debtor.cents -= cents
+    creditor.cents -= cents
+  }
+
+  debtors.sort(byCentsDesc)
+  creditors.sort(byCentsDesc)
+
+  // Pass 1: exact matches settle two people with one transfer
+  debtors.forEach((debtor) => {
+    const match = creditors.find((c) => c.cents > 0 && c.cents === debtor.cents)
+    if (match) pay(debtor, match, debtor.cents)
+  })
+
+  // Pass 2: greedy largest-to-largest on whatever is left
+  let openDebtors = debtors.filter((d) => d.cents > 0)
+  let openCreditors = creditors.filter((c) => c.cents > 0)
+  while (openDebtors.length > 0 && openCreditors.length > 0) {
+    openDebtors.sort(byCentsDesc)
+    openCreditors.sort(byCentsDesc)
+    const debtor = openDebtors[0]
+    const creditor = openCreditors[0]
+    pay(debtor, creditor, Math.min(debtor.cents, creditor.cents))
+    openDebtors = openDebtors.filter((d) => d.cents > 0)
+    openCreditors = openCreditors.filter((c) => c.cents > 0)
+  }
+
+  return transfers
+}
@@ -0,0 +1,55 @@
+-- Migration: Settlements (recorded repayments between members)
+-- Run manually via Supabase SQL Editor.
+--
+-- Schema matches Settlement in lib/types/expense.types.ts:
+--   Settlement: id, fromUserId, toUserId, amount, settledAt, method, note, createdBy, createdAt
+-- Settling up no longer requires deleting expenses; balances apply settlements on top of expenses.
+
+create table if not exists public.settlements (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups(id) on delete cascade,
+  from_user_id uuid not null references auth.users(id) on delete cascade,
+  to_user_id uuid not null references auth.users(id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  settled_at timestamptz not null default now(),
+  method text not null default 'cash' check (method in ('cash', 'upi', 'bank_transfer', 'other')),
+  note text,
+  created_by uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  check (from_user_id <> to_user_id)
+);
+
+create index if not exists idx_settlements_group_id on public.settlements (group_id);
+create index if not exists idx_settlements_settled_at on public.settlements (settled_at desc);
+
+alter table public.settlements enable row level security;
+
+-- Helper: membership check that bypasses group_members RLS (which only exposes the caller's own rows)
+create or replace function public.is_group_member(p_group_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $is_group_member$
+  select exists (
+    select 1 from public.group_members
+    where group_id = p_group_id and user_id = p_user_id
+  );
+$is_group_member$;
+
+create policy "Members can read settlements of their groups"
+  on public.settlements for select
+  using (
+    group_id in (select group_id from public.group_members where user_id = auth.uid())
+  );
+
+-- Only a party to the payment can record it, and both parties must be members of the group
+create policy "Members can record their own settlements"
+  on public.settlements for insert
+  with check (
+    created_by = auth.uid()
+    and auth.uid() in (from_user_id, to_user_id)
+    and public.is_group_member(group_id, from_user_id)
+    and public.is_group_member(group_id, to_user_id)
+  );
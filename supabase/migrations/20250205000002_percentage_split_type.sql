@@ -0,0 +1,10 @@
+-- Allow 'percentage' split type.
+-- Percentage splits store each participant's share in splits JSONB alongside the computed amount:
+--   [{ "userId": "...", "amount": 60.00, "percentage": 60 }, ...]
+
+alter table public.expenses
+  drop constraint if exists expenses_split_type_check;
+
+alter table public.expenses
+  add constraint expenses_split_type_check
+  check (split_type in ('equal', 'custom', 'percentage'));
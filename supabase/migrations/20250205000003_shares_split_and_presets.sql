@@ -0,0 +1,44 @@
+-- Shares split type + room-level share presets.
+-- Shares splits store each participant's weight in splits JSONB alongside the computed amount:
+--   [{ "userId": "...", "amount": 9000.00, "shares": 2 }, ...]
+-- share_presets keeps named weight maps per room (e.g. "Rent by room size": { userId: 2, ... }).
+
+-- 1) Allow 'shares' split type
+alter table public.expenses
+  drop constraint if exists expenses_split_type_check;
+
+alter table public.expenses
+  add constraint expenses_split_type_check
+  check (split_type in ('equal', 'custom', 'percentage', 'shares'));
+
+-- 2) Share presets (room-level default weights)
+create table if not exists public.share_presets (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups(id) on delete cascade,
+  name text not null check (trim(name) <> ''),
+  weights jsonb not null default '{}',
+  created_by uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  updated_at timestamptz not null default now(),
+  unique (group_id, name)
+);
+
+create index if not exists idx_share_presets_group_id on public.share_presets (group_id);
+
+alter table public.share_presets enable row level security;
+
+create policy "Members can read share presets of their groups"
+  on public.share_presets for select
+  using (public.is_group_member(group_id, auth.uid()));
+
+create policy "Members can create share presets in their groups"
+  on public.share_presets for insert
+  with check (public.is_group_member(group_id, auth.uid()));
+
+create policy "Members can update share presets in their groups"
+  on public.share_presets for update
+  using (public.is_group_member(group_id, auth.uid()))
+  with check (public.is_group_member(group_id, auth.uid()));
+
+create policy "Members can delete share presets in their groups"
+  on public.share_presets for delete
+  using (public.is_group_member(group_id, auth.uid()));
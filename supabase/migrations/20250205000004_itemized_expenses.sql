@@ -0,0 +1,15 @@
+-- Itemized receipt splitting.
+-- items:   [{ "name": "Paneer tikka", "amount": 320, "participantIds": ["...", "..."] }, ...]
+-- charges: { "tax": 45.5, "serviceCharge": 30, "tip": 50 }
+-- splits are still stored (derived from items + charges) so balances never need to re-derive them.
+
+alter table public.expenses
+  add column if not exists items jsonb,
+  add column if not exists charges jsonb;
+
+alter table public.expenses
+  drop constraint if exists expenses_split_type_check;
+
+alter table public.expenses
+  add constraint expenses_split_type_check
+  check (split_type in ('equal', 'custom', 'percentage', 'shares', 'itemized'));
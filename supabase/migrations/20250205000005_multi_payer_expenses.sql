@@ -0,0 +1,14 @@
+-- Multi-payer expenses.
+-- payers: [{ "userId": "...", "amount": 600 }, { "userId": "...", "amount": 400 }]
+-- null payers = single payer: paid_by paid the full amount (all existing rows keep working).
+-- paid_by stays the primary payer (largest payment) for display and delete permission.
+
+alter table public.expenses
+  add column if not exists payers jsonb;
+
+alter table public.expenses
+  drop constraint if exists expenses_payers_is_array;
+
+alter table public.expenses
+  add constraint expenses_payers_is_array
+  check (payers is null or jsonb_typeof(payers) = 'array');
@@ -0,0 +1,66 @@
+-- Record expenses paid by another member.
+-- 1) entered_by: who logged the expense (always the caller), distinct from paid_by.
+-- 2) Trigger: paid_by and every payers[] entry must be members of the expense's group.
+-- 3) Delete: the payer or the person who entered the expense may delete it.
+
+-- 1) entered_by column (existing rows: the payer entered them)
+alter table public.expenses
+  add column if not exists entered_by uuid references auth.users(id) on delete set null;
+
+update public.expenses
+set entered_by = (paid_by->>'id')::uuid
+where entered_by is null
+  and (paid_by->>'id') ~* '^[0-9a-f-]{36}$'
+  and exists (select 1 from auth.users u where u.id = (paid_by->>'id')::uuid);
+
+alter table public.expenses
+  alter column entered_by set default auth.uid();
+
+-- 2) Server-side payer checks
+create or replace function public.check_expense_payers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $check_expense_payers$
+declare
+  v_payer record;
+begin
+  -- entered_by is always the caller when called from the app (cannot be spoofed)
+  if auth.uid() is not null then
+    new.entered_by := auth.uid();
+  end if;
+
+  if (new.paid_by->>'id') is null
+     or not public.is_group_member(new.group_id::uuid, (new.paid_by->>'id')::uuid) then
+    raise exception 'Payer must be a member of this room';
+  end if;
+
+  if new.payers is not null then
+    for v_payer in select value from jsonb_array_elements(new.payers) loop
+      if (v_payer.value->>'userId') is null
+         or not public.is_group_member(new.group_id::uuid, (v_payer.value->>'userId')::uuid) then
+        raise exception 'Every payer must be a member of this room';
+      end if;
+    end loop;
+  end if;
+
+  return new;
+end;
+$check_expense_payers$;
+
+drop trigger if exists trg_check_expense_payers on public.expenses;
+
+create trigger trg_check_expense_payers
+  before insert on public.expenses
+  for each row execute function public.check_expense_payers();
+
+-- 3) Payer or enterer can delete
+drop policy if exists "Only payer can delete own expense" on public.expenses;
+
+create policy "Payer or enterer can delete expense"
+  on public.expenses for delete
+  using (
+    (paid_by->>'id') = auth.uid()::text
+    or entered_by = auth.uid()
+  );
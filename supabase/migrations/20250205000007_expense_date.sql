@@ -0,0 +1,16 @@
+-- Expense date (backdating).
+-- expense_date is the calendar day the expense happened; created_at stays the time it was logged.
+-- Existing rows: expense_date = day of created_at.
+
+alter table public.expenses
+  add column if not exists expense_date date;
+
+update public.expenses
+set expense_date = created_at::date
+where expense_date is null;
+
+alter table public.expenses
+  alter column expense_date set default current_date,
+  alter column expense_date set not null;
+
+create index if not exists idx_expenses_expense_date on public.expenses (group_id, expense_date desc, created_at desc);
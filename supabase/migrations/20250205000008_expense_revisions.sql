@@ -0,0 +1,148 @@
+-- Edit expenses with an audit history.
+-- 1) expenses.updated_at: last edit time (null = never edited).
+-- 2) expense_revisions: one row per edit holding the previous version of the expense.
+-- 3) Only the payer or the room admin (groups.created_by) may edit; enforced by RLS and the revision trigger.
+-- 4) check_expense_payers now also runs on update (payer membership), but entered_by only changes on insert.
+
+-- 1) Last edit time
+alter table public.expenses
+  add column if not exists updated_at timestamptz;
+
+-- 2) Revisions: previous_version is the full expenses row (snake_case) before the edit
+create table if not exists public.expense_revisions (
+  id uuid primary key default gen_random_uuid(),
+  expense_id uuid not null references public.expenses(id) on delete cascade,
+  group_id text not null,
+  revised_by uuid references auth.users(id) on delete set null,
+  revised_at timestamptz not null default now(),
+  changed_fields text[] not null default '{}',
+  previous_version jsonb not null
+);
+
+create index if not exists idx_expense_revisions_expense_id
+  on public.expense_revisions (expense_id, revised_at desc);
+
+alter table public.expense_revisions enable row level security;
+
+drop policy if exists "Members can read expense revisions" on public.expense_revisions;
+
+create policy "Members can read expense revisions"
+  on public.expense_revisions for select
+  using (public.is_group_member(group_id::uuid, auth.uid()));
+
+-- No insert/update/delete policies: rows are written only by the trigger below
+
+-- 3) Who may edit: payer or room admin
+create or replace function public.can_edit_expense(p_group_id text, p_paid_by jsonb, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $can_edit_expense$
+  select p_user_id is not null
+    and (
+      (p_paid_by->>'id') = p_user_id::text
+      or exists (
+        select 1 from public.groups g
+        where g.id = p_group_id::uuid and g.created_by = p_user_id
+      )
+    );
+$can_edit_expense$;
+
+drop policy if exists "Payer or admin can update expense" on public.expenses;
+
+create policy "Payer or admin can update expense"
+  on public.expenses for update
+  using (public.can_edit_expense(group_id, paid_by, auth.uid()))
+  with check (public.is_group_member(group_id::uuid, auth.uid()));
+
+create or replace function public.record_expense_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $record_expense_revision$
+declare
+  v_changed text[] := '{}';
+begin
+  if auth.uid() is not null and not public.can_edit_expense(old.group_id, old.paid_by, auth.uid()) then
+    raise exception 'Only the payer or the room admin can edit this expense';
+  end if;
+
+  -- Identity and provenance never change on edit
+  new.id := old.id;
+  new.group_id := old.group_id;
+  new.entered_by := old.entered_by;
+  new.created_at := old.created_at;
+
+  if new.title is distinct from old.title then v_changed := v_changed || 'title'; end if;
+  if new.amount is distinct from old.amount then v_changed := v_changed || 'amount'; end if;
+  if new.expense_date is distinct from old.expense_date then v_changed := v_changed || 'expense_date'; end if;
+  if new.paid_by is distinct from old.paid_by or new.payers is distinct from old.payers then
+    v_changed := v_changed || 'paid_by';
+  end if;
+  if new.split_type is distinct from old.split_type
+     or new.splits is distinct from old.splits
+     or new.items is distinct from old.items
+     or new.charges is distinct from old.charges then
+    v_changed := v_changed || 'splits';
+  end if;
+
+  -- Nothing changed: keep the row as is, no revision
+  if array_length(v_changed, 1) is null then
+    return new;
+  end if;
+
+  insert into public.expense_revisions (expense_id, group_id, revised_by, changed_fields, previous_version)
+  values (old.id, old.group_id, auth.uid(), v_changed, to_jsonb(old));
+
+  new.updated_at := now();
+  return new;
+end;
+$record_expense_revision$;
+
+drop trigger if exists trg_record_expense_revision on public.expenses;
+
+create trigger trg_record_expense_revision
+  before update on public.expenses
+  for each row execute function public.record_expense_revision();
+
+-- 4) Payer membership checks on update too; entered_by stays the original enterer
+create or replace function public.check_expense_payers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $check_expense_payers$
+declare
+  v_payer record;
+begin
+  -- entered_by is always the caller when called from the app (cannot be spoofed)
+  if tg_op = 'INSERT' and auth.uid() is not null then
+    new.entered_by := auth.uid();
+  end if;
+
+  if (new.paid_by->>'id') is null
+     or not public.is_group_member(new.group_id::uuid, (new.paid_by->>'id')::uuid) then
+    raise exception 'Payer must be a member of this room';
+  end if;
+
+  if new.payers is not null then
+    for v_payer in select value from jsonb_array_elements(new.payers) loop
+      if (v_payer.value->>'userId') is null
+         or not public.is_group_member(new.group_id::uuid, (v_payer.value->>'userId')::uuid) then
+        raise exception 'Every payer must be a member of this room';
+      end if;
+    end loop;
+  end if;
+
+  return new;
+end;
+$check_expense_payers$;
+
+drop trigger if exists trg_check_expense_payers on public.expenses;
+
+create trigger trg_check_expense_payers
+  before insert or update on public.expenses
+  for each row execute function public.check_expense_payers();
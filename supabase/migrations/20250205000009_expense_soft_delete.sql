@@ -0,0 +1,198 @@
+-- Soft delete for expenses (trash + undo).
+-- 1) deleted_at / deleted_by: a deleted expense stays in the table until it is purged.
+-- 2) soft_delete_expense / restore_expense RPCs: payer or enterer (same people who could delete before).
+-- 3) Permanent delete only for trashed rows; purge_expired_expenses removes trash older than 30 days.
+-- 4) record_expense_revision ignores trash moves and refuses edits to trashed expenses.
+-- 5) check_expense_payers only re-checks payers on update when they change (a payer who left
+--    the room must not block deleting or restoring their old expenses).
+
+-- 1) Trash columns
+alter table public.expenses
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references auth.users(id) on delete set null;
+
+create index if not exists idx_expenses_deleted_at
+  on public.expenses (group_id, deleted_at)
+  where deleted_at is not null;
+
+-- 2) Move to trash / restore
+create or replace function public.can_delete_expense(p_expense_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $can_delete_expense$
+  select exists (
+    select 1 from public.expenses e
+    where e.id = p_expense_id
+      and p_user_id is not null
+      and ((e.paid_by->>'id') = p_user_id::text or e.entered_by = p_user_id)
+  );
+$can_delete_expense$;
+
+create or replace function public.soft_delete_expense(p_expense_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $soft_delete_expense$
+begin
+  if not public.can_delete_expense(p_expense_id, auth.uid()) then
+    raise exception 'Only the payer or the person who added this expense can delete it';
+  end if;
+
+  update public.expenses
+  set deleted_at = now(), deleted_by = auth.uid()
+  where id = p_expense_id and deleted_at is null;
+end;
+$soft_delete_expense$;
+
+create or replace function public.restore_expense(p_expense_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $restore_expense$
+begin
+  if not public.can_delete_expense(p_expense_id, auth.uid()) then
+    raise exception 'Only the payer or the person who added this expense can restore it';
+  end if;
+
+  update public.expenses
+  set deleted_at = null, deleted_by = null
+  where id = p_expense_id and deleted_at is not null;
+end;
+$restore_expense$;
+
+grant execute on function public.soft_delete_expense(uuid) to authenticated;
+grant execute on function public.restore_expense(uuid) to authenticated;
+
+-- 3) Hard delete: only from the trash
+drop policy if exists "Payer or enterer can delete expense" on public.expenses;
+
+create policy "Payer or enterer can purge trashed expense"
+  on public.expenses for delete
+  using (
+    deleted_at is not null
+    and ((paid_by->>'id') = auth.uid()::text or entered_by = auth.uid())
+  );
+
+-- Retention window: trash older than 30 days is removed for good (called when the trash is opened)
+create or replace function public.purge_expired_expenses(p_group_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $purge_expired_expenses$
+declare
+  v_count integer;
+begin
+  if not public.is_group_member(p_group_id, auth.uid()) then
+    raise exception 'Not a member of this room';
+  end if;
+
+  delete from public.expenses
+  where group_id = p_group_id::text
+    and deleted_at is not null
+    and deleted_at < now() - interval '30 days';
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$purge_expired_expenses$;
+
+grant execute on function public.purge_expired_expenses(uuid) to authenticated;
+
+-- 4) Revisions: trash moves are not edits; trashed expenses can't be edited
+create or replace function public.record_expense_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $record_expense_revision$
+declare
+  v_changed text[] := '{}';
+begin
+  if new.title is distinct from old.title then v_changed := v_changed || 'title'; end if;
+  if new.amount is distinct from old.amount then v_changed := v_changed || 'amount'; end if;
+  if new.expense_date is distinct from old.expense_date then v_changed := v_changed || 'expense_date'; end if;
+  if new.paid_by is distinct from old.paid_by or new.payers is distinct from old.payers then
+    v_changed := v_changed || 'paid_by';
+  end if;
+  if new.split_type is distinct from old.split_type
+     or new.splits is distinct from old.splits
+     or new.items is distinct from old.items
+     or new.charges is distinct from old.charges then
+    v_changed := v_changed || 'splits';
+  end if;
+
+  -- Identity and provenance never change on edit
+  new.id := old.id;
+  new.group_id := old.group_id;
+  new.entered_by := old.entered_by;
+  new.created_at := old.created_at;
+
+  -- Nothing user-visible changed (e.g. moved to / restored from trash): no revision
+  if array_length(v_changed, 1) is null then
+    return new;
+  end if;
+
+  if auth.uid() is not null and not public.can_edit_expense(old.group_id, old.paid_by, auth.uid()) then
+    raise exception 'Only the payer or the room admin can edit this expense';
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Restore this expense before editing it';
+  end if;
+
+  -- Trash state only changes through soft_delete_expense / restore_expense
+  new.deleted_at := old.deleted_at;
+  new.deleted_by := old.deleted_by;
+
+  insert into public.expense_revisions (expense_id, group_id, revised_by, changed_fields, previous_version)
+  values (old.id, old.group_id, auth.uid(), v_changed, to_jsonb(old));
+
+  new.updated_at := now();
+  return new;
+end;
+$record_expense_revision$;
+
+-- 5) Payer membership: only re-check on update when payers changed
+create or replace function public.check_expense_payers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $check_expense_payers$
+declare
+  v_payer record;
+begin
+  -- entered_by is always the caller when called from the app (cannot be spoofed)
+  if tg_op = 'INSERT' and auth.uid() is not null then
+    new.entered_by := auth.uid();
+  end if;
+
+  if tg_op = 'UPDATE'
+     and new.paid_by is not distinct from old.paid_by
+     and new.payers is not distinct from old.payers then
+    return new;
+  end if;
+
+  if (new.paid_by->>'id') is null
+     or not public.is_group_member(new.group_id::uuid, (new.paid_by->>'id')::uuid) then
+    raise exception 'Payer must be a member of this room';
+  end if;
+
+  if new.payers is not null then
+    for v_payer in select value from jsonb_array_elements(new.payers) loop
+      if (v_payer.value->>'userId') is null
+         or not public.is_group_member(new.group_id::uuid, (v_payer.value->>'userId')::uuid) then
+        raise exception 'Every payer must be a member of this room';
+      end if;
+    end loop;
+  end if;
+
+  return new;
+end;
+$check_expense_payers$;
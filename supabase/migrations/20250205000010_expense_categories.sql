@@ -0,0 +1,68 @@
+-- Expense categories.
+-- Built-in set: rent, utilities, groceries, food, travel, household, other.
+-- Existing expenses become 'other'. Category changes are recorded in the edit history.
+
+alter table public.expenses
+  add column if not exists category text not null default 'other';
+
+alter table public.expenses
+  drop constraint if exists expenses_category_check;
+
+alter table public.expenses
+  add constraint expenses_category_check
+  check (category in ('rent', 'utilities', 'groceries', 'food', 'travel', 'household', 'other'));
+
+-- Record category edits in expense_revisions
+create or replace function public.record_expense_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $record_expense_revision$
+declare
+  v_changed text[] := '{}';
+begin
+  if new.title is distinct from old.title then v_changed := v_changed || 'title'; end if;
+  if new.amount is distinct from old.amount then v_changed := v_changed || 'amount'; end if;
+  if new.expense_date is distinct from old.expense_date then v_changed := v_changed || 'expense_date'; end if;
+  if new.category is distinct from old.category then v_changed := v_changed || 'category'; end if;
+  if new.paid_by is distinct from old.paid_by or new.payers is distinct from old.payers then
+    v_changed := v_changed || 'paid_by';
+  end if;
+  if new.split_type is distinct from old.split_type
+     or new.splits is distinct from old.splits
+     or new.items is distinct from old.items
+     or new.charges is distinct from old.charges then
+    v_changed := v_changed || 'splits';
+  end if;
+
+  -- Identity and provenance never change on edit
+  new.id := old.id;
+  new.group_id := old.group_id;
+  new.entered_by := old.entered_by;
+  new.created_at := old.created_at;
+
+  -- Nothing user-visible changed (e.g. moved to / restored from trash): no revision
+  if array_length(v_changed, 1) is null then
+    return new;
+  end if;
+
+  if auth.uid() is not null and not public.can_edit_expense(old.group_id, old.paid_by, auth.uid()) then
+    raise exception 'Only the payer or the room admin can edit this expense';
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Restore this expense before editing it';
+  end if;
+
+  -- Trash state only changes through soft_delete_expense / restore_expense
+  new.deleted_at := old.deleted_at;
+  new.deleted_by := old.deleted_by;
+
+  insert into public.expense_revisions (expense_id, group_id, revised_by, changed_fields, previous_version)
+  values (old.id, old.group_id, auth.uid(), v_changed, to_jsonb(old));
+
+  new.updated_at := now();
+  return new;
+end;
+$record_expense_revision$;
@@ -0,0 +1,61 @@
+-- Monthly category budgets + threshold alerts.
+-- category_budgets: room-level monthly cap per category, effective from starts_on (first day of a month)
+--   until a later row for the same category replaces it. amount 0 = no budget from that month.
+--   reset_schedule: when leftover (or overspend) stops carrying into the next month:
+--     monthly (no carry), quarterly, yearly, never (always carries).
+-- budget_alerts: one row per category, month and threshold (80 / 100) once it has been crossed,
+--   so every member sees the warning, not just whoever added the expense.
+
+create table if not exists public.category_budgets (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups(id) on delete cascade,
+  category text not null
+    check (category in ('rent', 'utilities', 'groceries', 'food', 'travel', 'household', 'other')),
+  amount numeric not null check (amount >= 0),
+  starts_on date not null check (extract(day from starts_on) = 1),
+  reset_schedule text not null default 'monthly'
+    check (reset_schedule in ('monthly', 'quarterly', 'yearly', 'never')),
+  created_by uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  updated_at timestamptz not null default now(),
+  unique (group_id, category, starts_on)
+);
+
+create index if not exists idx_category_budgets_group_id on public.category_budgets (group_id);
+
+alter table public.category_budgets enable row level security;
+
+create policy "Members can read budgets of their groups"
+  on public.category_budgets for select
+  using (public.is_group_member(group_id, auth.uid()));
+
+create policy "Members can create budgets in their groups"
+  on public.category_budgets for insert
+  with check (public.is_group_member(group_id, auth.uid()));
+
+create policy "Members can update budgets in their groups"
+  on public.category_budgets for update
+  using (public.is_group_member(group_id, auth.uid()))
+  with check (public.is_group_member(group_id, auth.uid()));
+
+create table if not exists public.budget_alerts (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups(id) on delete cascade,
+  category text not null,
+  month date not null check (extract(day from month) = 1),
+  threshold integer not null check (threshold in (80, 100)),
+  created_by uuid default auth.uid() references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (group_id, category, month, threshold)
+);
+
+create index if not exists idx_budget_alerts_group_month on public.budget_alerts (group_id, month);
+
+alter table public.budget_alerts enable row level security;
+
+create policy "Members can read budget alerts of their groups"
+  on public.budget_alerts for select
+  using (public.is_group_member(group_id, auth.uid()));
+
+create policy "Members can raise budget alerts in their groups"
+  on public.budget_alerts for insert
+  with check (public.is_group_member(group_id, auth.uid()));
@@ -0,0 +1,161 @@
+-- Recurring expenses (rent, Wi-Fi, maid).
+-- 1) recurring_expenses: templates with frequency, day of month, payer, split definition, end date.
+--    next_due_on is the next instance to post; instances are posted on or after that day.
+-- 2) expenses.recurring_expense_id tags every posted instance; unique per (template, expense_date)
+--    so an instance can never be posted twice.
+-- 3) post_due_recurring_expenses(): posts every due instance (catching up missed ones) and advances
+--    next_due_on. Service role only; called by the /api/cron route.
+
+-- 1) Templates
+create table if not exists public.recurring_expenses (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups(id) on delete cascade,
+  title text not null check (trim(title) <> ''),
+  amount numeric not null check (amount > 0),
+  category text not null default 'other'
+    check (category in ('rent', 'utilities', 'groceries', 'food', 'travel', 'household', 'other')),
+  paid_by jsonb not null,
+  payers jsonb check (payers is null or jsonb_typeof(payers) = 'array'),
+  split_type text not null check (split_type in ('equal', 'custom', 'percentage', 'shares')),
+  splits jsonb not null default '[]',
+  frequency text not null check (frequency in ('monthly', 'quarterly', 'yearly')),
+  day_of_month integer not null check (day_of_month between 1 and 31),
+  start_date date not null,
+  end_date date check (end_date is null or end_date >= start_date),
+  next_due_on date not null,
+  active boolean not null default true,
+  -- Why the job paused this template (e.g. the payer left the room)
+  last_error text,
+  created_by uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_recurring_expenses_group_id on public.recurring_expenses (group_id);
+create index if not exists idx_recurring_expenses_due
+  on public.recurring_expenses (next_due_on)
+  where active;
+
+alter table public.recurring_expenses enable row level security;
+
+create policy "Members can read recurring expenses of their groups"
+  on public.recurring_expenses for select
+  using (public.is_group_member(group_id, auth.uid()));
+
+create policy "Members can create recurring expenses in their groups"
+  on public.recurring_expenses for insert
+  with check (
+    public.is_group_member(group_id, auth.uid())
+    and public.is_group_member(group_id, (paid_by->>'id')::uuid)
+  );
+
+-- Pause / resume / delete: whoever set it up, the payer, or the room admin
+create policy "Creator, payer or admin can update recurring expense"
+  on public.recurring_expenses for update
+  using (
+    created_by = auth.uid()
+    or public.can_edit_expense(group_id::text, paid_by, auth.uid())
+  )
+  with check (public.is_group_member(group_id, auth.uid()));
+
+create policy "Creator, payer or admin can delete recurring expense"
+  on public.recurring_expenses for delete
+  using (
+    created_by = auth.uid()
+    or public.can_edit_expense(group_id::text, paid_by, auth.uid())
+  );
+
+-- 2) Tag posted instances
+alter table public.expenses
+  add column if not exists recurring_expense_id uuid references public.recurring_expenses(id) on delete set null;
+
+create unique index if not exists uq_expenses_recurring_instance
+  on public.expenses (recurring_expense_id, expense_date)
+  where recurring_expense_id is not null;
+
+-- 3) Posting job
+-- Due day for a month: day_of_month, clamped to the month's length (31 → Feb 28/29)
+create or replace function public.recurring_due_date(p_month date, p_day integer)
+returns date
+language sql
+immutable
+as $recurring_due_date$
+  select (date_trunc('month', p_month)::date
+    + (least(
+        p_day,
+        extract(day from (date_trunc('month', p_month) + interval '1 month - 1 day'))::integer
+      ) - 1));
+$recurring_due_date$;
+
+create or replace function public.recurring_next_due(p_after date, p_frequency text, p_day integer)
+returns date
+language sql
+immutable
+as $recurring_next_due$
+  select public.recurring_due_date(
+    (date_trunc('month', p_after) + case p_frequency
+      when 'quarterly' then interval '3 months'
+      when 'yearly' then interval '12 months'
+      else interval '1 month'
+    end)::date,
+    p_day
+  );
+$recurring_next_due$;
+
+create or replace function public.post_due_recurring_expenses(p_today date default current_date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $post_due_recurring_expenses$
+declare
+  v_template public.recurring_expenses%rowtype;
+  v_due date;
+  v_posted integer := 0;
+  v_rows integer;
+begin
+  for v_template in
+    select * from public.recurring_expenses
+    where active and next_due_on <= p_today
+    for update skip locked
+  loop
+    v_due := v_template.next_due_on;
+    begin
+      while v_due <= p_today
+        and (v_template.end_date is null or v_due <= v_template.end_date)
+      loop
+        insert into public.expenses (
+          group_id, title, amount, category, paid_by, payers, split_type, splits,
+          expense_date, entered_by, recurring_expense_id
+        )
+        values (
+          v_template.group_id::text, v_template.title, v_template.amount, v_template.category,
+          v_template.paid_by, v_template.payers, v_template.split_type, v_template.splits,
+          v_due, v_template.created_by, v_template.id
+        )
+        on conflict (recurring_expense_id, expense_date) where recurring_expense_id is not null
+        do nothing;
+
+        get diagnostics v_rows = row_count;
+        v_posted := v_posted + v_rows;
+        v_due := public.recurring_next_due(v_due, v_template.frequency, v_template.day_of_month);
+      end loop;
+
+      update public.recurring_expenses
+      set next_due_on = v_due,
+          active = v_template.end_date is null or v_due <= v_template.end_date,
+          last_error = null
+      where id = v_template.id;
+    exception when others then
+      -- e.g. payer no longer in the room: pause this template, keep posting the others
+      update public.recurring_expenses
+      set active = false, last_error = sqlerrm
+      where id = v_template.id;
+    end;
+  end loop;
+
+  return v_posted;
+end;
+$post_due_recurring_expenses$;
+
+revoke all on function public.post_due_recurring_expenses(date) from public, anon, authenticated;
+grant execute on function public.post_due_recurring_expenses(date) to service_role;
@@ -0,0 +1,78 @@
+-- Room-level remainder policy for equal splits: who owes the leftover paise.
+-- 1) groups.remainder_policy: round_robin (default) | payer | random
+--    Splits are computed by the app and stored as-is, so balances stay reproducible from the
+--    stored splits; the round-robin state is itself read back from those splits.
+-- 2) get_user_groups: include remainder_policy as remainderPolicy
+-- 3) set_remainder_policy(group_id, policy): room admin only
+
+-- 1) Column
+alter table public.groups
+  add column if not exists remainder_policy text not null default 'round_robin'
+    check (remainder_policy in ('round_robin', 'payer', 'random'));
+
+-- 2) get_user_groups
+create or replace function public.get_user_groups()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $get_user_groups$
+declare
+  v_user_id uuid := auth.uid();
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    return '[]'::jsonb;
+  end if;
+
+  select coalesce(jsonb_agg(g_with_members), '[]'::jsonb) into v_result
+  from (
+    select jsonb_build_object(
+      'id', grp.id::text,
+      'name', grp.name,
+      'code', grp.code,
+      'createdBy', grp.created_by::text,
+      'remainderPolicy', grp.remainder_policy,
+      'members', (
+        select coalesce(jsonb_agg(
+          jsonb_build_object('id', p.id::text, 'name', coalesce(p.name, 'User'), 'email', p.email)
+        ), '[]'::jsonb)
+        from public.group_members gm
+        left join public.profiles p on p.id = gm.user_id
+        where gm.group_id = grp.id
+      )
+    ) as g_with_members
+    from (
+      select g.id, g.name, g.code, g.created_by, g.remainder_policy
+      from public.groups g
+      where g.id in (select group_id from public.group_members where user_id = v_user_id)
+    ) grp
+  ) sub;
+
+  return v_result;
+end;
+$get_user_groups$;
+
+-- 3) Change the policy (applies to expenses split from now on; stored splits are untouched)
+create or replace function public.set_remainder_policy(p_group_id uuid, p_policy text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $set_remainder_policy$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (
+    select 1 from public.groups where id = p_group_id and created_by = auth.uid()
+  ) then
+    raise exception 'Only the room admin can change how leftover paise are split';
+  end if;
+
+  update public.groups
+  set remainder_policy = p_policy
+  where id = p_group_id;
+end;
+$set_remainder_policy$;
@@ -0,0 +1,231 @@
+-- Exit workflow: no walking away from a room with money outstanding.
+-- 1) group_former_members: name/email snapshot of everyone who left or was removed, so their
+--    old expenses and settlements still show who they were (profiles are only readable by
+--    their owner; get_user_groups could only name current members). Backfilled from history.
+-- 2) member_balance(group_id, user_id): net balance in rupees, same rules as calculateBalances
+--    (paid − owed + settlements paid − settlements received; trash excluded).
+-- 3) remove_member_from_group(group_id, user_id, acknowledge_balance): refuses while the member's
+--    balance is not zero, unless the room admin acknowledges it. Records the former member.
+-- 4) get_user_groups: include formerMembers (people who left and have not rejoined).
+
+-- 1) Former members
+create table if not exists public.group_former_members (
+  group_id uuid not null references public.groups(id) on delete cascade,
+  user_id uuid not null,
+  name text not null default 'User',
+  email text,
+  left_at timestamptz not null default now(),
+  removed_by uuid references auth.users(id) on delete set null,
+  -- Net balance (rupees) when they left; non-zero only if the admin acknowledged it
+  balance_at_exit numeric not null default 0,
+  primary key (group_id, user_id)
+);
+
+alter table public.group_former_members enable row level security;
+
+-- Read only; rows are written by remove_member_from_group
+create policy "Members can read former members of their groups"
+  on public.group_former_members for select
+  using (public.is_group_member(group_id, auth.uid()));
+
+-- Backfill: people who already left but still appear in expenses or settlements
+-- (name from their profile, else the name stored with an expense they paid)
+insert into public.group_former_members (group_id, user_id, name, email)
+select distinct on (x.group_id, x.user_id)
+  x.group_id, x.user_id::uuid, coalesce(p.name, x.name, 'User'), p.email
+from (
+  select e.group_id::uuid as group_id, e.paid_by->>'id' as user_id, e.paid_by->>'name' as name
+  from public.expenses e
+  where e.group_id ~ '^[0-9a-f-]{36}$'
+  union all
+  select e.group_id::uuid, s->>'userId', null
+  from public.expenses e
+  cross join lateral jsonb_array_elements(e.splits) s
+  where e.group_id ~ '^[0-9a-f-]{36}$'
+  union all
+  select e.group_id::uuid, pay->>'userId', null
+  from public.expenses e
+  cross join lateral jsonb_array_elements(coalesce(e.payers, '[]'::jsonb)) pay
+  where e.group_id ~ '^[0-9a-f-]{36}$'
+  union all
+  select group_id, from_user_id::text, null from public.settlements
+  union all
+  select group_id, to_user_id::text, null from public.settlements
+) x
+join public.groups g on g.id = x.group_id
+left join public.profiles p on p.id::text = x.user_id
+where x.user_id ~ '^[0-9a-f-]{36}$'
+  and not exists (
+    select 1 from public.group_members gm
+    where gm.group_id = x.group_id and gm.user_id::text = x.user_id
+  )
+order by x.group_id, x.user_id, x.name nulls last
+on conflict (group_id, user_id) do nothing;
+
+-- 2) Net balance of one member
+create or replace function public.member_balance(p_group_id uuid, p_user_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $member_balance$
+  select
+    -- Paid: their payers[] entry, or the full amount when they are the single payer
+    coalesce((
+      select sum(
+        case
+          when e.payers is not null and jsonb_array_length(e.payers) > 0 then (
+            select coalesce(sum((p->>'amount')::numeric), 0)
+            from jsonb_array_elements(e.payers) p
+            where p->>'userId' = p_user_id::text
+          )
+          when e.paid_by->>'id' = p_user_id::text then e.amount
+          else 0
+        end
+      )
+      from public.expenses e
+      where e.group_id = p_group_id::text and e.deleted_at is null
+    ), 0)
+    -- Owed: their splits
+    - coalesce((
+      select sum((s->>'amount')::numeric)
+      from public.expenses e
+      cross join lateral jsonb_array_elements(e.splits) s
+      where e.group_id = p_group_id::text
+        and e.deleted_at is null
+        and s->>'userId' = p_user_id::text
+    ), 0)
+    + coalesce((
+      select sum(amount) from public.settlements
+      where group_id = p_group_id and from_user_id = p_user_id
+    ), 0)
+    - coalesce((
+      select sum(amount) from public.settlements
+      where group_id = p_group_id and to_user_id = p_user_id
+    ), 0);
+$member_balance$;
+
+revoke all on function public.member_balance(uuid, uuid) from public, anon, authenticated;
+
+-- 3) Removal with the balance check (replaces the two-argument version)
+drop function if exists public.remove_member_from_group(uuid, uuid);
+
+create or replace function public.remove_member_from_group(
+  p_group_id uuid,
+  p_member_user_id uuid,
+  p_acknowledge_balance boolean default false
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $remove_member$
+declare
+  v_current uuid := auth.uid();
+  v_creator uuid;
+  v_balance numeric;
+begin
+  if v_current is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select created_by into v_creator from public.groups where id = p_group_id;
+  if v_creator is null then
+    raise exception 'Group not found';
+  end if;
+
+  if v_current <> p_member_user_id and v_current <> v_creator then
+    raise exception 'Only the room creator can remove other members';
+  end if;
+
+  if not public.is_group_member(p_group_id, p_member_user_id) then
+    raise exception 'Not a member of this room';
+  end if;
+
+  v_balance := public.member_balance(p_group_id, p_member_user_id);
+  if v_balance <> 0 then
+    if not p_acknowledge_balance then
+      raise exception 'Outstanding balance of % must be settled first', abs(v_balance)
+        using hint = 'outstanding_balance';
+    end if;
+    if v_current <> v_creator then
+      raise exception 'Only the room admin can remove a member with an outstanding balance';
+    end if;
+  end if;
+
+  insert into public.group_former_members (
+    group_id, user_id, name, email, left_at, removed_by, balance_at_exit
+  )
+  select p_group_id, p_member_user_id, coalesce(p.name, 'User'), p.email, now(),
+    v_current, v_balance
+  from (select 1) one
+  left join public.profiles p on p.id = p_member_user_id
+  on conflict (group_id, user_id) do update
+  set name = excluded.name,
+      email = excluded.email,
+      left_at = excluded.left_at,
+      removed_by = excluded.removed_by,
+      balance_at_exit = excluded.balance_at_exit;
+
+  delete from public.group_members
+  where group_id = p_group_id and user_id = p_member_user_id;
+end;
+$remove_member$;
+
+-- 4) get_user_groups
+create or replace function public.get_user_groups()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $get_user_groups$
+declare
+  v_user_id uuid := auth.uid();
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    return '[]'::jsonb;
+  end if;
+
+  select coalesce(jsonb_agg(g_with_members), '[]'::jsonb) into v_result
+  from (
+    select jsonb_build_object(
+      'id', grp.id::text,
+      'name', grp.name,
+      'code', grp.code,
+      'createdBy', grp.created_by::text,
+      'remainderPolicy', grp.remainder_policy,
+      'members', (
+        select coalesce(jsonb_agg(
+          jsonb_build_object('id', p.id::text, 'name', coalesce(p.name, 'User'), 'email', p.email)
+        ), '[]'::jsonb)
+        from public.group_members gm
+        left join public.profiles p on p.id = gm.user_id
+        where gm.group_id = grp.id
+      ),
+      'formerMembers', (
+        select coalesce(jsonb_agg(
+          jsonb_build_object(
+            'id', fm.user_id::text,
+            'name', fm.name,
+            'email', fm.email,
+            'leftAt', fm.left_at
+          )
+          order by fm.left_at
+        ), '[]'::jsonb)
+        from public.group_former_members fm
+        where fm.group_id = grp.id
+          and not public.is_group_member(grp.id, fm.user_id)
+      )
+    ) as g_with_members
+    from (
+      select g.id, g.name, g.code, g.created_by, g.remainder_policy
+      from public.groups g
+      where g.id in (select group_id from public.group_members where user_id = v_user_id)
+    ) grp
+  ) sub;
+
+  return v_result;
+end;
+$get_user_groups$;
@@ -0,0 +1,689 @@
+-- Relational payer and splits for expenses (replaces the paid_by / splits JSONB columns).
+-- 1) expenses.group_id becomes a uuid FK to groups (expense_revisions.group_id too). Expenses whose
+--    room no longer exists (or never did, e.g. pre-auth test data) are unreadable under RLS and are removed.
+-- 2) expenses.paid_by_user_id: FK to profiles instead of a snapshot User object. The name is read from
+--    the current profile by paid_by_name(expenses), a computed field (select=*,paid_by_name).
+-- 3) expense_splits: one row per participant, FK to the expense (cascade) and to profiles.
+--    A deferred constraint trigger checks that the splits add up to the expense amount.
+--    FKs to profiles are NOT VALID: rows of users deleted before this migration keep their ids
+--    (their names live in group_former_members); every new row must reference a real profile.
+-- 4) Writes go through create_expense / update_expense so an expense and its splits are saved in
+--    one transaction. Edit history (expense_revisions.previous_version) keeps the same JSON shape:
+--    the expenses row plus paid_by_name and splits [{ userId, amount, percentage?, shares? }].
+-- 5) Everything that read paid_by / splits is rewritten: can_edit_expense, can_delete_expense,
+--    check_expense_payers, record_expense_revision, purge_expired_expenses, member_balance,
+--    post_due_recurring_expenses, and the expense / revision / recurring policies.
+--    Recurring templates keep their JSONB split definition; posting creates split rows from it.
+-- 6) has_expense_history_elsewhere: lets the account-deletion route refuse (clearly) while the user
+--    is still on expenses in rooms they did not create.
+
+-- 1) Rooms: drop unreachable rows, then policies that depend on the column types
+delete from public.expenses e
+where e.group_id !~* '^[0-9a-f-]{36}$'
+   or coalesce(e.paid_by->>'id', '') !~* '^[0-9a-f-]{36}$'
+   or not exists (select 1 from public.groups g where g.id::text = e.group_id);
+
+drop policy if exists "Members can read expenses of their groups" on public.expenses;
+drop policy if exists "Members can insert expenses into their groups" on public.expenses;
+drop policy if exists "Payer or admin can update expense" on public.expenses;
+drop policy if exists "Payer or enterer can purge trashed expense" on public.expenses;
+drop policy if exists "Members can read expense revisions" on public.expense_revisions;
+drop policy if exists "Creator, payer or admin can update recurring expense" on public.recurring_expenses;
+drop policy if exists "Creator, payer or admin can delete recurring expense" on public.recurring_expenses;
+
+alter table public.expenses
+  alter column group_id type uuid using group_id::uuid;
+
+alter table public.expenses
+  add constraint expenses_group_id_fkey
+  foreign key (group_id) references public.groups(id) on delete cascade;
+
+alter table public.expense_revisions
+  alter column group_id type uuid using group_id::uuid;
+
+alter table public.expense_revisions
+  add constraint expense_revisions_group_id_fkey
+  foreign key (group_id) references public.groups(id) on delete cascade;
+
+-- 2) Payer
+alter table public.expenses
+  add column if not exists paid_by_user_id uuid;
+
+update public.expenses
+set paid_by_user_id = (paid_by->>'id')::uuid
+where paid_by_user_id is null;
+
+alter table public.expenses
+  alter column paid_by_user_id set not null;
+
+create index if not exists idx_expenses_paid_by_user_id on public.expenses (paid_by_user_id);
+
+-- 3) Splits
+create table if not exists public.expense_splits (
+  expense_id uuid not null references public.expenses(id) on delete cascade,
+  user_id uuid not null,
+  amount numeric not null check (amount >= 0),
+  percentage numeric check (percentage is null or (percentage >= 0 and percentage <= 100)),
+  shares numeric check (shares is null or shares >= 0),
+  -- Order the splits were entered in (the UI lists them in this order)
+  position integer not null default 0,
+  primary key (expense_id, user_id)
+);
+
+create index if not exists idx_expense_splits_user_id on public.expense_splits (user_id);
+
+insert into public.expense_splits (expense_id, user_id, amount, percentage, shares, position)
+select e.id, (s->>'userId')::uuid, coalesce((s->>'amount')::numeric, 0),
+  (s->>'percentage')::numeric, (s->>'shares')::numeric, (t.ord - 1)::integer
+from public.expenses e
+cross join lateral jsonb_array_elements(coalesce(e.splits, '[]'::jsonb)) with ordinality as t(s, ord)
+where coalesce(s->>'userId', '') ~* '^[0-9a-f-]{36}$'
+on conflict (expense_id, user_id) do nothing;
+
+-- Profiles for people who are still registered but never got one (FK targets below)
+insert into public.profiles (id, email)
+select u.id, u.email
+from auth.users u
+where u.id in (
+  select paid_by_user_id from public.expenses
+  union
+  select user_id from public.expense_splits
+)
+on conflict (id) do nothing;
+
+alter table public.expenses
+  add constraint expenses_paid_by_user_id_fkey
+  foreign key (paid_by_user_id) references public.profiles(id) not valid;
+
+alter table public.expense_splits
+  add constraint expense_splits_user_id_fkey
+  foreign key (user_id) references public.profiles(id) not valid;
+
+alter table public.expense_splits enable row level security;
+
+create policy "Members can read splits of their groups' expenses"
+  on public.expense_splits for select
+  using (
+    exists (
+      select 1 from public.expenses e
+      where e.id = expense_splits.expense_id
+        and public.is_group_member(e.group_id, auth.uid())
+    )
+  );
+
+-- No insert/update/delete policies: rows are written by create_expense / update_expense
+
+-- Edit history: old snapshots get the new payer keys (splits are already in the same shape)
+update public.expense_revisions
+set previous_version = previous_version || jsonb_build_object(
+  'paid_by_user_id', previous_version->'paid_by'->>'id',
+  'paid_by_name', previous_version->'paid_by'->>'name'
+)
+where not previous_version ? 'paid_by_user_id';
+
+alter table public.expenses
+  drop column if exists paid_by,
+  drop column if exists splits;
+
+-- Splits must add up to the amount (checked at commit, so an expense and its splits can be
+-- written in any order within one transaction)
+create or replace function public.check_expense_split_total()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $check_expense_split_total$
+declare
+  v_expense_id uuid;
+  v_amount numeric;
+  v_total numeric;
+begin
+  if tg_table_name = 'expenses' then
+    v_expense_id := new.id;
+  elsif tg_op = 'DELETE' then
+    v_expense_id := old.expense_id;
+  else
+    v_expense_id := new.expense_id;
+  end if;
+
+  select amount into v_amount from public.expenses where id = v_expense_id;
+  -- Expense deleted (its splits go with it)
+  if not found then
+    return null;
+  end if;
+
+  select coalesce(sum(amount), 0) into v_total
+  from public.expense_splits
+  where expense_id = v_expense_id;
+
+  if v_total <> v_amount then
+    raise exception 'Splits add up to % but the expense is %', v_total, v_amount
+      using errcode = 'check_violation';
+  end if;
+
+  return null;
+end;
+$check_expense_split_total$;
+
+drop trigger if exists trg_expense_split_total on public.expenses;
+
+create constraint trigger trg_expense_split_total
+  after insert or update of amount on public.expenses
+  deferrable initially deferred
+  for each row execute function public.check_expense_split_total();
+
+drop trigger if exists trg_expense_splits_total on public.expense_splits;
+
+create constraint trigger trg_expense_splits_total
+  after insert or update or delete on public.expense_splits
+  deferrable initially deferred
+  for each row execute function public.check_expense_split_total();
+
+-- Splits of an expense as JSON (the shape the app and the edit history use)
+create or replace function public.expense_splits_json(p_expense_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $expense_splits_json$
+  select coalesce(jsonb_agg(
+    jsonb_strip_nulls(jsonb_build_object(
+      'userId', s.user_id::text,
+      'amount', s.amount,
+      'percentage', s.percentage,
+      'shares', s.shares
+    ))
+    order by s.position
+  ), '[]'::jsonb)
+  from public.expense_splits s
+  where s.expense_id = p_expense_id;
+$expense_splits_json$;
+
+revoke all on function public.expense_splits_json(uuid) from public, anon, authenticated;
+
+-- Replace an expense's splits with p_splits ([{ userId, amount, percentage?, shares? }])
+create or replace function public.replace_expense_splits(p_expense_id uuid, p_splits jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $replace_expense_splits$
+begin
+  delete from public.expense_splits where expense_id = p_expense_id;
+
+  insert into public.expense_splits (expense_id, user_id, amount, percentage, shares, position)
+  select p_expense_id, (s->>'userId')::uuid, (s->>'amount')::numeric,
+    (s->>'percentage')::numeric, (s->>'shares')::numeric, (t.ord - 1)::integer
+  from jsonb_array_elements(coalesce(p_splits, '[]'::jsonb)) with ordinality as t(s, ord);
+end;
+$replace_expense_splits$;
+
+revoke all on function public.replace_expense_splits(uuid, jsonb) from public, anon, authenticated;
+
+-- Payer's current name (former members: the name they left with)
+create or replace function public.paid_by_name(p_expense public.expenses)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $paid_by_name$
+  select coalesce(
+    (select p.name from public.profiles p where p.id = p_expense.paid_by_user_id),
+    (
+      select fm.name from public.group_former_members fm
+      where fm.group_id = p_expense.group_id and fm.user_id = p_expense.paid_by_user_id
+    ),
+    'User'
+  )
+  where public.is_group_member(p_expense.group_id, auth.uid());
+$paid_by_name$;
+
+grant execute on function public.paid_by_name(public.expenses) to authenticated;
+
+-- 5) Who may edit: payer or room admin (replaces the text / jsonb version)
+drop function if exists public.can_edit_expense(text, jsonb, uuid);
+
+create or replace function public.can_edit_expense(p_group_id uuid, p_paid_by_user_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $can_edit_expense$
+  select p_user_id is not null
+    and (
+      p_paid_by_user_id = p_user_id
+      or exists (
+        select 1 from public.groups g
+        where g.id = p_group_id and g.created_by = p_user_id
+      )
+    );
+$can_edit_expense$;
+
+create or replace function public.can_delete_expense(p_expense_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $can_delete_expense$
+  select exists (
+    select 1 from public.expenses e
+    where e.id = p_expense_id
+      and p_user_id is not null
+      and (e.paid_by_user_id = p_user_id or e.entered_by = p_user_id)
+  );
+$can_delete_expense$;
+
+create or replace function public.check_expense_payers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $check_expense_payers$
+declare
+  v_payer record;
+begin
+  -- entered_by is always the caller when called from the app (cannot be spoofed)
+  if tg_op = 'INSERT' and auth.uid() is not null then
+    new.entered_by := auth.uid();
+  end if;
+
+  if tg_op = 'UPDATE'
+     and new.paid_by_user_id is not distinct from old.paid_by_user_id
+     and new.payers is not distinct from old.payers then
+    return new;
+  end if;
+
+  if not public.is_group_member(new.group_id, new.paid_by_user_id) then
+    raise exception 'Payer must be a member of this room';
+  end if;
+
+  if new.payers is not null then
+    for v_payer in select value from jsonb_array_elements(new.payers) loop
+      if (v_payer.value->>'userId') is null
+         or not public.is_group_member(new.group_id, (v_payer.value->>'userId')::uuid) then
+        raise exception 'Every payer must be a member of this room';
+      end if;
+    end loop;
+  end if;
+
+  return new;
+end;
+$check_expense_payers$;
+
+-- Splits are not columns of expenses: update_expense flags a split change for this transaction
+-- (app.expense_splits_changed) before updating the row, and replaces the split rows afterwards,
+-- so previous_version still sees the old splits here.
+create or replace function public.record_expense_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $record_expense_revision$
+declare
+  v_changed text[] := '{}';
+begin
+  if new.title is distinct from old.title then v_changed := v_changed || 'title'; end if;
+  if new.amount is distinct from old.amount then v_changed := v_changed || 'amount'; end if;
+  if new.expense_date is distinct from old.expense_date then v_changed := v_changed || 'expense_date'; end if;
+  if new.category is distinct from old.category then v_changed := v_changed || 'category'; end if;
+  if new.paid_by_user_id is distinct from old.paid_by_user_id or new.payers is distinct from old.payers then
+    v_changed := v_changed || 'paid_by';
+  end if;
+  if new.split_type is distinct from old.split_type
+     or coalesce(current_setting('app.expense_splits_changed', true), '') = 'on'
+     or new.items is distinct from old.items
+     or new.charges is distinct from old.charges then
+    v_changed := v_changed || 'splits';
+  end if;
+
+  -- Identity and provenance never change on edit
+  new.id := old.id;
+  new.group_id := old.group_id;
+  new.entered_by := old.entered_by;
+  new.created_at := old.created_at;
+
+  -- Nothing user-visible changed (e.g. moved to / restored from trash): no revision
+  if array_length(v_changed, 1) is null then
+    return new;
+  end if;
+
+  if auth.uid() is not null and not public.can_edit_expense(old.group_id, old.paid_by_user_id, auth.uid()) then
+    raise exception 'Only the payer or the room admin can edit this expense';
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Restore this expense before editing it';
+  end if;
+
+  -- Trash state only changes through soft_delete_expense / restore_expense
+  new.deleted_at := old.deleted_at;
+  new.deleted_by := old.deleted_by;
+
+  insert into public.expense_revisions (expense_id, group_id, revised_by, changed_fields, previous_version)
+  values (
+    old.id, old.group_id, auth.uid(), v_changed,
+    to_jsonb(old) || jsonb_build_object(
+      'paid_by_name', (select p.name from public.profiles p where p.id = old.paid_by_user_id),
+      'splits', public.expense_splits_json(old.id)
+    )
+  );
+
+  new.updated_at := now();
+  return new;
+end;
+$record_expense_revision$;
+
+create or replace function public.purge_expired_expenses(p_group_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $purge_expired_expenses$
+declare
+  v_count integer;
+begin
+  if not public.is_group_member(p_group_id, auth.uid()) then
+    raise exception 'Not a member of this room';
+  end if;
+
+  delete from public.expenses
+  where group_id = p_group_id
+    and deleted_at is not null
+    and deleted_at < now() - interval '30 days';
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$purge_expired_expenses$;
+
+create or replace function public.member_balance(p_group_id uuid, p_user_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $member_balance$
+  select
+    -- Paid: their payers[] entry, or the full amount when they are the single payer
+    coalesce((
+      select sum(
+        case
+          when e.payers is not null and jsonb_array_length(e.payers) > 0 then (
+            select coalesce(sum((p->>'amount')::numeric), 0)
+            from jsonb_array_elements(e.payers) p
+            where p->>'userId' = p_user_id::text
+          )
+          when e.paid_by_user_id = p_user_id then e.amount
+          else 0
+        end
+      )
+      from public.expenses e
+      where e.group_id = p_group_id and e.deleted_at is null
+    ), 0)
+    -- Owed: their splits
+    - coalesce((
+      select sum(s.amount)
+      from public.expenses e
+      join public.expense_splits s on s.expense_id = e.id
+      where e.group_id = p_group_id
+        and e.deleted_at is null
+        and s.user_id = p_user_id
+    ), 0)
+    + coalesce((
+      select sum(amount) from public.settlements
+      where group_id = p_group_id and from_user_id = p_user_id
+    ), 0)
+    - coalesce((
+      select sum(amount) from public.settlements
+      where group_id = p_group_id and to_user_id = p_user_id
+    ), 0);
+$member_balance$;
+
+revoke all on function public.member_balance(uuid, uuid) from public, anon, authenticated;
+
+create or replace function public.post_due_recurring_expenses(p_today date default current_date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $post_due_recurring_expenses$
+declare
+  v_template public.recurring_expenses%rowtype;
+  v_due date;
+  v_expense_id uuid;
+  v_posted integer := 0;
+  v_rows integer;
+begin
+  for v_template in
+    select * from public.recurring_expenses
+    where active and next_due_on <= p_today
+    for update skip locked
+  loop
+    v_due := v_template.next_due_on;
+    begin
+      -- Checked here (not only at commit) so a bad template pauses instead of failing the whole job
+      if (
+        select coalesce(sum((s->>'amount')::numeric), 0)
+        from jsonb_array_elements(v_template.splits) s
+      ) <> v_template.amount then
+        raise exception 'Splits do not add up to the amount';
+      end if;
+
+      while v_due <= p_today
+        and (v_template.end_date is null or v_due <= v_template.end_date)
+      loop
+        v_expense_id := null;
+
+        insert into public.expenses (
+          group_id, title, amount, category, paid_by_user_id, payers, split_type,
+          expense_date, entered_by, recurring_expense_id
+        )
+        values (
+          v_template.group_id, v_template.title, v_template.amount, v_template.category,
+          (v_template.paid_by->>'id')::uuid, v_template.payers, v_template.split_type,
+          v_due, v_template.created_by, v_template.id
+        )
+        on conflict (recurring_expense_id, expense_date) where recurring_expense_id is not null
+        do nothing
+        returning id into v_expense_id;
+
+        if v_expense_id is not null then
+          perform public.replace_expense_splits(v_expense_id, v_template.splits);
+          v_posted := v_posted + 1;
+        end if;
+
+        v_due := public.recurring_next_due(v_due, v_template.frequency, v_template.day_of_month);
+      end loop;
+
+      update public.recurring_expenses
+      set next_due_on = v_due,
+          active = v_template.end_date is null or v_due <= v_template.end_date,
+          last_error = null
+      where id = v_template.id;
+    exception when others then
+      -- e.g. payer no longer in the room: pause this template, keep posting the others
+      update public.recurring_expenses
+      set active = false, last_error = sqlerrm
+      where id = v_template.id;
+    end;
+  end loop;
+
+  return v_posted;
+end;
+$post_due_recurring_expenses$;
+
+revoke all on function public.post_due_recurring_expenses(date) from public, anon, authenticated;
+grant execute on function public.post_due_recurring_expenses(date) to service_role;
+
+-- 4) Writes: expense row + splits in one transaction.
+-- p_expense: { id?, title, amount, paid_by_user_id, payers, split_type, items, charges,
+--   expense_date, category, recurring_expense_id? } (rupees); p_splits: [{ userId, amount, ... }]
+create or replace function public.create_expense(p_group_id uuid, p_expense jsonb, p_splits jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $create_expense$
+declare
+  v_id uuid;
+begin
+  if not public.is_group_member(p_group_id, auth.uid()) then
+    raise exception 'Not a member of this room';
+  end if;
+
+  insert into public.expenses (
+    id, group_id, title, amount, paid_by_user_id, payers, split_type, items, charges,
+    expense_date, category, recurring_expense_id
+  )
+  values (
+    coalesce((p_expense->>'id')::uuid, gen_random_uuid()),
+    p_group_id,
+    p_expense->>'title',
+    (p_expense->>'amount')::numeric,
+    (p_expense->>'paid_by_user_id')::uuid,
+    nullif(p_expense->'payers', 'null'::jsonb),
+    p_expense->>'split_type',
+    nullif(p_expense->'items', 'null'::jsonb),
+    nullif(p_expense->'charges', 'null'::jsonb),
+    (p_expense->>'expense_date')::date,
+    coalesce(p_expense->>'category', 'other'),
+    (p_expense->>'recurring_expense_id')::uuid
+  )
+  returning id into v_id;
+
+  perform public.replace_expense_splits(v_id, p_splits);
+  return v_id;
+end;
+$create_expense$;
+
+create or replace function public.update_expense(p_expense_id uuid, p_expense jsonb, p_splits jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $update_expense$
+declare
+  v_expense public.expenses%rowtype;
+  v_splits_changed boolean;
+begin
+  select * into v_expense from public.expenses where id = p_expense_id;
+  if not found or not public.is_group_member(v_expense.group_id, auth.uid()) then
+    raise exception 'Expense not found';
+  end if;
+
+  if not public.can_edit_expense(v_expense.group_id, v_expense.paid_by_user_id, auth.uid()) then
+    raise exception 'Only the payer or the room admin can edit this expense';
+  end if;
+
+  v_splits_changed := public.expense_splits_json(p_expense_id) is distinct from (
+    select coalesce(jsonb_agg(
+      jsonb_strip_nulls(jsonb_build_object(
+        'userId', s->>'userId',
+        'amount', (s->>'amount')::numeric,
+        'percentage', (s->>'percentage')::numeric,
+        'shares', (s->>'shares')::numeric
+      ))
+      order by t.ord
+    ), '[]'::jsonb)
+    from jsonb_array_elements(coalesce(p_splits, '[]'::jsonb)) with ordinality as t(s, ord)
+  );
+
+  perform set_config('app.expense_splits_changed', case when v_splits_changed then 'on' else 'off' end, true);
+
+  update public.expenses
+  set title = p_expense->>'title',
+      amount = (p_expense->>'amount')::numeric,
+      paid_by_user_id = (p_expense->>'paid_by_user_id')::uuid,
+      payers = nullif(p_expense->'payers', 'null'::jsonb),
+      split_type = p_expense->>'split_type',
+      items = nullif(p_expense->'items', 'null'::jsonb),
+      charges = nullif(p_expense->'charges', 'null'::jsonb),
+      expense_date = (p_expense->>'expense_date')::date,
+      category = coalesce(p_expense->>'category', 'other')
+  where id = p_expense_id;
+
+  perform set_config('app.expense_splits_changed', 'off', true);
+
+  if v_splits_changed then
+    perform public.replace_expense_splits(p_expense_id, p_splits);
+  end if;
+end;
+$update_expense$;
+
+grant execute on function public.create_expense(uuid, jsonb, jsonb) to authenticated;
+grant execute on function public.update_expense(uuid, jsonb, jsonb) to authenticated;
+
+-- Policies again, on the new columns
+create policy "Members can read expenses of their groups"
+  on public.expenses for select
+  using (
+    group_id in (select group_id from public.group_members where user_id = auth.uid())
+  );
+
+create policy "Members can insert expenses into their groups"
+  on public.expenses for insert
+  with check (
+    group_id in (select group_id from public.group_members where user_id = auth.uid())
+  );
+
+create policy "Payer or admin can update expense"
+  on public.expenses for update
+  using (public.can_edit_expense(group_id, paid_by_user_id, auth.uid()))
+  with check (public.is_group_member(group_id, auth.uid()));
+
+create policy "Payer or enterer can purge trashed expense"
+  on public.expenses for delete
+  using (
+    deleted_at is not null
+    and (paid_by_user_id = auth.uid() or entered_by = auth.uid())
+  );
+
+create policy "Members can read expense revisions"
+  on public.expense_revisions for select
+  using (public.is_group_member(group_id, auth.uid()));
+
+create policy "Creator, payer or admin can update recurring expense"
+  on public.recurring_expenses for update
+  using (
+    created_by = auth.uid()
+    or public.can_edit_expense(group_id, (paid_by->>'id')::uuid, auth.uid())
+  )
+  with check (public.is_group_member(group_id, auth.uid()));
+
+create policy "Creator, payer or admin can delete recurring expense"
+  on public.recurring_expenses for delete
+  using (
+    created_by = auth.uid()
+    or public.can_edit_expense(group_id, (paid_by->>'id')::uuid, auth.uid())
+  );
+
+-- 6) Account deletion: expenses in the user's own rooms go with the room; anywhere else they
+--    would be left without a payer or participant, so the FK refuses the delete
+create or replace function public.has_expense_history_elsewhere(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $has_expense_history_elsewhere$
+  select exists (
+    select 1
+    from public.expenses e
+    join public.groups g on g.id = e.group_id
+    where g.created_by <> p_user_id
+      and (
+        e.paid_by_user_id = p_user_id
+        or exists (
+          select 1 from public.expense_splits s
+          where s.expense_id = e.id and s.user_id = p_user_id
+        )
+      )
+  );
+$has_expense_history_elsewhere$;
+
+revoke all on function public.has_expense_history_elsewhere(uuid) from public, anon, authenticated;
+grant execute on function public.has_expense_history_elsewhere(uuid) to service_role;
@@ -0,0 +1,230 @@
+-- Server-side validation for expense writes (validateExpenseInput only ran in the browser).
+-- 1) check_expense_input: caller's input is rejected unless the amount is positive (whole paise),
+--    the split type is known, the payer(s) and everyone in the splits are room members, payments
+--    add up to the amount, and splits add up to the amount exactly.
+--    Edits may keep a payer or participant who has since left (their old expenses stay editable).
+-- 2) create_expense / update_expense run it first. Every rejection carries a stable code in the
+--    error hint (e.g. 'participant_not_member'); the message is shown to the user.
+
+-- 1) Validation
+create or replace function public.check_expense_input(
+  p_group_id uuid,
+  p_expense jsonb,
+  p_splits jsonb,
+  p_existing_id uuid default null
+)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $check_expense_input$
+declare
+  v_uuid constant text := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+  v_amount numeric;
+  v_payer jsonb;
+  v_payer_total numeric := 0;
+  v_split jsonb;
+  v_split_total numeric := 0;
+  v_user_id uuid;
+  v_seen uuid[] := '{}';
+begin
+  if coalesce(trim(p_expense->>'title'), '') = '' then
+    raise exception 'Title is required' using hint = 'invalid_title';
+  end if;
+
+  if jsonb_typeof(p_expense->'amount') is distinct from 'number' then
+    raise exception 'Amount must be greater than zero' using hint = 'invalid_amount';
+  end if;
+  v_amount := (p_expense->>'amount')::numeric;
+  if v_amount <= 0 or v_amount <> round(v_amount, 2) then
+    raise exception 'Amount must be greater than zero, in whole paise' using hint = 'invalid_amount';
+  end if;
+
+  if coalesce(p_expense->>'split_type', '') not in ('equal', 'custom', 'percentage', 'shares', 'itemized') then
+    raise exception 'Unknown split type "%"', p_expense->>'split_type' using hint = 'invalid_split_type';
+  end if;
+
+  -- Payer (an edit may keep a payer who has left the room)
+  if coalesce(p_expense->>'paid_by_user_id', '') !~* v_uuid then
+    raise exception 'Payer is required' using hint = 'payer_not_member';
+  end if;
+  v_user_id := (p_expense->>'paid_by_user_id')::uuid;
+  if not public.is_group_member(p_group_id, v_user_id)
+     and not exists (
+       select 1 from public.expenses e
+       where e.id = p_existing_id and e.paid_by_user_id = v_user_id
+     ) then
+    raise exception 'Payer must be a member of this room' using hint = 'payer_not_member';
+  end if;
+
+  -- Multi-payer: every payer is a member and the payments add up to the amount
+  if jsonb_typeof(p_expense->'payers') = 'array' and jsonb_array_length(p_expense->'payers') > 0 then
+    for v_payer in select value from jsonb_array_elements(p_expense->'payers') loop
+      if coalesce(v_payer->>'userId', '') !~* v_uuid
+         or jsonb_typeof(v_payer->'amount') is distinct from 'number'
+         or (v_payer->>'amount')::numeric <= 0 then
+        raise exception 'Each payer needs an amount greater than zero' using hint = 'invalid_payers';
+      end if;
+      v_user_id := (v_payer->>'userId')::uuid;
+      if not public.is_group_member(p_group_id, v_user_id)
+         and not exists (
+           select 1
+           from public.expenses e
+           cross join lateral jsonb_array_elements(coalesce(e.payers, '[]'::jsonb)) p
+           where e.id = p_existing_id and p->>'userId' = v_user_id::text
+         ) then
+        raise exception 'Every payer must be a member of this room' using hint = 'payer_not_member';
+      end if;
+      v_payer_total := v_payer_total + (v_payer->>'amount')::numeric;
+    end loop;
+
+    if v_payer_total <> v_amount then
+      raise exception 'Payments add up to % but the expense is %', v_payer_total, v_amount
+        using hint = 'payer_total_mismatch';
+    end if;
+  end if;
+
+  -- Splits: members only, each person once, exact total
+  if jsonb_typeof(p_splits) is distinct from 'array' or jsonb_array_length(p_splits) = 0 then
+    raise exception 'At least one person must share the expense' using hint = 'invalid_splits';
+  end if;
+
+  for v_split in select value from jsonb_array_elements(p_splits) loop
+    if coalesce(v_split->>'userId', '') !~* v_uuid
+       or jsonb_typeof(v_split->'amount') is distinct from 'number'
+       or (v_split->>'amount')::numeric < 0 then
+      raise exception 'Each split needs a member and an amount of zero or more' using hint = 'invalid_splits';
+    end if;
+    v_user_id := (v_split->>'userId')::uuid;
+    if v_user_id = any(v_seen) then
+      raise exception 'Each person can appear only once in the splits' using hint = 'invalid_splits';
+    end if;
+    v_seen := v_seen || v_user_id;
+    if not public.is_group_member(p_group_id, v_user_id)
+       and not exists (
+         select 1 from public.expense_splits s
+         where s.expense_id = p_existing_id and s.user_id = v_user_id
+       ) then
+      raise exception 'Everyone sharing the expense must be a member of this room'
+        using hint = 'participant_not_member';
+    end if;
+    v_split_total := v_split_total + (v_split->>'amount')::numeric;
+  end loop;
+
+  if v_split_total <> v_amount then
+    raise exception 'Splits add up to % but the expense is %', v_split_total, v_amount
+      using hint = 'split_total_mismatch';
+  end if;
+end;
+$check_expense_input$;
+
+revoke all on function public.check_expense_input(uuid, jsonb, jsonb, uuid) from public, anon, authenticated;
+
+-- 2) Writes
+create or replace function public.create_expense(p_group_id uuid, p_expense jsonb, p_splits jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $create_expense$
+declare
+  v_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using hint = 'not_authenticated';
+  end if;
+
+  if not public.is_group_member(p_group_id, auth.uid()) then
+    raise exception 'Not a member of this room' using hint = 'not_member';
+  end if;
+
+  perform public.check_expense_input(p_group_id, p_expense, p_splits);
+
+  insert into public.expenses (
+    id, group_id, title, amount, paid_by_user_id, payers, split_type, items, charges,
+    expense_date, category, recurring_expense_id
+  )
+  values (
+    coalesce((p_expense->>'id')::uuid, gen_random_uuid()),
+    p_group_id,
+    trim(p_expense->>'title'),
+    (p_expense->>'amount')::numeric,
+    (p_expense->>'paid_by_user_id')::uuid,
+    nullif(p_expense->'payers', 'null'::jsonb),
+    p_expense->>'split_type',
+    nullif(p_expense->'items', 'null'::jsonb),
+    nullif(p_expense->'charges', 'null'::jsonb),
+    (p_expense->>'expense_date')::date,
+    coalesce(p_expense->>'category', 'other'),
+    (p_expense->>'recurring_expense_id')::uuid
+  )
+  returning id into v_id;
+
+  perform public.replace_expense_splits(v_id, p_splits);
+  return v_id;
+end;
+$create_expense$;
+
+create or replace function public.update_expense(p_expense_id uuid, p_expense jsonb, p_splits jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $update_expense$
+declare
+  v_expense public.expenses%rowtype;
+  v_splits_changed boolean;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using hint = 'not_authenticated';
+  end if;
+
+  select * into v_expense from public.expenses where id = p_expense_id;
+  if not found or not public.is_group_member(v_expense.group_id, auth.uid()) then
+    raise exception 'Expense not found' using hint = 'not_found';
+  end if;
+
+  if not public.can_edit_expense(v_expense.group_id, v_expense.paid_by_user_id, auth.uid()) then
+    raise exception 'Only the payer or the room admin can edit this expense' using hint = 'not_allowed';
+  end if;
+
+  perform public.check_expense_input(v_expense.group_id, p_expense, p_splits, p_expense_id);
+
+  v_splits_changed := public.expense_splits_json(p_expense_id) is distinct from (
+    select coalesce(jsonb_agg(
+      jsonb_strip_nulls(jsonb_build_object(
+        'userId', s->>'userId',
+        'amount', (s->>'amount')::numeric,
+        'percentage', (s->>'percentage')::numeric,
+        'shares', (s->>'shares')::numeric
+      ))
+      order by t.ord
+    ), '[]'::jsonb)
+    from jsonb_array_elements(p_splits) with ordinality as t(s, ord)
+  );
+
+  perform set_config('app.expense_splits_changed', case when v_splits_changed then 'on' else 'off' end, true);
+
+  update public.expenses
+  set title = trim(p_expense->>'title'),
+      amount = (p_expense->>'amount')::numeric,
+      paid_by_user_id = (p_expense->>'paid_by_user_id')::uuid,
+      payers = nullif(p_expense->'payers', 'null'::jsonb),
+      split_type = p_expense->>'split_type',
+      items = nullif(p_expense->'items', 'null'::jsonb),
+      charges = nullif(p_expense->'charges', 'null'::jsonb),
+      expense_date = (p_expense->>'expense_date')::date,
+      category = coalesce(p_expense->>'category', 'other')
+  where id = p_expense_id;
+
+  perform set_config('app.expense_splits_changed', 'off', true);
+
+  if v_splits_changed then
+    perform public.replace_expense_splits(p_expense_id, p_splits);
+  end if;
+end;
+$update_expense$;
+
+grant execute on function public.create_expense(uuid, jsonb, jsonb) to authenticated;
+grant execute on function public.update_expense(uuid, jsonb, jsonb) to authenticated;
@@ -0,0 +1,55 @@
+-- Expenses: every policy tied to room membership.
+-- Policies are permissive, so one leftover "allow" policy (e.g. "Allow all for MVP (no auth)" from
+-- the first migration, on databases where it was never dropped) would open the table to every
+-- signed-in user. Drop whatever policies exist on public.expenses and create the full set again:
+-- 1) select: members of the expense's room
+-- 2) insert: members, into their own room, with a payer who is also a member
+-- 3) update: members who are the payer or the room admin; the row stays in a room they belong to
+-- 4) delete (purge from trash): members who paid or entered the expense
+-- Tested by supabase/tests/expenses_rls.sql.
+
+do $drop_expense_policies$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select policyname from pg_policies
+    where schemaname = 'public' and tablename = 'expenses'
+  loop
+    execute format('drop policy %I on public.expenses', v_policy.policyname);
+  end loop;
+end;
+$drop_expense_policies$;
+
+alter table public.expenses enable row level security;
+
+-- 1) Read
+create policy "Members can read expenses of their groups"
+  on public.expenses for select
+  using (public.is_group_member(group_id, auth.uid()));
+
+-- 2) Insert (create_expense is the app's path; this covers direct inserts)
+create policy "Members can insert expenses into their groups"
+  on public.expenses for insert
+  with check (
+    public.is_group_member(group_id, auth.uid())
+    and public.is_group_member(group_id, paid_by_user_id)
+  );
+
+-- 3) Edit
+create policy "Payer or admin can update expense"
+  on public.expenses for update
+  using (
+    public.is_group_member(group_id, auth.uid())
+    and public.can_edit_expense(group_id, paid_by_user_id, auth.uid())
+  )
+  with check (public.is_group_member(group_id, auth.uid()));
+
+-- 4) Purge from trash
+create policy "Payer or enterer can purge trashed expense"
+  on public.expenses for delete
+  using (
+    deleted_at is not null
+    and public.is_group_member(group_id, auth.uid())
+    and (paid_by_user_id = auth.uid() or entered_by = auth.uid())
+  );
@@ -0,0 +1,125 @@
+-- Multiple rooms per user (e.g. a flat and a trip at the same time).
+-- Lifts 20250204000006_one_room_per_user.sql:
+-- 1) drop the unique index on group_members(user_id)
+-- 2) create_group: no "already in a room" check; the name is required (it tells rooms apart)
+-- 3) join_group_by_code: no "already in a room" check
+
+-- 1) Any number of rooms per user
+drop index if exists public.idx_group_members_one_group_per_user;
+
+-- 2) create_group: any user can create another room
+create or replace function public.create_group(p_name text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $create_group$
+declare
+  v_code text;
+  v_group_id uuid;
+  v_user_id uuid := auth.uid();
+  v_members jsonb := '[]'::jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_name is null or trim(p_name) = '' then
+    raise exception 'Room name is required';
+  end if;
+
+  v_code := upper(substring(md5(random()::text || clock_timestamp()::text) from 1 for 6));
+
+  insert into public.groups (name, code, created_by)
+  values (trim(p_name), v_code, v_user_id)
+  returning id into v_group_id;
+
+  insert into public.group_members (group_id, user_id)
+  values (v_group_id, v_user_id);
+
+  insert into public.profiles (id, name)
+  select v_user_id, coalesce(
+    (select name from public.profiles where id = v_user_id),
+    coalesce(
+      nullif(split_part((select email from auth.users where id = v_user_id), '@', 1), ''),
+      'User'
+    )
+  )
+  on conflict (id) do update set updated_at = now();
+
+  select jsonb_agg(
+    jsonb_build_object('id', p.id::text, 'name', p.name, 'email', p.email)
+  ) into v_members
+  from public.group_members gm
+  join public.profiles p on p.id = gm.user_id
+  where gm.group_id = v_group_id;
+
+  return jsonb_build_object(
+    'id', v_group_id,
+    'name', trim(p_name),
+    'code', v_code,
+    'createdBy', v_user_id::text,
+    'members', coalesce(v_members, '[]'::jsonb)
+  );
+end;
+$create_group$;
+
+-- 3) join_group_by_code: no longer limited to one room (joining a room you are in is a no-op)
+create or replace function public.join_group_by_code(p_code text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $join_group$
+declare
+  v_group_id uuid;
+  v_user_id uuid := auth.uid();
+  v_members jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select id into v_group_id
+  from public.groups
+  where upper(trim(code)) = upper(trim(p_code))
+  limit 1;
+
+  if v_group_id is null then
+    raise exception 'Invalid invite code';
+  end if;
+
+  insert into public.group_members (group_id, user_id)
+  values (v_group_id, v_user_id)
+  on conflict (group_id, user_id) do nothing;
+
+  insert into public.profiles (id, name)
+  select v_user_id, coalesce(
+    (select name from public.profiles where id = v_user_id),
+    coalesce(
+      nullif(split_part((select email from auth.users where id = v_user_id), '@', 1), ''),
+      'User'
+    )
+  )
+  on conflict (id) do update set updated_at = now();
+
+  select jsonb_build_object(
+    'id', g.id,
+    'name', g.name,
+    'code', g.code,
+    'createdBy', g.created_by::text,
+    'members', (
+      select coalesce(jsonb_agg(
+        jsonb_build_object('id', p.id::text, 'name', p.name, 'email', p.email)
+      ), '[]'::jsonb)
+      from public.group_members gm
+      join public.profiles p on p.id = gm.user_id
+      where gm.group_id = g.id
+    )
+  ) into v_members
+  from public.groups g
+  where g.id = v_group_id;
+
+  return v_members;
+end;
+$join_group$;
@@ -0,0 +1,467 @@
+-- Room roles: owner, admins and members (groups.created_by was the only admin, and a room whose
+-- creator moved out had nobody left to manage it).
+-- 1) group_members.role: 'owner' | 'admin' | 'member'; one owner per room. The creator becomes the
+--    owner; rooms whose creator already left go to the member with the oldest account
+-- 2) is_group_admin: owner or admin
+-- 3) promote_member / demote_member / transfer_group_ownership
+--    - owner and admins promote members to admin
+--    - the owner demotes admins; an admin may step down
+--    - the owner hands ownership to another member and stays on as admin
+--    groups.created_by follows the owner (account deletion takes the owner's rooms with it)
+-- 4) remove_member_from_group: admins remove members, the owner removes anyone; the owner
+--    leaves only after handing over ownership (unless they are the last member)
+-- 5) Admin checks that used groups.created_by: can_edit_expense, set_remainder_policy
+-- 6) create_group (creator is owner), join_group_by_code and get_user_groups return member roles
+
+-- 1) Role column
+alter table public.group_members
+  add column if not exists role text not null default 'member'
+    check (role in ('owner', 'admin', 'member'));
+
+update public.group_members gm
+set role = 'owner'
+from public.groups g
+where g.id = gm.group_id and g.created_by = gm.user_id;
+
+-- Creator already gone: the member whose account is oldest takes over
+with orphaned as (
+  select distinct on (gm.group_id) gm.group_id, gm.user_id
+  from public.group_members gm
+  left join public.profiles p on p.id = gm.user_id
+  where not exists (
+    select 1 from public.group_members o
+    where o.group_id = gm.group_id and o.role = 'owner'
+  )
+  order by gm.group_id, p.created_at nulls last, gm.user_id
+)
+update public.group_members gm
+set role = 'owner'
+from orphaned
+where gm.group_id = orphaned.group_id and gm.user_id = orphaned.user_id;
+
+update public.groups g
+set created_by = gm.user_id
+from public.group_members gm
+where gm.group_id = g.id and gm.role = 'owner' and g.created_by <> gm.user_id;
+
+create unique index if not exists idx_group_members_one_owner
+  on public.group_members (group_id) where role = 'owner';
+
+-- 2) Admin check
+create or replace function public.is_group_admin(p_group_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $is_group_admin$
+  select exists (
+    select 1 from public.group_members
+    where group_id = p_group_id and user_id = p_user_id and role in ('owner', 'admin')
+  );
+$is_group_admin$;
+
+-- 3) Role changes
+create or replace function public.promote_member(p_group_id uuid, p_member_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $promote_member$
+declare
+  v_role text;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_group_admin(p_group_id, auth.uid()) then
+    raise exception 'Only the owner or an admin can make someone an admin' using hint = 'not_allowed';
+  end if;
+
+  select role into v_role from public.group_members
+  where group_id = p_group_id and user_id = p_member_user_id;
+  if v_role is null then
+    raise exception 'Not a member of this room' using hint = 'not_member';
+  end if;
+
+  update public.group_members
+  set role = 'admin'
+  where group_id = p_group_id and user_id = p_member_user_id and role = 'member';
+end;
+$promote_member$;
+
+create or replace function public.demote_member(p_group_id uuid, p_member_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $demote_member$
+declare
+  v_role text;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select role into v_role from public.group_members
+  where group_id = p_group_id and user_id = p_member_user_id;
+  if v_role is null then
+    raise exception 'Not a member of this room' using hint = 'not_member';
+  end if;
+
+  if v_role = 'owner' then
+    raise exception 'Hand ownership to someone else first' using hint = 'owner_must_transfer';
+  end if;
+
+  if p_member_user_id <> auth.uid() and not exists (
+    select 1 from public.group_members
+    where group_id = p_group_id and user_id = auth.uid() and role = 'owner'
+  ) then
+    raise exception 'Only the owner can remove an admin' using hint = 'not_allowed';
+  end if;
+
+  update public.group_members
+  set role = 'member'
+  where group_id = p_group_id and user_id = p_member_user_id;
+end;
+$demote_member$;
+
+create or replace function public.transfer_group_ownership(p_group_id uuid, p_new_owner_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $transfer_group_ownership$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (
+    select 1 from public.group_members
+    where group_id = p_group_id and user_id = auth.uid() and role = 'owner'
+  ) then
+    raise exception 'Only the owner can hand over the room' using hint = 'not_allowed';
+  end if;
+
+  if p_new_owner_id = auth.uid() then
+    return;
+  end if;
+
+  if not public.is_group_member(p_group_id, p_new_owner_id) then
+    raise exception 'Not a member of this room' using hint = 'not_member';
+  end if;
+
+  -- Old owner first: the unique index allows one owner at a time
+  update public.group_members
+  set role = 'admin'
+  where group_id = p_group_id and user_id = auth.uid();
+
+  update public.group_members
+  set role = 'owner'
+  where group_id = p_group_id and user_id = p_new_owner_id;
+
+  update public.groups
+  set created_by = p_new_owner_id
+  where id = p_group_id;
+end;
+$transfer_group_ownership$;
+
+grant execute on function public.promote_member(uuid, uuid) to authenticated;
+grant execute on function public.demote_member(uuid, uuid) to authenticated;
+grant execute on function public.transfer_group_ownership(uuid, uuid) to authenticated;
+
+-- 4) Removal by role
+create or replace function public.remove_member_from_group(
+  p_group_id uuid,
+  p_member_user_id uuid,
+  p_acknowledge_balance boolean default false
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $remove_member$
+declare
+  v_current uuid := auth.uid();
+  v_current_role text;
+  v_member_role text;
+  v_balance numeric;
+begin
+  if v_current is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (select 1 from public.groups where id = p_group_id) then
+    raise exception 'Group not found';
+  end if;
+
+  select role into v_member_role from public.group_members
+  where group_id = p_group_id and user_id = p_member_user_id;
+  if v_member_role is null then
+    raise exception 'Not a member of this room';
+  end if;
+
+  select role into v_current_role from public.group_members
+  where group_id = p_group_id and user_id = v_current;
+
+  if v_current = p_member_user_id then
+    if v_member_role = 'owner' and exists (
+      select 1 from public.group_members
+      where group_id = p_group_id and user_id <> v_current
+    ) then
+      raise exception 'Hand ownership to another member before leaving'
+        using hint = 'owner_must_transfer';
+    end if;
+  elsif v_current_role is null or v_current_role = 'member' then
+    raise exception 'Only the owner or an admin can remove other members' using hint = 'not_allowed';
+  elsif v_member_role = 'owner' then
+    raise exception 'The owner cannot be removed' using hint = 'not_allowed';
+  elsif v_member_role = 'admin' and v_current_role <> 'owner' then
+    raise exception 'Only the owner can remove an admin' using hint = 'not_allowed';
+  end if;
+
+  v_balance := public.member_balance(p_group_id, p_member_user_id);
+  if v_balance <> 0 then
+    if not p_acknowledge_balance then
+      raise exception 'Outstanding balance of % must be settled first', abs(v_balance)
+        using hint = 'outstanding_balance';
+    end if;
+    if v_current = p_member_user_id or coalesce(v_current_role, 'member') = 'member' then
+      raise exception 'Only the owner or an admin can remove a member with an outstanding balance';
+    end if;
+  end if;
+
+  insert into public.group_former_members (
+    group_id, user_id, name, email, left_at, removed_by, balance_at_exit
+  )
+  select p_group_id, p_member_user_id, coalesce(p.name, 'User'), p.email, now(),
+    v_current, v_balance
+  from (select 1) one
+  left join public.profiles p on p.id = p_member_user_id
+  on conflict (group_id, user_id) do update
+  set name = excluded.name,
+      email = excluded.email,
+      left_at = excluded.left_at,
+      removed_by = excluded.removed_by,
+      balance_at_exit = excluded.balance_at_exit;
+
+  delete from public.group_members
+  where group_id = p_group_id and user_id = p_member_user_id;
+end;
+$remove_member$;
+
+-- 5) Admin checks
+create or replace function public.can_edit_expense(p_group_id uuid, p_paid_by_user_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $can_edit_expense$
+  select p_user_id is not null
+    and (
+      p_paid_by_user_id = p_user_id
+      or public.is_group_admin(p_group_id, p_user_id)
+    );
+$can_edit_expense$;
+
+create or replace function public.set_remainder_policy(p_group_id uuid, p_policy text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $set_remainder_policy$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_group_admin(p_group_id, auth.uid()) then
+    raise exception 'Only the owner or an admin can change how leftover paise are split';
+  end if;
+
+  update public.groups
+  set remainder_policy = p_policy
+  where id = p_group_id;
+end;
+$set_remainder_policy$;
+
+-- 6) Roles in group responses
+create or replace function public.create_group(p_name text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $create_group$
+declare
+  v_code text;
+  v_group_id uuid;
+  v_user_id uuid := auth.uid();
+  v_members jsonb := '[]'::jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_name is null or trim(p_name) = '' then
+    raise exception 'Room name is required';
+  end if;
+
+  v_code := upper(substring(md5(random()::text || clock_timestamp()::text) from 1 for 6));
+
+  insert into public.groups (name, code, created_by)
+  values (trim(p_name), v_code, v_user_id)
+  returning id into v_group_id;
+
+  insert into public.group_members (group_id, user_id, role)
+  values (v_group_id, v_user_id, 'owner');
+
+  insert into public.profiles (id, name)
+  select v_user_id, coalesce(
+    (select name from public.profiles where id = v_user_id),
+    coalesce(
+      nullif(split_part((select email from auth.users where id = v_user_id), '@', 1), ''),
+      'User'
+    )
+  )
+  on conflict (id) do update set updated_at = now();
+
+  select jsonb_agg(
+    jsonb_build_object('id', p.id::text, 'name', p.name, 'email', p.email, 'role', gm.role)
+  ) into v_members
+  from public.group_members gm
+  join public.profiles p on p.id = gm.user_id
+  where gm.group_id = v_group_id;
+
+  return jsonb_build_object(
+    'id', v_group_id,
+    'name', trim(p_name),
+    'code', v_code,
+    'createdBy', v_user_id::text,
+    'members', coalesce(v_members, '[]'::jsonb)
+  );
+end;
+$create_group$;
+
+create or replace function public.join_group_by_code(p_code text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $join_group$
+declare
+  v_group_id uuid;
+  v_user_id uuid := auth.uid();
+  v_members jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select id into v_group_id
+  from public.groups
+  where upper(trim(code)) = upper(trim(p_code))
+  limit 1;
+
+  if v_group_id is null then
+    raise exception 'Invalid invite code';
+  end if;
+
+  insert into public.group_members (group_id, user_id)
+  values (v_group_id, v_user_id)
+  on conflict (group_id, user_id) do nothing;
+
+  insert into public.profiles (id, name)
+  select v_user_id, coalesce(
+    (select name from public.profiles where id = v_user_id),
+    coalesce(
+      nullif(split_part((select email from auth.users where id = v_user_id), '@', 1), ''),
+      'User'
+    )
+  )
+  on conflict (id) do update set updated_at = now();
+
+  select jsonb_build_object(
+    'id', g.id,
+    'name', g.name,
+    'code', g.code,
+    'createdBy', g.created_by::text,
+    'remainderPolicy', g.remainder_policy,
+    'members', (
+      select coalesce(jsonb_agg(
+        jsonb_build_object('id', p.id::text, 'name', p.name, 'email', p.email, 'role', gm.role)
+      ), '[]'::jsonb)
+      from public.group_members gm
+      join public.profiles p on p.id = gm.user_id
+      where gm.group_id = g.id
+    )
+  ) into v_members
+  from public.groups g
+  where g.id = v_group_id;
+
+  return v_members;
+end;
+$join_group$;
+
+create or replace function public.get_user_groups()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $get_user_groups$
+declare
+  v_user_id uuid := auth.uid();
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    return '[]'::jsonb;
+  end if;
+
+  select coalesce(jsonb_agg(g_with_members), '[]'::jsonb) into v_result
+  from (
+    select jsonb_build_object(
+      'id', grp.id::text,
+      'name', grp.name,
+      'code', grp.code,
+      'createdBy', grp.created_by::text,
+      'remainderPolicy', grp.remainder_policy,
+      'members', (
+        select coalesce(jsonb_agg(
+          jsonb_build_object(
+            'id', p.id::text,
+            'name', coalesce(p.name, 'User'),
+            'email', p.email,
+            'role', gm.role
+          )
+        ), '[]'::jsonb)
+        from public.group_members gm
+        left join public.profiles p on p.id = gm.user_id
+        where gm.group_id = grp.id
+      ),
+      'formerMembers', (
+        select coalesce(jsonb_agg(
+          jsonb_build_object(
+            'id', fm.user_id::text,
+            'name', fm.name,
+            'email', fm.email,
+            'leftAt', fm.left_at
+          )
+          order by fm.left_at
+        ), '[]'::jsonb)
+        from public.group_former_members fm
+        where fm.group_id = grp.id
+          and not public.is_group_member(grp.id, fm.user_id)
+      )
+    ) as g_with_members
+    from (
+      select g.id, g.name, g.code, g.created_by, g.remainder_policy
+      from public.groups g
+      where g.id in (select group_id from public.group_members where user_id = v_user_id)
+    ) grp
+  ) sub;
+
+  return v_result;
+end;
+$get_user_groups$;
@@ -0,0 +1,117 @@
+-- Trash moves only through soft_delete_expense / restore_expense.
+-- record_expense_revision only reset deleted_at / deleted_by when another column changed too, so a
+-- bare update of deleted_at (e.g. a PATCH from the payer) trashed or restored an expense without
+-- the RPCs' checks.
+-- 1) soft_delete_expense / restore_expense flag the move for their transaction (app.expense_trash_move)
+-- 2) record_expense_revision rejects any other change to deleted_at / deleted_by
+
+-- 1) Flag trash moves
+create or replace function public.soft_delete_expense(p_expense_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $soft_delete_expense$
+begin
+  if not public.can_delete_expense(p_expense_id, auth.uid()) then
+    raise exception 'Only the payer or the person who added this expense can delete it';
+  end if;
+
+  perform set_config('app.expense_trash_move', 'on', true);
+
+  update public.expenses
+  set deleted_at = now(), deleted_by = auth.uid()
+  where id = p_expense_id and deleted_at is null;
+
+  perform set_config('app.expense_trash_move', 'off', true);
+end;
+$soft_delete_expense$;
+
+create or replace function public.restore_expense(p_expense_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $restore_expense$
+begin
+  if not public.can_delete_expense(p_expense_id, auth.uid()) then
+    raise exception 'Only the payer or the person who added this expense can restore it';
+  end if;
+
+  perform set_config('app.expense_trash_move', 'on', true);
+
+  update public.expenses
+  set deleted_at = null, deleted_by = null
+  where id = p_expense_id and deleted_at is not null;
+
+  perform set_config('app.expense_trash_move', 'off', true);
+end;
+$restore_expense$;
+
+-- 2) Guard in the revision trigger (runs on every update of expenses)
+create or replace function public.record_expense_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $record_expense_revision$
+declare
+  v_changed text[] := '{}';
+begin
+  -- Trash state only changes through soft_delete_expense / restore_expense
+  if (new.deleted_at is distinct from old.deleted_at or new.deleted_by is distinct from old.deleted_by)
+     and auth.uid() is not null
+     and coalesce(current_setting('app.expense_trash_move', true), '') <> 'on' then
+    raise exception 'Use delete / restore to move an expense to or from the trash';
+  end if;
+
+  if new.title is distinct from old.title then v_changed := v_changed || 'title'; end if;
+  if new.amount is distinct from old.amount then v_changed := v_changed || 'amount'; end if;
+  if new.expense_date is distinct from old.expense_date then v_changed := v_changed || 'expense_date'; end if;
+  if new.category is distinct from old.category then v_changed := v_changed || 'category'; end if;
+  if new.paid_by_user_id is distinct from old.paid_by_user_id or new.payers is distinct from old.payers then
+    v_changed := v_changed || 'paid_by';
+  end if;
+  if new.split_type is distinct from old.split_type
+     or coalesce(current_setting('app.expense_splits_changed', true), '') = 'on'
+     or new.items is distinct from old.items
+     or new.charges is distinct from old.charges then
+    v_changed := v_changed || 'splits';
+  end if;
+
+  -- Identity and provenance never change on edit
+  new.id := old.id;
+  new.group_id := old.group_id;
+  new.entered_by := old.entered_by;
+  new.created_at := old.created_at;
+
+  -- Nothing user-visible changed (e.g. moved to / restored from trash): no revision
+  if array_length(v_changed, 1) is null then
+    return new;
+  end if;
+
+  if auth.uid() is not null and not public.can_edit_expense(old.group_id, old.paid_by_user_id, auth.uid()) then
+    raise exception 'Only the payer or the room admin can edit this expense';
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Restore this expense before editing it';
+  end if;
+
+  -- An edit never moves the expense in or out of the trash
+  new.deleted_at := old.deleted_at;
+  new.deleted_by := old.deleted_by;
+
+  insert into public.expense_revisions (expense_id, group_id, revised_by, changed_fields, previous_version)
+  values (
+    old.id, old.group_id, auth.uid(), v_changed,
+    to_jsonb(old) || jsonb_build_object(
+      'paid_by_name', (select p.name from public.profiles p where p.id = old.paid_by_user_id),
+      'splits', public.expense_splits_json(old.id)
+    )
+  );
+
+  new.updated_at := now();
+  return new;
+end;
+$record_expense_revision$;
@@ -0,0 +1,149 @@
+-- Budget alerts raised by the database on every expense write.
+-- Alerts were only worked out in the browser when adding an expense, so edits that raise an
+-- amount, restores from the trash, and expenses posted by post_due_recurring_expenses never
+-- raised one.
+-- 1) category_budget_available: budget + carry-over for a category in a month (same rules as
+--    lib/utils/budget-calculator: leftover carries within the reset cycle; trash excluded)
+-- 2) raise_budget_alerts (after insert / update of expenses): records the 80 / 100 thresholds the
+--    write pushed its category past in its month
+-- 3) Alerts are only written by the trigger now
+
+-- 1) Available budget
+create or replace function public.category_budget_available(
+  p_group_id uuid,
+  p_category text,
+  p_month date
+)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $category_budget_available$
+declare
+  v_current public.category_budgets%rowtype;
+  v_first date;
+  v_cycle_start date;
+  v_carried numeric;
+begin
+  select * into v_current
+  from public.category_budgets
+  where group_id = p_group_id and category = p_category and starts_on <= p_month
+  order by starts_on desc
+  limit 1;
+
+  -- No budget (or 0) that month
+  if not found or v_current.amount <= 0 then
+    return null;
+  end if;
+
+  select min(starts_on) into v_first
+  from public.category_budgets
+  where group_id = p_group_id and category = p_category;
+
+  v_cycle_start := case v_current.reset_schedule
+    when 'monthly' then p_month
+    when 'quarterly' then greatest(v_first, date_trunc('quarter', p_month)::date)
+    when 'yearly' then greatest(v_first, date_trunc('year', p_month)::date)
+    else v_first
+  end;
+
+  -- Leftover (or overspend) of each earlier month in the cycle
+  select coalesce(sum(coalesce(b.amount, 0) - coalesce(s.spent, 0)), 0) into v_carried
+  from generate_series(
+    v_cycle_start::timestamp,
+    p_month::timestamp - interval '1 month',
+    interval '1 month'
+  ) as m(month)
+  left join lateral (
+    select cb.amount
+    from public.category_budgets cb
+    where cb.group_id = p_group_id and cb.category = p_category and cb.starts_on <= m.month::date
+    order by cb.starts_on desc
+    limit 1
+  ) b on true
+  left join lateral (
+    select sum(e.amount) as spent
+    from public.expenses e
+    where e.group_id = p_group_id
+      and e.category = p_category
+      and e.deleted_at is null
+      and e.expense_date >= m.month::date
+      and e.expense_date < (m.month + interval '1 month')::date
+  ) s on true;
+
+  return v_current.amount + v_carried;
+end;
+$category_budget_available$;
+
+revoke all on function public.category_budget_available(uuid, text, date) from public, anon, authenticated;
+
+-- 2) Raise alerts for the thresholds a write crossed
+create or replace function public.raise_budget_alerts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $raise_budget_alerts$
+declare
+  v_month date;
+  v_delta numeric;
+  v_available numeric;
+  v_spent numeric;
+  v_threshold integer;
+begin
+  if new.deleted_at is not null then
+    return null;
+  end if;
+
+  -- How much this write added to its category's spend in its month
+  v_month := date_trunc('month', new.expense_date)::date;
+  v_delta := new.amount;
+  if tg_op = 'UPDATE'
+     and old.deleted_at is null
+     and old.category = new.category
+     and date_trunc('month', old.expense_date)::date = v_month then
+    v_delta := new.amount - old.amount;
+  end if;
+  if v_delta <= 0 then
+    return null;
+  end if;
+
+  v_available := public.category_budget_available(new.group_id, new.category, v_month);
+  if v_available is null then
+    return null;
+  end if;
+
+  select coalesce(sum(amount), 0) into v_spent
+  from public.expenses
+  where group_id = new.group_id
+    and category = new.category
+    and deleted_at is null
+    and expense_date >= v_month
+    and expense_date < (v_month + interval '1 month')::date;
+
+  -- Reached = spent is at least the threshold % of available (anything spent when nothing is left)
+  foreach v_threshold in array array[80, 100] loop
+    if (case when v_available > 0 then v_spent * 100 >= v_threshold * v_available else v_spent > 0 end)
+       and not (case
+         when v_available > 0 then (v_spent - v_delta) * 100 >= v_threshold * v_available
+         else v_spent - v_delta > 0
+       end) then
+      insert into public.budget_alerts (group_id, category, month, threshold, created_by)
+      values (new.group_id, new.category, v_month, v_threshold, auth.uid())
+      on conflict (group_id, category, month, threshold) do nothing;
+    end if;
+  end loop;
+
+  return null;
+end;
+$raise_budget_alerts$;
+
+drop trigger if exists trg_raise_budget_alerts on public.expenses;
+
+create trigger trg_raise_budget_alerts
+  after insert or update of amount, category, expense_date, deleted_at on public.expenses
+  for each row execute function public.raise_budget_alerts();
+
+-- 3) Members no longer write alerts themselves
+drop policy if exists "Members can raise budget alerts in their groups" on public.budget_alerts;
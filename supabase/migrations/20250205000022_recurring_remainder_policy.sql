@@ -0,0 +1,255 @@
+-- Recurring equal splits follow the room's remainder policy; posted instances stay in their room.
+-- post_due_recurring_expenses copied the template's stored splits onto every instance, so the
+-- leftover paise of an equal split landed on the same person each month whatever the policy.
+-- 1) equal_split_json: equal splits in whole paise, leftover paise by groups.remainder_policy
+--    (same rules as buildEqualSplits in lib/utils/balance-calculator: round_robin by the tally of
+--    extra paise in the room's equal expenses, payer, or a shuffle seeded by the expense id)
+-- 2) post_due_recurring_expenses: equal templates are re-split for each instance it posts
+-- 3) create_expense: recurring_expense_id must be a template of the same room
+
+-- 1) Equal splits
+create or replace function public.equal_split_json(
+  p_group_id uuid,
+  p_expense_id uuid,
+  p_amount numeric,
+  p_participants uuid[],
+  p_payer uuid
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $equal_split_json$
+declare
+  v_uint constant numeric := 4294967296;
+  v_policy text;
+  v_n integer := coalesce(array_length(p_participants, 1), 0);
+  v_total bigint := round(p_amount * 100)::bigint;
+  v_share bigint;
+  v_remainder integer;
+  v_extra integer[];
+  v_order integer[];
+  v_seed text := p_expense_id::text;
+  v_state bigint;
+  v_t bigint;
+  v_hash bigint := 2166136261;
+  v_i integer;
+  v_j integer;
+  v_swap integer;
+begin
+  if v_n = 0 then
+    return '[]'::jsonb;
+  end if;
+
+  select remainder_policy into v_policy from public.groups where id = p_group_id;
+
+  v_share := v_total / v_n;
+  v_remainder := v_total - v_share * v_n;
+  v_extra := array_fill(0, array[v_n]);
+
+  if v_remainder > 0 then
+    if v_policy = 'payer' and p_payer = any(p_participants) then
+      v_extra[array_position(p_participants, p_payer)] := v_remainder;
+    else
+      if v_policy = 'random' then
+        -- 32-bit FNV-1a of the expense id, then a mulberry32 Fisher-Yates shuffle
+        for v_i in 1..length(v_seed) loop
+          v_hash := v_hash # ascii(substr(v_seed, v_i, 1));
+          v_hash := ((v_hash::numeric * 16777619) % v_uint)::bigint;
+        end loop;
+        v_state := v_hash;
+        v_order := array(select generate_series(1, v_n));
+        for v_i in reverse v_n - 1..1 loop
+          v_state := ((v_state::numeric + 1831565813) % v_uint)::bigint;
+          v_t := (((v_state # (v_state >> 15))::numeric * (1 | v_state)) % v_uint)::bigint;
+          v_t := ((v_t::numeric + ((v_t # (v_t >> 7))::numeric * (61 | v_t)) % v_uint) % v_uint)::bigint # v_t;
+          v_j := floor(((v_t # (v_t >> 14))::numeric / v_uint) * (v_i + 1))::integer;
+          v_swap := v_order[v_i + 1];
+          v_order[v_i + 1] := v_order[v_j + 1];
+          v_order[v_j + 1] := v_swap;
+        end loop;
+      else
+        -- round_robin: fewest extra paise so far first, ties in list order
+        select array_agg(p.ord order by coalesce(t.extra, 0), p.ord) into v_order
+        from unnest(p_participants) with ordinality as p(user_id, ord)
+        left join (
+          select s.user_id, sum(round(s.amount * 100) - base.min_paise) as extra
+          from public.expense_splits s
+          join public.expenses e on e.id = s.expense_id
+          join lateral (
+            select min(round(s2.amount * 100)) as min_paise
+            from public.expense_splits s2
+            where s2.expense_id = e.id
+          ) base on true
+          where e.group_id = p_group_id
+            and e.split_type = 'equal'
+            and e.deleted_at is null
+            and e.id <> p_expense_id
+          group by s.user_id
+        ) t on t.user_id = p.user_id;
+      end if;
+
+      for v_i in 1..v_remainder loop
+        v_extra[v_order[v_i]] := 1;
+      end loop;
+    end if;
+  end if;
+
+  return (
+    select jsonb_agg(
+      jsonb_build_object('userId', p.user_id, 'amount', round((v_share + v_extra[p.ord]) / 100.0, 2))
+      order by p.ord
+    )
+    from unnest(p_participants) with ordinality as p(user_id, ord)
+  );
+end;
+$equal_split_json$;
+
+revoke all on function public.equal_split_json(uuid, uuid, numeric, uuid[], uuid) from public, anon, authenticated;
+
+-- 2) Posting
+create or replace function public.post_due_recurring_expenses(p_today date default current_date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $post_due_recurring_expenses$
+declare
+  v_template public.recurring_expenses%rowtype;
+  v_due date;
+  v_expense_id uuid;
+  v_splits jsonb;
+  v_posted integer := 0;
+begin
+  for v_template in
+    select * from public.recurring_expenses
+    where active and next_due_on <= p_today
+    for update skip locked
+  loop
+    v_due := v_template.next_due_on;
+    begin
+      -- Checked here (not only at commit) so a bad template pauses instead of failing the whole job
+      if (
+        select coalesce(sum((s->>'amount')::numeric), 0)
+        from jsonb_array_elements(v_template.splits) s
+      ) <> v_template.amount then
+        raise exception 'Splits do not add up to the amount';
+      end if;
+
+      while v_due <= p_today
+        and (v_template.end_date is null or v_due <= v_template.end_date)
+      loop
+        -- Picked up front so the random policy can seed from it
+        v_expense_id := gen_random_uuid();
+
+        insert into public.expenses (
+          id, group_id, title, amount, category, paid_by_user_id, payers, split_type,
+          expense_date, entered_by, recurring_expense_id
+        )
+        values (
+          v_expense_id, v_template.group_id, v_template.title, v_template.amount, v_template.category,
+          (v_template.paid_by->>'id')::uuid, v_template.payers, v_template.split_type,
+          v_due, v_template.created_by, v_template.id
+        )
+        on conflict (recurring_expense_id, expense_date) where recurring_expense_id is not null
+        do nothing
+        returning id into v_expense_id;
+
+        if v_expense_id is not null then
+          -- Equal: leftover paise by today's policy and rotation; other types are exact already
+          v_splits := case
+            when v_template.split_type = 'equal' then public.equal_split_json(
+              v_template.group_id,
+              v_expense_id,
+              v_template.amount,
+              array(
+                select (s->>'userId')::uuid
+                from jsonb_array_elements(v_template.splits) with ordinality as t(s, ord)
+                order by t.ord
+              ),
+              (v_template.paid_by->>'id')::uuid
+            )
+            else v_template.splits
+          end;
+          perform public.replace_expense_splits(v_expense_id, v_splits);
+          v_posted := v_posted + 1;
+        end if;
+
+        v_due := public.recurring_next_due(v_due, v_template.frequency, v_template.day_of_month);
+      end loop;
+
+      update public.recurring_expenses
+      set next_due_on = v_due,
+          active = v_template.end_date is null or v_due <= v_template.end_date,
+          last_error = null
+      where id = v_template.id;
+    exception when others then
+      -- e.g. payer no longer in the room: pause this template, keep posting the others
+      update public.recurring_expenses
+      set active = false, last_error = sqlerrm
+      where id = v_template.id;
+    end;
+  end loop;
+
+  return v_posted;
+end;
+$post_due_recurring_expenses$;
+
+revoke all on function public.post_due_recurring_expenses(date) from public, anon, authenticated;
+grant execute on function public.post_due_recurring_expenses(date) to service_role;
+
+-- 3) create_expense: a client-supplied template must belong to the room
+create or replace function public.create_expense(p_group_id uuid, p_expense jsonb, p_splits jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $create_expense$
+declare
+  v_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using hint = 'not_authenticated';
+  end if;
+
+  if not public.is_group_member(p_group_id, auth.uid()) then
+    raise exception 'Not a member of this room' using hint = 'not_member';
+  end if;
+
+  perform public.check_expense_input(p_group_id, p_expense, p_splits);
+
+  if p_expense->>'recurring_expense_id' is not null
+     and not exists (
+       select 1 from public.recurring_expenses
+       where id = (p_expense->>'recurring_expense_id')::uuid and group_id = p_group_id
+     ) then
+    raise exception 'Recurring expense not found in this room' using hint = 'not_found';
+  end if;
+
+  insert into public.expenses (
+    id, group_id, title, amount, paid_by_user_id, payers, split_type, items, charges,
+    expense_date, category, recurring_expense_id
+  )
+  values (
+    coalesce((p_expense->>'id')::uuid, gen_random_uuid()),
+    p_group_id,
+    trim(p_expense->>'title'),
+    (p_expense->>'amount')::numeric,
+    (p_expense->>'paid_by_user_id')::uuid,
+    nullif(p_expense->'payers', 'null'::jsonb),
+    p_expense->>'split_type',
+    nullif(p_expense->'items', 'null'::jsonb),
+    nullif(p_expense->'charges', 'null'::jsonb),
+    (p_expense->>'expense_date')::date,
+    coalesce(p_expense->>'category', 'other'),
+    (p_expense->>'recurring_expense_id')::uuid
+  )
+  returning id into v_id;
+
+  perform public.replace_expense_splits(v_id, p_splits);
+  return v_id;
+end;
+$create_expense$;
+
+grant execute on function public.create_expense(uuid, jsonb, jsonb) to authenticated;
@@ -0,0 +1,673 @@
+-- Relational payers for multi-payer expenses (replaces the expenses.payers JSONB column).
+-- payers had no FK, so nothing tied a payer to a profile: account deletion and the membership
+-- checks had to look inside the JSON, and has_expense_history_elsewhere did not.
+-- 1) expense_payers: one row per payer of a multi-payer expense, FK to the expense (cascade) and to
+--    profiles (NOT VALID, as for expense_splits). Single-payer expenses have no rows; the payer is
+--    expenses.paid_by_user_id. A deferred constraint trigger checks the payments add up to the amount.
+-- 2) expense_payers_json / replace_expense_payers: the JSON shape the app and the edit history use
+--    ([{ userId, amount }], null for a single payer). New payers must be room members; an edit may
+--    keep a payer who has since left.
+-- 3) Everything that read expenses.payers is rewritten: check_expense_payers, check_expense_input,
+--    record_expense_revision (app.expense_payers_changed, like app.expense_splits_changed),
+--    member_balance, has_expense_history_elsewhere, post_due_recurring_expenses, create_expense,
+--    update_expense. Recurring templates keep their JSONB payers; posting creates payer rows.
+
+-- 1) Payers
+create table if not exists public.expense_payers (
+  expense_id uuid not null references public.expenses(id) on delete cascade,
+  user_id uuid not null,
+  amount numeric not null check (amount > 0),
+  -- Order the payments were entered in (the UI lists them in this order)
+  position integer not null default 0,
+  primary key (expense_id, user_id)
+);
+
+create index if not exists idx_expense_payers_user_id on public.expense_payers (user_id);
+
+insert into public.expense_payers (expense_id, user_id, amount, position)
+select e.id, (p->>'userId')::uuid, (p->>'amount')::numeric, (t.ord - 1)::integer
+from public.expenses e
+cross join lateral jsonb_array_elements(e.payers) with ordinality as t(p, ord)
+where jsonb_typeof(e.payers) = 'array'
+on conflict (expense_id, user_id) do nothing;
+
+-- Profiles for payers who are still registered but never got one (FK target below)
+insert into public.profiles (id, email)
+select u.id, u.email
+from auth.users u
+where u.id in (select user_id from public.expense_payers)
+on conflict (id) do nothing;
+
+alter table public.expense_payers
+  add constraint expense_payers_user_id_fkey
+  foreign key (user_id) references public.profiles(id) not valid;
+
+alter table public.expense_payers enable row level security;
+
+create policy "Members can read payers of their groups' expenses"
+  on public.expense_payers for select
+  using (
+    exists (
+      select 1 from public.expenses e
+      where e.id = expense_payers.expense_id
+        and public.is_group_member(e.group_id, auth.uid())
+    )
+  );
+
+-- No insert/update/delete policies: rows are written by create_expense / update_expense
+
+alter table public.expenses
+  drop column if exists payers;
+
+-- Payments must add up to the amount (checked at commit, like the splits)
+create or replace function public.check_expense_payer_total()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $check_expense_payer_total$
+declare
+  v_expense_id uuid;
+  v_amount numeric;
+  v_total numeric;
+begin
+  if tg_table_name = 'expenses' then
+    v_expense_id := new.id;
+  elsif tg_op = 'DELETE' then
+    v_expense_id := old.expense_id;
+  else
+    v_expense_id := new.expense_id;
+  end if;
+
+  select amount into v_amount from public.expenses where id = v_expense_id;
+  -- Expense deleted (its payers go with it)
+  if not found then
+    return null;
+  end if;
+
+  select sum(amount) into v_total
+  from public.expense_payers
+  where expense_id = v_expense_id;
+
+  -- Single payer: no rows
+  if v_total is not null and v_total <> v_amount then
+    raise exception 'Payments add up to % but the expense is %', v_total, v_amount
+      using errcode = 'check_violation';
+  end if;
+
+  return null;
+end;
+$check_expense_payer_total$;
+
+drop trigger if exists trg_expense_payer_total on public.expenses;
+
+create constraint trigger trg_expense_payer_total
+  after update of amount on public.expenses
+  deferrable initially deferred
+  for each row execute function public.check_expense_payer_total();
+
+drop trigger if exists trg_expense_payers_total on public.expense_payers;
+
+create constraint trigger trg_expense_payers_total
+  after insert or update or delete on public.expense_payers
+  deferrable initially deferred
+  for each row execute function public.check_expense_payer_total();
+
+-- 2) JSON shape
+create or replace function public.expense_payers_json(p_expense_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $expense_payers_json$
+  select jsonb_agg(
+    jsonb_build_object('userId', p.user_id::text, 'amount', p.amount)
+    order by p.position
+  )
+  from public.expense_payers p
+  where p.expense_id = p_expense_id;
+$expense_payers_json$;
+
+revoke all on function public.expense_payers_json(uuid) from public, anon, authenticated;
+
+-- Replace an expense's payers with p_payers ([{ userId, amount }]; null or [] for a single payer)
+create or replace function public.replace_expense_payers(p_expense_id uuid, p_payers jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $replace_expense_payers$
+declare
+  v_group_id uuid;
+begin
+  select group_id into v_group_id from public.expenses where id = p_expense_id;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(coalesce(nullif(p_payers, 'null'::jsonb), '[]'::jsonb)) p
+    where not public.is_group_member(v_group_id, (p->>'userId')::uuid)
+      and not exists (
+        select 1 from public.expense_payers ep
+        where ep.expense_id = p_expense_id and ep.user_id = (p->>'userId')::uuid
+      )
+  ) then
+    raise exception 'Every payer must be a member of this room' using hint = 'payer_not_member';
+  end if;
+
+  delete from public.expense_payers where expense_id = p_expense_id;
+
+  insert into public.expense_payers (expense_id, user_id, amount, position)
+  select p_expense_id, (p->>'userId')::uuid, (p->>'amount')::numeric, (t.ord - 1)::integer
+  from jsonb_array_elements(coalesce(nullif(p_payers, 'null'::jsonb), '[]'::jsonb)) with ordinality as t(p, ord);
+end;
+$replace_expense_payers$;
+
+revoke all on function public.replace_expense_payers(uuid, jsonb) from public, anon, authenticated;
+
+-- 3) Readers and writers
+create or replace function public.check_expense_payers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $check_expense_payers$
+begin
+  -- entered_by is always the caller when called from the app (cannot be spoofed)
+  if tg_op = 'INSERT' and auth.uid() is not null then
+    new.entered_by := auth.uid();
+  end if;
+
+  if tg_op = 'UPDATE' and new.paid_by_user_id is not distinct from old.paid_by_user_id then
+    return new;
+  end if;
+
+  -- Other payers are checked by replace_expense_payers
+  if not public.is_group_member(new.group_id, new.paid_by_user_id) then
+    raise exception 'Payer must be a member of this room';
+  end if;
+
+  return new;
+end;
+$check_expense_payers$;
+
+create or replace function public.check_expense_input(
+  p_group_id uuid,
+  p_expense jsonb,
+  p_splits jsonb,
+  p_existing_id uuid default null
+)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $check_expense_input$
+declare
+  v_uuid constant text := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+  v_amount numeric;
+  v_payer jsonb;
+  v_payer_total numeric := 0;
+  v_split jsonb;
+  v_split_total numeric := 0;
+  v_user_id uuid;
+  v_seen uuid[] := '{}';
+begin
+  if coalesce(trim(p_expense->>'title'), '') = '' then
+    raise exception 'Title is required' using hint = 'invalid_title';
+  end if;
+
+  if jsonb_typeof(p_expense->'amount') is distinct from 'number' then
+    raise exception 'Amount must be greater than zero' using hint = 'invalid_amount';
+  end if;
+  v_amount := (p_expense->>'amount')::numeric;
+  if v_amount <= 0 or v_amount <> round(v_amount, 2) then
+    raise exception 'Amount must be greater than zero, in whole paise' using hint = 'invalid_amount';
+  end if;
+
+  if coalesce(p_expense->>'split_type', '') not in ('equal', 'custom', 'percentage', 'shares', 'itemized') then
+    raise exception 'Unknown split type "%"', p_expense->>'split_type' using hint = 'invalid_split_type';
+  end if;
+
+  -- Payer (an edit may keep a payer who has left the room)
+  if coalesce(p_expense->>'paid_by_user_id', '') !~* v_uuid then
+    raise exception 'Payer is required' using hint = 'payer_not_member';
+  end if;
+  v_user_id := (p_expense->>'paid_by_user_id')::uuid;
+  if not public.is_group_member(p_group_id, v_user_id)
+     and not exists (
+       select 1 from public.expenses e
+       where e.id = p_existing_id and e.paid_by_user_id = v_user_id
+     ) then
+    raise exception 'Payer must be a member of this room' using hint = 'payer_not_member';
+  end if;
+
+  -- Multi-payer: every payer is a member and the payments add up to the amount
+  if jsonb_typeof(p_expense->'payers') = 'array' and jsonb_array_length(p_expense->'payers') > 0 then
+    v_seen := '{}';
+    for v_payer in select value from jsonb_array_elements(p_expense->'payers') loop
+      if coalesce(v_payer->>'userId', '') !~* v_uuid
+         or jsonb_typeof(v_payer->'amount') is distinct from 'number'
+         or (v_payer->>'amount')::numeric <= 0 then
+        raise exception 'Each payer needs an amount greater than zero' using hint = 'invalid_payers';
+      end if;
+      v_user_id := (v_payer->>'userId')::uuid;
+      if v_user_id = any(v_seen) then
+        raise exception 'Each person can appear only once in the payments' using hint = 'invalid_payers';
+      end if;
+      v_seen := v_seen || v_user_id;
+      if not public.is_group_member(p_group_id, v_user_id)
+         and not exists (
+           select 1 from public.expense_payers ep
+           where ep.expense_id = p_existing_id and ep.user_id = v_user_id
+         ) then
+        raise exception 'Every payer must be a member of this room' using hint = 'payer_not_member';
+      end if;
+      v_payer_total := v_payer_total + (v_payer->>'amount')::numeric;
+    end loop;
+
+    if v_payer_total <> v_amount then
+      raise exception 'Payments add up to % but the expense is %', v_payer_total, v_amount
+        using hint = 'payer_total_mismatch';
+    end if;
+  end if;
+
+  -- Splits: members only, each person once, exact total
+  if jsonb_typeof(p_splits) is distinct from 'array' or jsonb_array_length(p_splits) = 0 then
+    raise exception 'At least one person must share the expense' using hint = 'invalid_splits';
+  end if;
+
+  v_seen := '{}';
+  for v_split in select value from jsonb_array_elements(p_splits) loop
+    if coalesce(v_split->>'userId', '') !~* v_uuid
+       or jsonb_typeof(v_split->'amount') is distinct from 'number'
+       or (v_split->>'amount')::numeric < 0 then
+      raise exception 'Each split needs a member and an amount of zero or more' using hint = 'invalid_splits';
+    end if;
+    v_user_id := (v_split->>'userId')::uuid;
+    if v_user_id = any(v_seen) then
+      raise exception 'Each person can appear only once in the splits' using hint = 'invalid_splits';
+    end if;
+    v_seen := v_seen || v_user_id;
+    if not public.is_group_member(p_group_id, v_user_id)
+       and not exists (
+         select 1 from public.expense_splits s
+         where s.expense_id = p_existing_id and s.user_id = v_user_id
+       ) then
+      raise exception 'Everyone sharing the expense must be a member of this room'
+        using hint = 'participant_not_member';
+    end if;
+    v_split_total := v_split_total + (v_split->>'amount')::numeric;
+  end loop;
+
+  if v_split_total <> v_amount then
+    raise exception 'Splits add up to % but the expense is %', v_split_total, v_amount
+      using hint = 'split_total_mismatch';
+  end if;
+end;
+$check_expense_input$;
+
+revoke all on function public.check_expense_input(uuid, jsonb, jsonb, uuid) from public, anon, authenticated;
+
+-- Payers are not a column of expenses any more: update_expense flags a payer change for this
+-- transaction (app.expense_payers_changed) before updating the row, like the splits
+create or replace function public.record_expense_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $record_expense_revision$
+declare
+  v_changed text[] := '{}';
+begin
+  -- Trash state only changes through soft_delete_expense / restore_expense
+  if (new.deleted_at is distinct from old.deleted_at or new.deleted_by is distinct from old.deleted_by)
+     and auth.uid() is not null
+     and coalesce(current_setting('app.expense_trash_move', true), '') <> 'on' then
+    raise exception 'Use delete / restore to move an expense to or from the trash';
+  end if;
+
+  if new.title is distinct from old.title then v_changed := array_append(v_changed, 'title'); end if;
+  if new.amount is distinct from old.amount then v_changed := array_append(v_changed, 'amount'); end if;
+  if new.expense_date is distinct from old.expense_date then v_changed := array_append(v_changed, 'expense_date'); end if;
+  if new.category is distinct from old.category then v_changed := array_append(v_changed, 'category'); end if;
+  if new.paid_by_user_id is distinct from old.paid_by_user_id
+     or coalesce(current_setting('app.expense_payers_changed', true), '') = 'on' then
+    v_changed := array_append(v_changed, 'paid_by');
+  end if;
+  if new.split_type is distinct from old.split_type
+     or coalesce(current_setting('app.expense_splits_changed', true), '') = 'on'
+     or new.items is distinct from old.items
+     or new.charges is distinct from old.charges then
+    v_changed := array_append(v_changed, 'splits');
+  end if;
+
+  -- Identity and provenance never change on edit
+  new.id := old.id;
+  new.group_id := old.group_id;
+  new.entered_by := old.entered_by;
+  new.created_at := old.created_at;
+
+  -- Nothing user-visible changed (e.g. moved to / restored from trash): no revision
+  if array_length(v_changed, 1) is null then
+    return new;
+  end if;
+
+  if auth.uid() is not null and not public.can_edit_expense(old.group_id, old.paid_by_user_id, auth.uid()) then
+    raise exception 'Only the payer or the room admin can edit this expense';
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Restore this expense before editing it';
+  end if;
+
+  -- An edit never moves the expense in or out of the trash
+  new.deleted_at := old.deleted_at;
+  new.deleted_by := old.deleted_by;
+
+  insert into public.expense_revisions (expense_id, group_id, revised_by, changed_fields, previous_version)
+  values (
+    old.id, old.group_id, auth.uid(), v_changed,
+    to_jsonb(old) || jsonb_build_object(
+      'paid_by_name', (select p.name from public.profiles p where p.id = old.paid_by_user_id),
+      'payers', public.expense_payers_json(old.id),
+      'splits', public.expense_splits_json(old.id)
+    )
+  );
+
+  new.updated_at := now();
+  return new;
+end;
+$record_expense_revision$;
+
+create or replace function public.member_balance(p_group_id uuid, p_user_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $member_balance$
+  select
+    -- Paid: their expense_payers row, or the full amount when they are the single payer
+    coalesce((
+      select sum(
+        case
+          when exists (select 1 from public.expense_payers ep where ep.expense_id = e.id) then (
+            select coalesce(sum(ep.amount), 0)
+            from public.expense_payers ep
+            where ep.expense_id = e.id and ep.user_id = p_user_id
+          )
+          when e.paid_by_user_id = p_user_id then e.amount
+          else 0
+        end
+      )
+      from public.expenses e
+      where e.group_id = p_group_id and e.deleted_at is null
+    ), 0)
+    -- Owed: their splits
+    - coalesce((
+      select sum(s.amount)
+      from public.expenses e
+      join public.expense_splits s on s.expense_id = e.id
+      where e.group_id = p_group_id
+        and e.deleted_at is null
+        and s.user_id = p_user_id
+    ), 0)
+    + coalesce((
+      select sum(amount) from public.settlements
+      where group_id = p_group_id and from_user_id = p_user_id
+    ), 0)
+    - coalesce((
+      select sum(amount) from public.settlements
+      where group_id = p_group_id and to_user_id = p_user_id
+    ), 0);
+$member_balance$;
+
+revoke all on function public.member_balance(uuid, uuid) from public, anon, authenticated;
+
+create or replace function public.has_expense_history_elsewhere(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $has_expense_history_elsewhere$
+  select exists (
+    select 1
+    from public.expenses e
+    join public.groups g on g.id = e.group_id
+    where g.created_by <> p_user_id
+      and (
+        e.paid_by_user_id = p_user_id
+        or exists (
+          select 1 from public.expense_payers ep
+          where ep.expense_id = e.id and ep.user_id = p_user_id
+        )
+        or exists (
+          select 1 from public.expense_splits s
+          where s.expense_id = e.id and s.user_id = p_user_id
+        )
+      )
+  );
+$has_expense_history_elsewhere$;
+
+create or replace function public.post_due_recurring_expenses(p_today date default current_date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $post_due_recurring_expenses$
+declare
+  v_template public.recurring_expenses%rowtype;
+  v_due date;
+  v_expense_id uuid;
+  v_splits jsonb;
+  v_posted integer := 0;
+begin
+  for v_template in
+    select * from public.recurring_expenses
+    where active and next_due_on <= p_today
+    for update skip locked
+  loop
+    v_due := v_template.next_due_on;
+    begin
+      -- Checked here (not only at commit) so a bad template pauses instead of failing the whole job
+      if (
+        select coalesce(sum((s->>'amount')::numeric), 0)
+        from jsonb_array_elements(v_template.splits) s
+      ) <> v_template.amount then
+        raise exception 'Splits do not add up to the amount';
+      end if;
+
+      while v_due <= p_today
+        and (v_template.end_date is null or v_due <= v_template.end_date)
+      loop
+        -- Picked up front so the random policy can seed from it
+        v_expense_id := gen_random_uuid();
+
+        insert into public.expenses (
+          id, group_id, title, amount, category, paid_by_user_id, split_type,
+          expense_date, entered_by, recurring_expense_id
+        )
+        values (
+          v_expense_id, v_template.group_id, v_template.title, v_template.amount, v_template.category,
+          (v_template.paid_by->>'id')::uuid, v_template.split_type,
+          v_due, v_template.created_by, v_template.id
+        )
+        on conflict (recurring_expense_id, expense_date) where recurring_expense_id is not null
+        do nothing
+        returning id into v_expense_id;
+
+        if v_expense_id is not null then
+          -- Equal: leftover paise by today's policy and rotation; other types are exact already
+          v_splits := case
+            when v_template.split_type = 'equal' then public.equal_split_json(
+              v_template.group_id,
+              v_expense_id,
+              v_template.amount,
+              array(
+                select (s->>'userId')::uuid
+                from jsonb_array_elements(v_template.splits) with ordinality as t(s, ord)
+                order by t.ord
+              ),
+              (v_template.paid_by->>'id')::uuid
+            )
+            else v_template.splits
+          end;
+          perform public.replace_expense_payers(v_expense_id, v_template.payers);
+          perform public.replace_expense_splits(v_expense_id, v_splits);
+          v_posted := v_posted + 1;
+        end if;
+
+        v_due := public.recurring_next_due(v_due, v_template.frequency, v_template.day_of_month);
+      end loop;
+
+      update public.recurring_expenses
+      set next_due_on = v_due,
+          active = v_template.end_date is null or v_due <= v_template.end_date,
+          last_error = null
+      where id = v_template.id;
+    exception when others then
+      -- e.g. payer no longer in the room: pause this template, keep posting the others
+      update public.recurring_expenses
+      set active = false, last_error = sqlerrm
+      where id = v_template.id;
+    end;
+  end loop;
+
+  return v_posted;
+end;
+$post_due_recurring_expenses$;
+
+revoke all on function public.post_due_recurring_expenses(date) from public, anon, authenticated;
+grant execute on function public.post_due_recurring_expenses(date) to service_role;
+
+create or replace function public.create_expense(p_group_id uuid, p_expense jsonb, p_splits jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $create_expense$
+declare
+  v_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using hint = 'not_authenticated';
+  end if;
+
+  if not public.is_group_member(p_group_id, auth.uid()) then
+    raise exception 'Not a member of this room' using hint = 'not_member';
+  end if;
+
+  perform public.check_expense_input(p_group_id, p_expense, p_splits);
+
+  if p_expense->>'recurring_expense_id' is not null
+     and not exists (
+       select 1 from public.recurring_expenses
+       where id = (p_expense->>'recurring_expense_id')::uuid and group_id = p_group_id
+     ) then
+    raise exception 'Recurring expense not found in this room' using hint = 'not_found';
+  end if;
+
+  insert into public.expenses (
+    id, group_id, title, amount, paid_by_user_id, split_type, items, charges,
+    expense_date, category, recurring_expense_id
+  )
+  values (
+    coalesce((p_expense->>'id')::uuid, gen_random_uuid()),
+    p_group_id,
+    trim(p_expense->>'title'),
+    (p_expense->>'amount')::numeric,
+    (p_expense->>'paid_by_user_id')::uuid,
+    p_expense->>'split_type',
+    nullif(p_expense->'items', 'null'::jsonb),
+    nullif(p_expense->'charges', 'null'::jsonb),
+    (p_expense->>'expense_date')::date,
+    coalesce(p_expense->>'category', 'other'),
+    (p_expense->>'recurring_expense_id')::uuid
+  )
+  returning id into v_id;
+
+  perform public.replace_expense_payers(v_id, p_expense->'payers');
+  perform public.replace_expense_splits(v_id, p_splits);
+  return v_id;
+end;
+$create_expense$;
+
+create or replace function public.update_expense(p_expense_id uuid, p_expense jsonb, p_splits jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $update_expense$
+declare
+  v_expense public.expenses%rowtype;
+  v_splits_changed boolean;
+  v_payers_changed boolean;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using hint = 'not_authenticated';
+  end if;
+
+  select * into v_expense from public.expenses where id = p_expense_id;
+  if not found or not public.is_group_member(v_expense.group_id, auth.uid()) then
+    raise exception 'Expense not found' using hint = 'not_found';
+  end if;
+
+  if not public.can_edit_expense(v_expense.group_id, v_expense.paid_by_user_id, auth.uid()) then
+    raise exception 'Only the payer or the room admin can edit this expense' using hint = 'not_allowed';
+  end if;
+
+  perform public.check_expense_input(v_expense.group_id, p_expense, p_splits, p_expense_id);
+
+  v_splits_changed := public.expense_splits_json(p_expense_id) is distinct from (
+    select coalesce(jsonb_agg(
+      jsonb_strip_nulls(jsonb_build_object(
+        'userId', s->>'userId',
+        'amount', (s->>'amount')::numeric,
+        'percentage', (s->>'percentage')::numeric,
+        'shares', (s->>'shares')::numeric
+      ))
+      order by t.ord
+    ), '[]'::jsonb)
+    from jsonb_array_elements(p_splits) with ordinality as t(s, ord)
+  );
+
+  v_payers_changed := public.expense_payers_json(p_expense_id) is distinct from (
+    select jsonb_agg(
+      jsonb_build_object('userId', p->>'userId', 'amount', (p->>'amount')::numeric)
+      order by t.ord
+    )
+    from jsonb_array_elements(coalesce(nullif(p_expense->'payers', 'null'::jsonb), '[]'::jsonb))
+      with ordinality as t(p, ord)
+  );
+
+  perform set_config('app.expense_splits_changed', case when v_splits_changed then 'on' else 'off' end, true);
+  perform set_config('app.expense_payers_changed', case when v_payers_changed then 'on' else 'off' end, true);
+
+  update public.expenses
+  set title = trim(p_expense->>'title'),
+      amount = (p_expense->>'amount')::numeric,
+      paid_by_user_id = (p_expense->>'paid_by_user_id')::uuid,
+      split_type = p_expense->>'split_type',
+      items = nullif(p_expense->'items', 'null'::jsonb),
+      charges = nullif(p_expense->'charges', 'null'::jsonb),
+      expense_date = (p_expense->>'expense_date')::date,
+      category = coalesce(p_expense->>'category', 'other')
+  where id = p_expense_id;
+
+  perform set_config('app.expense_splits_changed', 'off', true);
+  perform set_config('app.expense_payers_changed', 'off', true);
+
+  if v_payers_changed then
+    perform public.replace_expense_payers(p_expense_id, p_expense->'payers');
+  end if;
+
+  if v_splits_changed then
+    perform public.replace_expense_splits(p_expense_id, p_splits);
+  end if;
+end;
+$update_expense$;
+
+grant execute on function public.create_expense(uuid, jsonb, jsonb) to authenticated;
+grant execute on function public.update_expense(uuid, jsonb, jsonb) to authenticated;
@@ -0,0 +1,93 @@
+-- Account deletion keeps shared history: the profile becomes an anonymous "Deleted user".
+-- profiles cascaded from auth.users, so any account on a shared expense could not be deleted
+-- (expense FKs point at profiles) and the delete-account route refused it for good; settlements
+-- cascaded, so deleting an account silently rewrote everyone else's balances.
+-- 1) profiles no longer cascade from auth.users; profiles.deleted_at marks a tombstone
+-- 2) tombstone_deleted_user (before delete on auth.users): records the user as a former member of
+--    each room they were in, and clears the profile's name, email and security question
+-- 3) settlements: payer / receiver reference profiles (restrict); created_by is set null
+-- 4) has_expense_history_elsewhere is gone (nothing refuses the delete any more)
+
+-- 1) Profiles outlive their account
+alter table public.profiles
+  drop constraint if exists profiles_id_fkey;
+
+alter table public.profiles
+  add column if not exists deleted_at timestamptz;
+
+-- 2) Tombstone
+create or replace function public.tombstone_deleted_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $tombstone_deleted_user$
+begin
+  -- Memberships go with the account (cascade); keep them as former members first
+  insert into public.group_former_members (group_id, user_id, name, email, balance_at_exit)
+  select gm.group_id, gm.user_id, 'Deleted user', null, public.member_balance(gm.group_id, gm.user_id)
+  from public.group_members gm
+  where gm.user_id = old.id
+  on conflict (group_id, user_id) do update
+  set name = excluded.name,
+      email = null,
+      left_at = now(),
+      removed_by = null,
+      balance_at_exit = excluded.balance_at_exit;
+
+  -- Rooms they had already left
+  update public.group_former_members
+  set name = 'Deleted user', email = null
+  where user_id = old.id;
+
+  update public.profiles
+  set name = 'Deleted user',
+      email = null,
+      secret_question = null,
+      secret_answer_hash = null,
+      deleted_at = now(),
+      updated_at = now()
+  where id = old.id;
+
+  return old;
+end;
+$tombstone_deleted_user$;
+
+revoke all on function public.tombstone_deleted_user() from public, anon, authenticated;
+
+drop trigger if exists trg_tombstone_deleted_user on auth.users;
+
+create trigger trg_tombstone_deleted_user
+  before delete on auth.users
+  for each row execute function public.tombstone_deleted_user();
+
+-- 3) Settlements stay with the tombstone
+-- Profiles for parties who are still registered but never got one (FK targets below)
+insert into public.profiles (id, email)
+select u.id, u.email
+from auth.users u
+where u.id in (
+  select from_user_id from public.settlements
+  union
+  select to_user_id from public.settlements
+)
+on conflict (id) do nothing;
+
+alter table public.settlements
+  drop constraint if exists settlements_from_user_id_fkey,
+  drop constraint if exists settlements_to_user_id_fkey,
+  drop constraint if exists settlements_created_by_fkey;
+
+alter table public.settlements
+  alter column created_by drop not null;
+
+alter table public.settlements
+  add constraint settlements_from_user_id_fkey
+    foreign key (from_user_id) references public.profiles(id) on delete restrict,
+  add constraint settlements_to_user_id_fkey
+    foreign key (to_user_id) references public.profiles(id) on delete restrict,
+  add constraint settlements_created_by_fkey
+    foreign key (created_by) references auth.users(id) on delete set null;
+
+-- 4) No more refusing
+drop function if exists public.has_expense_history_elsewhere(uuid);
@@ -0,0 +1,198 @@
+-- Expense writes only through create_expense / update_expense, with the receipt checked too.
+-- The "Payer or admin can update expense" policy let the payer PATCH the row directly, skipping
+-- check_expense_input, and check_expense_input never looked at itemized receipts or at fractions
+-- of a paisa in splits and payments.
+-- 1) No update policy on expenses: edits go through update_expense, trash moves through
+--    soft_delete_expense / restore_expense (all security definer)
+-- 2) check_expense_input: splits and payments in whole paise; itemized expenses need items and
+--    charges that add up to the amount, on the same people as the splits (new hints
+--    'invalid_items', 'items_total_mismatch'); other split types carry no items or charges
+
+-- 1) No direct edits
+drop policy if exists "Payer or admin can update expense" on public.expenses;
+
+-- 2) Validation
+create or replace function public.check_expense_input(
+  p_group_id uuid,
+  p_expense jsonb,
+  p_splits jsonb,
+  p_existing_id uuid default null
+)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $check_expense_input$
+declare
+  v_uuid constant text := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+  v_amount numeric;
+  v_payer jsonb;
+  v_payer_total numeric := 0;
+  v_split jsonb;
+  v_split_total numeric := 0;
+  v_user_id uuid;
+  v_seen uuid[] := '{}';
+  v_item jsonb;
+  v_item_total numeric := 0;
+  v_charge text;
+  v_charge_total numeric := 0;
+  v_item_user_ids uuid[] := '{}';
+begin
+  if coalesce(trim(p_expense->>'title'), '') = '' then
+    raise exception 'Title is required' using hint = 'invalid_title';
+  end if;
+
+  if jsonb_typeof(p_expense->'amount') is distinct from 'number' then
+    raise exception 'Amount must be greater than zero' using hint = 'invalid_amount';
+  end if;
+  v_amount := (p_expense->>'amount')::numeric;
+  if v_amount <= 0 or v_amount <> round(v_amount, 2) then
+    raise exception 'Amount must be greater than zero, in whole paise' using hint = 'invalid_amount';
+  end if;
+
+  if coalesce(p_expense->>'split_type', '') not in ('equal', 'custom', 'percentage', 'shares', 'itemized') then
+    raise exception 'Unknown split type "%"', p_expense->>'split_type' using hint = 'invalid_split_type';
+  end if;
+
+  -- Payer (an edit may keep a payer who has left the room)
+  if coalesce(p_expense->>'paid_by_user_id', '') !~* v_uuid then
+    raise exception 'Payer is required' using hint = 'payer_not_member';
+  end if;
+  v_user_id := (p_expense->>'paid_by_user_id')::uuid;
+  if not public.is_group_member(p_group_id, v_user_id)
+     and not exists (
+       select 1 from public.expenses e
+       where e.id = p_existing_id and e.paid_by_user_id = v_user_id
+     ) then
+    raise exception 'Payer must be a member of this room' using hint = 'payer_not_member';
+  end if;
+
+  -- Multi-payer: every payer is a member and the payments add up to the amount
+  if jsonb_typeof(p_expense->'payers') = 'array' and jsonb_array_length(p_expense->'payers') > 0 then
+    v_seen := '{}';
+    for v_payer in select value from jsonb_array_elements(p_expense->'payers') loop
+      if coalesce(v_payer->>'userId', '') !~* v_uuid
+         or jsonb_typeof(v_payer->'amount') is distinct from 'number'
+         or (v_payer->>'amount')::numeric <= 0 then
+        raise exception 'Each payer needs an amount greater than zero' using hint = 'invalid_payers';
+      end if;
+      if (v_payer->>'amount')::numeric <> round((v_payer->>'amount')::numeric, 2) then
+        raise exception 'Payments must be in whole paise' using hint = 'invalid_payers';
+      end if;
+      v_user_id := (v_payer->>'userId')::uuid;
+      if v_user_id = any(v_seen) then
+        raise exception 'Each person can appear only once in the payments' using hint = 'invalid_payers';
+      end if;
+      v_seen := v_seen || v_user_id;
+      if not public.is_group_member(p_group_id, v_user_id)
+         and not exists (
+           select 1 from public.expense_payers ep
+           where ep.expense_id = p_existing_id and ep.user_id = v_user_id
+         ) then
+        raise exception 'Every payer must be a member of this room' using hint = 'payer_not_member';
+      end if;
+      v_payer_total := v_payer_total + (v_payer->>'amount')::numeric;
+    end loop;
+
+    if v_payer_total <> v_amount then
+      raise exception 'Payments add up to % but the expense is %', v_payer_total, v_amount
+        using hint = 'payer_total_mismatch';
+    end if;
+  end if;
+
+  -- Splits: members only, each person once, exact total
+  if jsonb_typeof(p_splits) is distinct from 'array' or jsonb_array_length(p_splits) = 0 then
+    raise exception 'At least one person must share the expense' using hint = 'invalid_splits';
+  end if;
+
+  v_seen := '{}';
+  for v_split in select value from jsonb_array_elements(p_splits) loop
+    if coalesce(v_split->>'userId', '') !~* v_uuid
+       or jsonb_typeof(v_split->'amount') is distinct from 'number'
+       or (v_split->>'amount')::numeric < 0 then
+      raise exception 'Each split needs a member and an amount of zero or more' using hint = 'invalid_splits';
+    end if;
+    if (v_split->>'amount')::numeric <> round((v_split->>'amount')::numeric, 2) then
+      raise exception 'Split amounts must be in whole paise' using hint = 'invalid_splits';
+    end if;
+    v_user_id := (v_split->>'userId')::uuid;
+    if v_user_id = any(v_seen) then
+      raise exception 'Each person can appear only once in the splits' using hint = 'invalid_splits';
+    end if;
+    v_seen := v_seen || v_user_id;
+    if not public.is_group_member(p_group_id, v_user_id)
+       and not exists (
+         select 1 from public.expense_splits s
+         where s.expense_id = p_existing_id and s.user_id = v_user_id
+       ) then
+      raise exception 'Everyone sharing the expense must be a member of this room'
+        using hint = 'participant_not_member';
+    end if;
+    v_split_total := v_split_total + (v_split->>'amount')::numeric;
+  end loop;
+
+  if v_split_total <> v_amount then
+    raise exception 'Splits add up to % but the expense is %', v_split_total, v_amount
+      using hint = 'split_total_mismatch';
+  end if;
+
+  -- Itemized: the receipt (items + tax, service charge, tip) adds up to the amount, and the people
+  -- on the items are exactly the people in the splits
+  if p_expense->>'split_type' <> 'itemized' then
+    if nullif(p_expense->'items', 'null'::jsonb) is not null or nullif(p_expense->'charges', 'null'::jsonb) is not null then
+      raise exception 'Only itemized expenses have items and charges' using hint = 'invalid_items';
+    end if;
+    return;
+  end if;
+
+  if jsonb_typeof(p_expense->'items') is distinct from 'array' or jsonb_array_length(p_expense->'items') = 0 then
+    raise exception 'Add at least one item' using hint = 'invalid_items';
+  end if;
+
+  for v_item in select value from jsonb_array_elements(p_expense->'items') loop
+    if jsonb_typeof(v_item->'amount') is distinct from 'number'
+       or (v_item->>'amount')::numeric <= 0
+       or (v_item->>'amount')::numeric <> round((v_item->>'amount')::numeric, 2) then
+      raise exception 'Every item needs an amount greater than zero, in whole paise' using hint = 'invalid_items';
+    end if;
+    if jsonb_typeof(v_item->'participantIds') is distinct from 'array'
+       or jsonb_array_length(v_item->'participantIds') = 0
+       or exists (
+         select 1 from jsonb_array_elements_text(v_item->'participantIds') pid
+         where pid !~* v_uuid
+       ) then
+      raise exception 'Every item needs at least one person' using hint = 'invalid_items';
+    end if;
+    v_item_total := v_item_total + (v_item->>'amount')::numeric;
+    v_item_user_ids := v_item_user_ids || array(
+      select pid::uuid from jsonb_array_elements_text(v_item->'participantIds') pid
+    );
+  end loop;
+
+  if jsonb_typeof(p_expense->'charges') is distinct from 'object' then
+    raise exception 'Tax, service charge and tip are required (0 if none)' using hint = 'invalid_items';
+  end if;
+  foreach v_charge in array array['tax', 'serviceCharge', 'tip'] loop
+    if jsonb_typeof(p_expense->'charges'->v_charge) is distinct from 'number'
+       or (p_expense->'charges'->>v_charge)::numeric < 0
+       or (p_expense->'charges'->>v_charge)::numeric <> round((p_expense->'charges'->>v_charge)::numeric, 2) then
+      raise exception 'Tax, service charge and tip must be zero or more, in whole paise' using hint = 'invalid_items';
+    end if;
+    v_charge_total := v_charge_total + (p_expense->'charges'->>v_charge)::numeric;
+  end loop;
+
+  if v_item_total + v_charge_total <> v_amount then
+    raise exception 'Items and charges add up to % but the expense is %', v_item_total + v_charge_total, v_amount
+      using hint = 'items_total_mismatch';
+  end if;
+
+  if exists (select unnest(v_item_user_ids) except select unnest(v_seen))
+     or exists (select unnest(v_seen) except select unnest(v_item_user_ids)) then
+    raise exception 'Everyone on an item must share the expense, and everyone sharing it must be on an item'
+      using hint = 'invalid_items';
+  end if;
+end;
+$check_expense_input$;
+
+revoke all on function public.check_expense_input(uuid, jsonb, jsonb, uuid) from public, anon, authenticated;
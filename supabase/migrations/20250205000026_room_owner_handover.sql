@@ -0,0 +1,194 @@
+-- Rooms outlive their owner.
+-- groups.created_by cascaded from auth.users, so deleting the owner's account deleted the room and
+-- everyone's expenses in it; an owner leaving as the last member left the room without an owner for
+-- good; and two policies still treated groups.created_by as the admin.
+-- 1) groups.created_by is set null when the account goes (instead of deleting the room)
+-- 2) hand_over_room: the owner's role goes to an admin, else the member with the oldest account.
+--    tombstone_deleted_user runs it for every room the deleted user owned
+-- 3) join_group_by_code: whoever joins a room that has no owner becomes its owner
+-- 4) groups select and group_members insert policies use is_group_member / is_group_admin
+
+-- 1) No cascade from the owner's account
+alter table public.groups
+  alter column created_by drop not null;
+
+alter table public.groups
+  drop constraint if exists groups_created_by_fkey;
+
+alter table public.groups
+  add constraint groups_created_by_fkey
+  foreign key (created_by) references auth.users(id) on delete set null;
+
+-- 2) Handover
+create or replace function public.hand_over_room(p_group_id uuid, p_leaving_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $hand_over_room$
+declare
+  v_next uuid;
+begin
+  select gm.user_id into v_next
+  from public.group_members gm
+  left join public.profiles p on p.id = gm.user_id
+  where gm.group_id = p_group_id and gm.user_id <> p_leaving_user_id
+  order by gm.role = 'admin' desc, p.created_at nulls last, gm.user_id
+  limit 1;
+
+  -- Nobody left: the room stays ownerless until someone joins
+  if v_next is null then
+    return;
+  end if;
+
+  -- Old owner first: the unique index allows one owner at a time
+  update public.group_members
+  set role = 'admin'
+  where group_id = p_group_id and user_id = p_leaving_user_id;
+
+  update public.group_members
+  set role = 'owner'
+  where group_id = p_group_id and user_id = v_next;
+
+  update public.groups
+  set created_by = v_next
+  where id = p_group_id;
+end;
+$hand_over_room$;
+
+revoke all on function public.hand_over_room(uuid, uuid) from public, anon, authenticated;
+
+create or replace function public.tombstone_deleted_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $tombstone_deleted_user$
+begin
+  -- Rooms they own go to the next admin / member before the membership goes
+  perform public.hand_over_room(gm.group_id, old.id)
+  from public.group_members gm
+  where gm.user_id = old.id and gm.role = 'owner';
+
+  -- Memberships go with the account (cascade); keep them as former members first
+  insert into public.group_former_members (group_id, user_id, name, email, balance_at_exit)
+  select gm.group_id, gm.user_id, 'Deleted user', null, public.member_balance(gm.group_id, gm.user_id)
+  from public.group_members gm
+  where gm.user_id = old.id
+  on conflict (group_id, user_id) do update
+  set name = excluded.name,
+      email = null,
+      left_at = now(),
+      removed_by = null,
+      balance_at_exit = excluded.balance_at_exit;
+
+  -- Rooms they had already left
+  update public.group_former_members
+  set name = 'Deleted user', email = null
+  where user_id = old.id;
+
+  update public.profiles
+  set name = 'Deleted user',
+      email = null,
+      secret_question = null,
+      secret_answer_hash = null,
+      deleted_at = now(),
+      updated_at = now()
+  where id = old.id;
+
+  return old;
+end;
+$tombstone_deleted_user$;
+
+-- 3) Joining an ownerless room
+create or replace function public.join_group_by_code(p_code text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $join_group$
+declare
+  v_group_id uuid;
+  v_user_id uuid := auth.uid();
+  v_members jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select id into v_group_id
+  from public.groups
+  where upper(trim(code)) = upper(trim(p_code))
+  limit 1;
+
+  if v_group_id is null then
+    raise exception 'Invalid invite code';
+  end if;
+
+  insert into public.group_members (group_id, user_id)
+  values (v_group_id, v_user_id)
+  on conflict (group_id, user_id) do nothing;
+
+  -- The owner left as the last member (or deleted their account): the room is theirs now
+  if not exists (
+    select 1 from public.group_members
+    where group_id = v_group_id and role = 'owner'
+  ) then
+    update public.group_members
+    set role = 'owner'
+    where group_id = v_group_id and user_id = v_user_id;
+
+    update public.groups
+    set created_by = v_user_id
+    where id = v_group_id;
+  end if;
+
+  insert into public.profiles (id, name)
+  select v_user_id, coalesce(
+    (select name from public.profiles where id = v_user_id),
+    coalesce(
+      nullif(split_part((select email from auth.users where id = v_user_id), '@', 1), ''),
+      'User'
+    )
+  )
+  on conflict (id) do update set updated_at = now();
+
+  select jsonb_build_object(
+    'id', g.id,
+    'name', g.name,
+    'code', g.code,
+    'createdBy', g.created_by::text,
+    'remainderPolicy', g.remainder_policy,
+    'members', (
+      select coalesce(jsonb_agg(
+        jsonb_build_object('id', p.id::text, 'name', p.name, 'email', p.email, 'role', gm.role)
+      ), '[]'::jsonb)
+      from public.group_members gm
+      join public.profiles p on p.id = gm.user_id
+      where gm.group_id = g.id
+    )
+  ) into v_members
+  from public.groups g
+  where g.id = v_group_id;
+
+  return v_members;
+end;
+$join_group$;
+
+-- 4) Policies by role
+drop policy if exists "Members can read groups they belong to" on public.groups;
+
+create policy "Members can read groups they belong to"
+  on public.groups for select
+  using (public.is_group_member(id, auth.uid()));
+
+drop policy if exists "Group creator can add members" on public.group_members;
+
+-- All group_members inserts go through create_group / join_group_by_code RPCs (SECURITY DEFINER);
+-- a direct insert by an admin may only add a plain member
+create policy "Room admins can add members"
+  on public.group_members for insert
+  with check (
+    public.is_group_admin(group_id, auth.uid())
+    and role = 'member'
+  );
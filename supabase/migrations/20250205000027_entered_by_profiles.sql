@@ -0,0 +1,20 @@
+-- expenses.entered_by stays with the tombstone.
+-- entered_by referenced auth.users (on delete set null), but record_expense_revision restores
+-- entered_by on every update, so the FK's set null was undone and deleting the account of anyone
+-- who had ever entered an expense failed with an expenses_entered_by_fkey violation.
+-- 1) entered_by references profiles (restrict), which outlive the account since account deletion
+--    tombstones the profile; "entered by" then reads "Deleted user"
+
+-- Profiles for people who entered expenses but never got one (FK target below)
+insert into public.profiles (id, email)
+select u.id, u.email
+from auth.users u
+where u.id in (select entered_by from public.expenses)
+on conflict (id) do nothing;
+
+alter table public.expenses
+  drop constraint if exists expenses_entered_by_fkey;
+
+alter table public.expenses
+  add constraint expenses_entered_by_fkey
+  foreign key (entered_by) references public.profiles(id) on delete restrict;
@@ -0,0 +1,203 @@
+-- Recurring templates are validated like expenses, when they are saved and every time they post.
+-- Templates were written with a direct insert whose only check was that the payer is a member, so
+-- a template could charge someone outside the room, and post_due_recurring_expenses then posted
+-- those splits every month without looking at who is still in the room.
+-- 1) create_recurring_expense: the template goes through check_expense_input (members, whole
+--    paise, payments and splits add up) before it is stored
+-- 2) set_recurring_expense_active: pause / resume (creator, payer or room admin)
+-- 3) No insert or update policies on recurring_expenses: writes go through the RPCs above
+-- 4) post_due_recurring_expenses: re-checks the template with check_expense_input before posting,
+--    so a template whose payer or participants have left the room pauses instead of posting
+
+-- 1) Create
+create or replace function public.create_recurring_expense(p_group_id uuid, p_template jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $create_recurring_expense$
+declare
+  v_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using hint = 'not_authenticated';
+  end if;
+
+  if not public.is_group_member(p_group_id, auth.uid()) then
+    raise exception 'Not a member of this room' using hint = 'not_member';
+  end if;
+
+  perform public.check_expense_input(
+    p_group_id,
+    p_template || jsonb_build_object('paid_by_user_id', p_template->'paid_by'->>'id'),
+    p_template->'splits'
+  );
+
+  insert into public.recurring_expenses (
+    group_id, title, amount, category, paid_by, payers, split_type, splits,
+    frequency, day_of_month, start_date, end_date, next_due_on
+  )
+  values (
+    p_group_id,
+    trim(p_template->>'title'),
+    (p_template->>'amount')::numeric,
+    coalesce(p_template->>'category', 'other'),
+    p_template->'paid_by',
+    nullif(p_template->'payers', 'null'::jsonb),
+    p_template->>'split_type',
+    p_template->'splits',
+    p_template->>'frequency',
+    (p_template->>'day_of_month')::integer,
+    (p_template->>'start_date')::date,
+    (p_template->>'end_date')::date,
+    (p_template->>'next_due_on')::date
+  )
+  returning id into v_id;
+
+  return v_id;
+end;
+$create_recurring_expense$;
+
+grant execute on function public.create_recurring_expense(uuid, jsonb) to authenticated;
+
+-- 2) Pause / resume
+create or replace function public.set_recurring_expense_active(p_recurring_expense_id uuid, p_active boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $set_recurring_expense_active$
+declare
+  v_template public.recurring_expenses%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using hint = 'not_authenticated';
+  end if;
+
+  select * into v_template
+  from public.recurring_expenses
+  where id = p_recurring_expense_id
+  for update;
+
+  if v_template.id is null or not public.is_group_member(v_template.group_id, auth.uid()) then
+    raise exception 'Recurring expense not found' using hint = 'not_found';
+  end if;
+
+  if v_template.created_by is distinct from auth.uid()
+     and not public.can_edit_expense(v_template.group_id, (v_template.paid_by->>'id')::uuid, auth.uid()) then
+    raise exception 'Only whoever set it up, the payer or the room admin can change this'
+      using hint = 'not_allowed';
+  end if;
+
+  -- Resuming clears the reason it was paused (the job pauses it again if that still holds)
+  update public.recurring_expenses
+  set active = p_active,
+      last_error = case when p_active then null else last_error end
+  where id = p_recurring_expense_id;
+end;
+$set_recurring_expense_active$;
+
+grant execute on function public.set_recurring_expense_active(uuid, boolean) to authenticated;
+
+-- 3) No direct writes (delete stays: it needs no validation)
+drop policy if exists "Members can create recurring expenses in their groups" on public.recurring_expenses;
+drop policy if exists "Creator, payer or admin can update recurring expense" on public.recurring_expenses;
+
+-- 4) Posting
+create or replace function public.post_due_recurring_expenses(p_today date default current_date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $post_due_recurring_expenses$
+declare
+  v_template public.recurring_expenses%rowtype;
+  v_due date;
+  v_expense_id uuid;
+  v_splits jsonb;
+  v_posted integer := 0;
+begin
+  for v_template in
+    select * from public.recurring_expenses
+    where active and next_due_on <= p_today
+    for update skip locked
+  loop
+    v_due := v_template.next_due_on;
+    begin
+      -- Checked here (not only at commit) so a bad template pauses instead of failing the whole job:
+      -- payer, payers and everyone sharing must still be in the room, and the amounts add up
+      perform public.check_expense_input(
+        v_template.group_id,
+        jsonb_build_object(
+          'title', v_template.title,
+          'amount', v_template.amount,
+          'category', v_template.category,
+          'paid_by_user_id', v_template.paid_by->>'id',
+          'payers', v_template.payers,
+          'split_type', v_template.split_type
+        ),
+        v_template.splits
+      );
+
+      while v_due <= p_today
+        and (v_template.end_date is null or v_due <= v_template.end_date)
+      loop
+        -- Picked up front so the random policy can seed from it
+        v_expense_id := gen_random_uuid();
+
+        insert into public.expenses (
+          id, group_id, title, amount, category, paid_by_user_id, split_type,
+          expense_date, entered_by, recurring_expense_id
+        )
+        values (
+          v_expense_id, v_template.group_id, v_template.title, v_template.amount, v_template.category,
+          (v_template.paid_by->>'id')::uuid, v_template.split_type,
+          v_due, v_template.created_by, v_template.id
+        )
+        on conflict (recurring_expense_id, expense_date) where recurring_expense_id is not null
+        do nothing
+        returning id into v_expense_id;
+
+        if v_expense_id is not null then
+          -- Equal: leftover paise by today's policy and rotation; other types are exact already
+          v_splits := case
+            when v_template.split_type = 'equal' then public.equal_split_json(
+              v_template.group_id,
+              v_expense_id,
+              v_template.amount,
+              array(
+                select (s->>'userId')::uuid
+                from jsonb_array_elements(v_template.splits) with ordinality as t(s, ord)
+                order by t.ord
+              ),
+              (v_template.paid_by->>'id')::uuid
+            )
+            else v_template.splits
+          end;
+          perform public.replace_expense_payers(v_expense_id, v_template.payers);
+          perform public.replace_expense_splits(v_expense_id, v_splits);
+          v_posted := v_posted + 1;
+        end if;
+
+        v_due := public.recurring_next_due(v_due, v_template.frequency, v_template.day_of_month);
+      end loop;
+
+      update public.recurring_expenses
+      set next_due_on = v_due,
+          active = v_template.end_date is null or v_due <= v_template.end_date,
+          last_error = null
+      where id = v_template.id;
+    exception when others then
+      -- e.g. payer or a participant no longer in the room: pause this template, keep posting the others
+      update public.recurring_expenses
+      set active = false, last_error = sqlerrm
+      where id = v_template.id;
+    end;
+  end loop;
+
+  return v_posted;
+end;
+$post_due_recurring_expenses$;
+
+revoke all on function public.post_due_recurring_expenses(date) from public, anon, authenticated;
+grant execute on function public.post_due_recurring_expenses(date) to service_role;
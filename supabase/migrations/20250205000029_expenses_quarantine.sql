@@ -0,0 +1,20 @@
+-- Quarantine for expenses that can't be kept as they are (moved out of 20250205000015, which is
+-- left as it shipped so databases that already ran it don't drift from the repo).
+-- 1) expenses_quarantine: the expenses row (with its payers and splits) and its edit history, and
+--    why it was taken out. Later data fixes move rows here instead of deleting them.
+-- Rows 20250205000015 dropped when it ran (room gone or never real, payer without a user id) are
+-- not recoverable from here. record_expense_revision builds changed_fields with array_append since
+-- 20250205000023, so the earlier definitions are left as they shipped too.
+
+-- 1) Table
+create table if not exists public.expenses_quarantine (
+  expense_id uuid primary key,
+  reason text not null,
+  -- The expenses row as it was (plus payers and splits), and its edit history (removed with it)
+  expense jsonb not null,
+  revisions jsonb not null default '[]',
+  quarantined_at timestamptz not null default now()
+);
+
+-- Readable by the service role only (no policies): an operator reviews and restores by hand
+alter table public.expenses_quarantine enable row level security;
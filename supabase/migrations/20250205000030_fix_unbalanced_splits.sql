@@ -0,0 +1,64 @@
+-- Existing expenses whose splits don't add up to the amount.
+-- The baseline accepted custom splits that were off by up to a paisa (₹100 as 3 × ₹33.33), and
+-- 20250205000015 copied them into expense_splits before the deferred split-total trigger existed,
+-- so they were never checked. The room's balances then don't net to zero.
+-- 1) Split amounts in fractions of a paisa are rounded to whole paise
+-- 2) The difference goes to the payer's split (added when the payer had no share and the splits
+--    fall short)
+-- 3) Expenses that can't be fixed that way (the payer's share would go below zero) move to
+--    expenses_quarantine
+
+-- 1) Whole paise
+update public.expense_splits
+set amount = round(amount, 2)
+where amount <> round(amount, 2);
+
+-- 2) Payer takes the difference
+create temporary table unbalanced_expenses on commit drop as
+select e.id, e.paid_by_user_id, e.amount - coalesce(sum(s.amount), 0) as difference
+from public.expenses e
+left join public.expense_splits s on s.expense_id = e.id
+group by e.id
+having e.amount <> coalesce(sum(s.amount), 0);
+
+update public.expense_splits s
+set amount = s.amount + u.difference
+from unbalanced_expenses u
+where s.expense_id = u.id
+  and s.user_id = u.paid_by_user_id
+  and s.amount + u.difference >= 0;
+
+insert into public.expense_splits (expense_id, user_id, amount, position)
+select u.id, u.paid_by_user_id, u.difference, coalesce((
+    select max(s.position) + 1 from public.expense_splits s where s.expense_id = u.id
+  ), 0)
+from unbalanced_expenses u
+where u.difference > 0
+  and not exists (
+    select 1 from public.expense_splits s
+    where s.expense_id = u.id and s.user_id = u.paid_by_user_id
+  );
+
+-- 3) The rest: quarantine
+insert into public.expenses_quarantine (expense_id, reason, expense, revisions)
+select e.id, 'splits do not add up to the amount',
+  to_jsonb(e) || jsonb_build_object(
+    'payers', public.expense_payers_json(e.id),
+    'splits', public.expense_splits_json(e.id)
+  ),
+  coalesce((
+    select jsonb_agg(to_jsonb(r) order by r.revised_at)
+    from public.expense_revisions r
+    where r.expense_id = e.id
+  ), '[]'::jsonb)
+from public.expenses e
+join unbalanced_expenses u on u.id = e.id
+where e.amount <> (
+  select coalesce(sum(s.amount), 0) from public.expense_splits s where s.expense_id = e.id
+)
+on conflict (expense_id) do nothing;
+
+delete from public.expenses e
+using public.expenses_quarantine q
+where q.expense_id = e.id
+  and q.reason = 'splits do not add up to the amount';
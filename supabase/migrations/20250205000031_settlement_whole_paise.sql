@@ -0,0 +1,20 @@
+-- Settlements in whole paise, like expense amounts and splits (20250205000025).
+-- settlements.amount only had to be positive, so ₹0.001 could be recorded: a balance too small for
+-- the app to show, which still blocked that member from leaving the room.
+-- 1) Existing amounts are rounded to whole paise; amounts that round to zero are removed
+-- 2) check (amount = round(amount, 2))
+
+-- 1) Existing rows
+delete from public.settlements
+where round(amount, 2) = 0;
+
+update public.settlements
+set amount = round(amount, 2)
+where amount <> round(amount, 2);
+
+-- 2) Constraint
+alter table public.settlements
+  drop constraint if exists settlements_amount_whole_paise;
+
+alter table public.settlements
+  add constraint settlements_amount_whole_paise check (amount = round(amount, 2));